@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ASSET_ID_PATTERN, assetStorage } from '@/lib/storage';
+
+// Asset ids are content hashes, so a stored asset never changes
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!ASSET_ID_PATTERN.test(id)) {
+    return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+  }
+
+  const etag = `"${id}"`;
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, {
+      status: 304,
+      headers: { 'ETag': etag, 'Cache-Control': CACHE_CONTROL }
+    });
+  }
+
+  const stored = await assetStorage.get(id);
+  if (!stored) {
+    return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+  }
+
+  return new NextResponse(Buffer.from(stored.data), {
+    headers: {
+      'Content-Type': stored.asset.contentType,
+      'Content-Length': String(stored.asset.size),
+      'Cache-Control': CACHE_CONTROL,
+      'ETag': etag,
+      'X-Content-Type-Options': 'nosniff'
+    }
+  });
+}
@@ -1,91 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { aiImageService } from '@/lib/aiService';
+import { getServerConfig } from '@/lib/config';
+import type { EditFailureReason, ImageEditCapabilities, ImageEditResponse } from '@/lib/imageEditApi';
+import { validateImageEditRequest } from '@/lib/requestValidation';
+
+const FAILURE_STATUS: Record<EditFailureReason, number> = {
+  'bad-request': 422,
+  'rate-limited': 429,
+  'upstream-unavailable': 503,
+  'circuit-open': 503,
+  'network': 502,
+  'timeout': 504,
+  'invalid-response': 502,
+  'refused': 422,
+  'no-image': 422,
+  'provider-failed': 502,
+  'cancelled': 499,
+  'unknown': 500
+};
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { image, operation, parameters } = body;
 
-    // Validate required fields
-    if (!image || !operation) {
-      return NextResponse.json(
-        { error: 'Missing required fields: image and operation' },
-        { status: 400 }
+    const validation = validateImageEditRequest(body);
+    if (!validation.valid) {
+      return NextResponse.json<ImageEditResponse>(
+        { success: false, error: validation.error },
+        { status: validation.status }
       );
     }
 
-    // Validate image format (should be base64)
-    if (typeof image !== 'string') {
-      return NextResponse.json(
-        { error: 'Image must be a base64 string' },
-        { status: 400 }
-      );
-    }
+    const { request: { image, operation, parameters }, providerOperation } = validation;
 
-    // Process image based on operation
-    let result;
-    
-    switch (operation) {
-      case 'background-removal':
-        result = await aiImageService.removeBackground(image);
-        break;
-      
-      case 'style-transfer':
-        const style = parameters?.style || 'artistic';
-        result = await aiImageService.applyStyleTransfer(image, style);
-        break;
-      
-      case 'enhance':
-        result = await aiImageService.enhanceImage(image);
-        break;
-      
-      case 'object-removal':
-        const objectDescription = parameters?.prompt || '';
-        if (!objectDescription) {
-          return NextResponse.json(
-            { error: 'Object description is required for object removal' },
-            { status: 400 }
-          );
-        }
-        result = await aiImageService.removeObject(image, objectDescription);
-        break;
-      
-      case 'artistic-filter':
-        const filterStyle = parameters?.style || 'watercolor';
-        result = await aiImageService.applyArtisticFilter(image, filterStyle);
-        break;
-      
-      default:
-        // Custom edit or generic processing
-        result = await aiImageService.processImage({
-          image,
-          operation: 'enhance',
-          parameters
-        });
-    }
+    // Abort the provider call if the client disconnects or cancels
+    const result = await aiImageService.processImage({
+      image,
+      operation: providerOperation,
+      parameters
+    }, { signal: request.signal });
 
-    if (result.success) {
-      return NextResponse.json({
+    if (result.success && result.data) {
+      return NextResponse.json<ImageEditResponse>({
         success: true,
         imageUrl: result.data,
+        images: result.images ?? [result.data],
         processingTime: result.processingTime,
-        operation
+        attempts: result.attempts,
+        operation,
+        provider: result.provider
       });
     } else {
-      return NextResponse.json(
-        { 
+      return NextResponse.json<ImageEditResponse>(
+        {
+          success: false,
           error: result.error || 'Processing failed',
-          operation 
+          cancelled: result.cancelled,
+          failureReason: result.failureReason,
+          attempts: result.attempts,
+          operation
         },
-        { status: 500 }
+        { status: result.cancelled ? 499 : FAILURE_STATUS[result.failureReason ?? 'unknown'] }
       );
     }
 
   } catch (error) {
     console.error('Image processing API error:', error);
-    
-    return NextResponse.json(
-      { 
+
+    return NextResponse.json<ImageEditResponse>(
+      {
+        success: false,
         error: error instanceof Error ? error.message : 'Internal server error',
         details: 'Failed to process image request'
       },
@@ -95,16 +79,18 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET() {
-  return NextResponse.json({
+  const capabilities = aiImageService.getCapabilities();
+
+  return NextResponse.json<ImageEditCapabilities>({
     message: 'AI Image Processing API',
     version: '1.0.0',
-    supportedOperations: [
-      'background-removal',
-      'style-transfer', 
-      'enhance',
-      'object-removal',
-      'artistic-filter'
-    ],
+    provider: {
+      type: capabilities.provider,
+      label: capabilities.label,
+      model: capabilities.model
+    },
+    supportedOperations: [...capabilities.supportedOperations],
+    maxImageBytes: getServerConfig().maxImageBytes,
     usage: {
       method: 'POST',
       contentType: 'application/json',
@@ -115,4 +101,4 @@ export async function GET() {
       }
     }
   });
-}
\ No newline at end of file
+}
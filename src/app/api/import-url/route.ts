@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerConfig } from '@/lib/config';
+import { MAX_UPLOAD_BYTES, validateImageFile } from '@/lib/imageUtils';
+import { assetStorage, assetUrl, sniffImageType } from '@/lib/storage';
+import { fetchRemoteImage, UrlImportError } from '@/lib/urlImport';
+import { fileNameFromUrl, urlImportRequestSchema, type UrlImportResponse } from '@/lib/urlImportApi';
+
+const config = getServerConfig();
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<UrlImportResponse>(
+      { success: false, error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = urlImportRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json<UrlImportResponse>(
+      { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid request' },
+      { status: 400 }
+    );
+  }
+
+  // The download is stored as an asset, so the asset limit applies as well as the upload one
+  const maxBytes = Math.min(MAX_UPLOAD_BYTES, config.assets.maxBytes);
+
+  try {
+    const remote = await fetchRemoteImage(parsed.data.url, {
+      maxBytes,
+      timeoutMs: config.assets.fetchTimeoutMs,
+      signal: request.signal
+    });
+
+    // Judge the bytes rather than the declared type, with the same rules as an upload
+    const contentType = sniffImageType(remote.data);
+    const validation = contentType
+      ? validateImageFile({ type: contentType, size: remote.data.byteLength }, maxBytes)
+      : { valid: false, error: 'The link does not point to a supported image' };
+    if (!contentType || !validation.valid) {
+      return NextResponse.json<UrlImportResponse>(
+        { success: false, error: validation.error ?? 'The link does not point to a supported image' },
+        { status: 415 }
+      );
+    }
+
+    const asset = await assetStorage.put(remote.data, contentType);
+    return NextResponse.json<UrlImportResponse>({
+      success: true,
+      imageUrl: assetUrl(asset.id),
+      fileName: fileNameFromUrl(remote.url, contentType),
+      contentType,
+      size: asset.size
+    });
+
+  } catch (error) {
+    if (error instanceof UrlImportError) {
+      return NextResponse.json<UrlImportResponse>(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    if (request.signal.aborted) {
+      return NextResponse.json<UrlImportResponse>(
+        { success: false, error: 'Import cancelled' },
+        { status: 499 }
+      );
+    }
+
+    console.error('URL import API error:', error);
+    return NextResponse.json<UrlImportResponse>(
+      { success: false, error: 'Failed to import the image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobRunner } from '@/lib/jobs/runner';
+import { isTerminalJobStatus, toJobSnapshot, type JobSnapshot } from '@/lib/jobs/types';
+import type { ImageEditErrorResponse } from '@/lib/imageEditApi';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 15_000;
+
+/**
+ * Stream job status transitions as Server-Sent Events until the job finishes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await jobRunner.store.get(id);
+
+  if (!job) {
+    return NextResponse.json<ImageEditErrorResponse>(
+      { success: false, error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  // Shared with cancel(): once the client disconnects the controller must not be touched again
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastUpdatedAt = 0;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream was cancelled between the check and the write
+          closed = true;
+          cleanup();
+        }
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancel
+        }
+      };
+
+      const send = (snapshot: JobSnapshot) => {
+        if (closed || snapshot.updatedAt < lastUpdatedAt) return;
+        lastUpdatedAt = snapshot.updatedAt;
+        write(`event: ${snapshot.status}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+        if (isTerminalJobStatus(snapshot.status)) {
+          close();
+        }
+      };
+
+      const unsubscribe = jobRunner.store.subscribe(id, send);
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', close);
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      // Replay the current state so late subscribers see where the job is
+      const current = await jobRunner.store.get(id);
+      send(toJobSnapshot(current ?? job));
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobRunner } from '@/lib/jobs/runner';
+import { toJobSnapshot, type JobSnapshot } from '@/lib/jobs/types';
+import type { ImageEditErrorResponse } from '@/lib/imageEditApi';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await jobRunner.store.get(id);
+
+  if (!job) {
+    return NextResponse.json<ImageEditErrorResponse>(
+      { success: false, error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json<JobSnapshot>(toJobSnapshot(job), {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await jobRunner.cancel(id);
+
+  if (!job) {
+    return NextResponse.json<ImageEditErrorResponse>(
+      { success: false, error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json<JobSnapshot>(toJobSnapshot(job), { status: 202 });
+}
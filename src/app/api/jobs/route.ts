@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobRunner } from '@/lib/jobs/runner';
+import { toJobSnapshot, type CreateJobResponse } from '@/lib/jobs/types';
+import type { ImageEditErrorResponse } from '@/lib/imageEditApi';
+import { validateImageEditRequest } from '@/lib/requestValidation';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = validateImageEditRequest(body);
+    if (!validation.valid) {
+      return NextResponse.json<ImageEditErrorResponse>(
+        { success: false, error: validation.error },
+        { status: validation.status }
+      );
+    }
+
+    const job = await jobRunner.submit(validation.request);
+
+    return NextResponse.json<CreateJobResponse>(
+      { job: toJobSnapshot(job) },
+      {
+        status: 202,
+        headers: { 'Location': `/api/jobs/${job.id}` }
+      }
+    );
+  } catch (error) {
+    console.error('Job submission error:', error);
+
+    return NextResponse.json<ImageEditErrorResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        details: 'Failed to create image edit job'
+      },
+      { status: 500 }
+    );
+  }
+}
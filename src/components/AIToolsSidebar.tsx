@@ -8,15 +8,26 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MAX_VARIANTS, type EditParameters } from '@/lib/imageEditApi';
+import {
+  DEFAULT_ADJUSTMENTS,
+  isIdentityAdjustment,
+  type AdjustmentSettings,
+  type ProcessOperation,
+  type ProcessParameters
+} from '@/lib/processing';
 
 interface AIToolsProps {
-  onProcessImage: (operation: string, parameters?: any) => Promise<void>;
+  onProcessImage: (operation: ProcessOperation, parameters?: ProcessParameters) => Promise<void>;
+  onCancel?: () => void;
   isProcessing: boolean;
   hasImage: boolean;
+  mask?: string | null; // Painted on the canvas; limits object removal and drives inpainting
 }
 
-const STYLE_PRESETS = [
+export const STYLE_PRESETS = [
   { value: 'watercolor', label: 'Watercolor' },
   { value: 'oil-painting', label: 'Oil Painting' },
   { value: 'digital-art', label: 'Digital Art' },
@@ -29,7 +40,7 @@ const STYLE_PRESETS = [
   { value: 'vintage', label: 'Vintage' }
 ];
 
-const ARTISTIC_FILTERS = [
+export const ARTISTIC_FILTERS = [
   { value: 'watercolor', label: 'Watercolor', description: 'Soft, flowing watercolor effect' },
   { value: 'oil-painting', label: 'Oil Paint', description: 'Rich, textured oil painting style' },
   { value: 'pencil-sketch', label: 'Pencil Sketch', description: 'Detailed pencil drawing' },
@@ -38,11 +49,35 @@ const ARTISTIC_FILTERS = [
   { value: 'ink-wash', label: 'Ink Wash', description: 'Traditional ink painting' }
 ];
 
-export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToolsProps) {
+const ADJUSTMENT_CONTROLS: { key: keyof AdjustmentSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -3, max: 3, step: 0.1 },
+  { key: 'brightness', label: 'Brightness', min: -100, max: 100, step: 1 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'gamma', label: 'Gamma', min: 0.1, max: 5, step: 0.05 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'vibrance', label: 'Vibrance', min: -100, max: 100, step: 1 },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 },
+  { key: 'blur', label: 'Blur', min: 0, max: 20, step: 0.5 }
+];
+
+export function AIToolsSidebar({ onProcessImage, onCancel, isProcessing, hasImage, mask }: AIToolsProps) {
   const [selectedStyle, setSelectedStyle] = useState<string>('');
   const [customPrompt, setCustomPrompt] = useState<string>('');
   const [objectToRemove, setObjectToRemove] = useState<string>('');
+  const [inpaintPrompt, setInpaintPrompt] = useState<string>('');
   const [selectedFilter, setSelectedFilter] = useState<string>('');
+  const [variantCount, setVariantCount] = useState<string>('1');
+  const [seed, setSeed] = useState<string>('');
+  const [adjustments, setAdjustments] = useState<AdjustmentSettings>(DEFAULT_ADJUSTMENTS);
+
+  // Generative edits vary between runs, so they can return several candidates
+  const getVariationParameters = (): EditParameters => ({
+    variants: Number(variantCount) > 1 ? Number(variantCount) : undefined,
+    seed: seed.trim() ? Number(seed) : undefined
+  });
 
   const handleBackgroundRemoval = async () => {
     await onProcessImage('background-removal');
@@ -53,7 +88,7 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
       alert('Please select a style first');
       return;
     }
-    await onProcessImage('style-transfer', { style: selectedStyle });
+    await onProcessImage('style-transfer', { style: selectedStyle, ...getVariationParameters() });
   };
 
   const handleImageEnhancement = async () => {
@@ -61,11 +96,26 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
   };
 
   const handleObjectRemoval = async () => {
-    if (!objectToRemove.trim()) {
-      alert('Please describe what you want to remove');
+    if (!objectToRemove.trim() && !mask) {
+      alert('Please describe what you want to remove or paint a mask over it');
+      return;
+    }
+    await onProcessImage('object-removal', {
+      prompt: objectToRemove.trim() || undefined,
+      mask: mask ?? undefined
+    });
+  };
+
+  const handleInpaint = async () => {
+    if (!mask) {
+      alert('Please paint a mask over the area to repaint first');
       return;
     }
-    await onProcessImage('object-removal', { prompt: objectToRemove });
+    await onProcessImage('inpaint', {
+      prompt: inpaintPrompt.trim() || undefined,
+      mask,
+      ...getVariationParameters()
+    });
   };
 
   const handleArtisticFilter = async () => {
@@ -73,7 +123,12 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
       alert('Please select a filter first');
       return;
     }
-    await onProcessImage('artistic-filter', { style: selectedFilter });
+    await onProcessImage('artistic-filter', { style: selectedFilter, ...getVariationParameters() });
+  };
+
+  const handleApplyAdjustments = async () => {
+    await onProcessImage('adjust', { adjustments });
+    setAdjustments(DEFAULT_ADJUSTMENTS);
   };
 
   const handleCustomEdit = async () => {
@@ -81,7 +136,7 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
       alert('Please enter a description for your custom edit');
       return;
     }
-    await onProcessImage('custom-edit', { prompt: customPrompt });
+    await onProcessImage('custom-edit', { prompt: customPrompt, ...getVariationParameters() });
   };
 
   return (
@@ -95,9 +150,10 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
 
       <div className="p-4">
         <Tabs defaultValue="quick" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="quick">Quick Tools</TabsTrigger>
             <TabsTrigger value="advanced">Advanced</TabsTrigger>
+            <TabsTrigger value="adjust">Adjust</TabsTrigger>
           </TabsList>
 
           <TabsContent value="quick" className="space-y-4 mt-4">
@@ -182,9 +238,14 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
                 onChange={(e) => setObjectToRemove(e.target.value)}
                 disabled={isProcessing}
               />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {mask
+                  ? 'Only the painted area will be changed'
+                  : 'Tip: use Paint Mask on the canvas to mark exactly what to remove'}
+              </p>
               <Button
                 onClick={handleObjectRemoval}
-                disabled={!hasImage || !objectToRemove.trim() || isProcessing}
+                disabled={!hasImage || (!objectToRemove.trim() && !mask) || isProcessing}
                 className="w-full"
                 variant="outline"
               >
@@ -227,6 +288,32 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
 
             <Separator />
 
+            {/* Inpainting */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Inpaint</Label>
+                <Badge variant={mask ? 'default' : 'secondary'}>{mask ? 'Mask ready' : 'No mask'}</Badge>
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Paint a mask on the canvas, then describe what should fill it
+              </p>
+              <Input
+                placeholder="e.g., 'a wooden bench' (optional)"
+                value={inpaintPrompt}
+                onChange={(e) => setInpaintPrompt(e.target.value)}
+                disabled={isProcessing}
+              />
+              <Button
+                onClick={handleInpaint}
+                disabled={!hasImage || !mask || isProcessing}
+                className="w-full"
+              >
+                {isProcessing ? 'Processing...' : 'Inpaint Masked Area'}
+              </Button>
+            </div>
+
+            <Separator />
+
             {/* Custom AI Edit */}
             <div className="space-y-3">
               <Label className="text-sm font-medium">Custom AI Edit</Label>
@@ -249,32 +336,115 @@ export function AIToolsSidebar({ onProcessImage, isProcessing, hasImage }: AIToo
                 {isProcessing ? 'Processing...' : 'Apply Custom Edit'}
               </Button>
             </div>
+          </TabsContent>
 
-            <Separator />
-
-            {/* Processing Status */}
-            {isProcessing && (
-              <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg">
-                <div className="flex items-center space-x-2">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                  <span className="text-sm text-blue-800 dark:text-blue-200">
-                    AI is processing your image...
-                  </span>
+          <TabsContent value="adjust" className="space-y-4 mt-4">
+            {/* Local Adjustments */}
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Adjustments</Label>
+              <Badge variant="secondary">Instant</Badge>
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Classic corrections that run in your browser, no AI involved
+            </p>
+            {ADJUSTMENT_CONTROLS.map((control) => (
+              <div key={control.key} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span>{control.label}</span>
+                  <span className="text-gray-500 dark:text-gray-400">{adjustments[control.key]}</span>
                 </div>
-                <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                  This may take 30-60 seconds depending on the complexity
-                </p>
+                <Slider
+                  value={[adjustments[control.key]]}
+                  onValueChange={([value]) => setAdjustments({ ...adjustments, [control.key]: value })}
+                  min={control.min}
+                  max={control.max}
+                  step={control.step}
+                  disabled={isProcessing}
+                />
               </div>
-            )}
+            ))}
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)}
+                disabled={isIdentityAdjustment(adjustments) || isProcessing}
+              >
+                Reset
+              </Button>
+              <Button
+                onClick={handleApplyAdjustments}
+                disabled={!hasImage || isIdentityAdjustment(adjustments) || isProcessing}
+              >
+                {isProcessing ? 'Applying...' : 'Apply'}
+              </Button>
+            </div>
           </TabsContent>
         </Tabs>
 
+        <Separator className="my-4" />
+
+        {/* Output Variations */}
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Variations</Label>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Generate several results for styles, filters, inpainting and custom edits, then pick your favourite
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={variantCount} onValueChange={setVariantCount} disabled={isProcessing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => String(i + 1)).map((count) => (
+                  <SelectItem key={count} value={count}>
+                    {count === '1' ? '1 result' : `${count} results`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Seed (optional)"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value.replace(/\D/g, ''))}
+              disabled={isProcessing}
+            />
+          </div>
+        </div>
+
+        {/* Processing Status */}
+        {isProcessing && (
+          <div className="mt-4 bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg">
+            <div className="flex items-center space-x-2">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+              <span className="text-sm text-blue-800 dark:text-blue-200">
+                AI is processing your image...
+              </span>
+            </div>
+            <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+              This may take 30-60 seconds depending on the complexity
+            </p>
+            {onCancel && (
+              <Button
+                onClick={onCancel}
+                variant="outline"
+                size="sm"
+                className="w-full mt-2"
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Help Section */}
         <div className="mt-6 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
           <h3 className="text-sm font-medium mb-2">Tips for better results:</h3>
           <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
             <li>• Use high-quality images for best results</li>
             <li>• Be specific when describing objects to remove</li>
+            <li>• Paint a mask to target removals and inpainting precisely</li>
             <li>• Try different styles to find your perfect look</li>
             <li>• Process may take 30-60 seconds per edit</li>
           </ul>
@@ -0,0 +1,426 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { saveAs } from 'file-saver';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ARTISTIC_FILTERS, STYLE_PRESETS } from './AIToolsSidebar';
+import { validateImageFile } from '@/lib/imageUtils';
+import { INPUT_ACCEPT } from '@/lib/formats';
+import { prepareImageFile } from '@/lib/formats/codecs';
+import type { EditOperation } from '@/lib/imageEditApi';
+import { BatchQueue, type BatchItem, type BatchTask } from '@/lib/batch/queue';
+import { DEFAULT_NAMING_TEMPLATE, NAMING_TOKENS, applyNamingTemplate, createBatchArchive } from '@/lib/batch/archive';
+import { RECIPE_FILE_EXTENSION, RecipeError, parseRecipe, type Recipe, type RecipeStep } from '@/lib/recipes/recipe';
+import { RecipeReplayError, replayRecipe } from '@/lib/recipes/replay';
+
+const BATCH_OPERATIONS: { value: EditOperation; label: string }[] = [
+  { value: 'background-removal', label: 'Remove background' },
+  { value: 'enhance', label: 'Enhance' },
+  { value: 'style-transfer', label: 'Style transfer' },
+  { value: 'artistic-filter', label: 'Artistic filter' },
+  { value: 'custom-edit', label: 'Custom edit' }
+];
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  queued: 'Queued',
+  running: 'Processing',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_CLASSES: Record<BatchItem['status'], string> = {
+  queued: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  running: 'bg-blue-600 text-white',
+  succeeded: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+  cancelled: 'bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400'
+};
+
+type BatchSource = 'operation' | 'recipe';
+
+interface BatchProcessorProps {
+  initialFiles?: File[]; // Already validated
+  initialRecipe?: Recipe | null;
+  onClose: () => void;
+}
+
+// An object URL for the file that lives as long as the component showing it
+function useObjectUrl(file: File): string | undefined {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url;
+}
+
+const describeItem = ({ status, error, progress, attempts }: BatchItem): string => {
+  if (status === 'failed') return error ?? '';
+  if (progress) {
+    const step = progress.totalSteps > 1 ? `Step ${progress.step + 1} of ${progress.totalSteps}` : '';
+    return [step, progress.message].filter(Boolean).join(' · ');
+  }
+  return attempts > 1 ? `Attempt ${attempts}` : '';
+};
+
+interface BatchItemRowProps {
+  item: BatchItem;
+  onRetry: () => void;
+  onCancel: () => void;
+  onRemove: () => void;
+}
+
+function BatchItemRow({ item, onRetry, onCancel, onRemove }: BatchItemRowProps) {
+  const sourceUrl = useObjectUrl(item.file);
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      <div className="flex gap-1 flex-shrink-0">
+        {sourceUrl && (
+          <img src={sourceUrl} alt={item.file.name} className="w-12 h-12 rounded object-cover bg-gray-100 dark:bg-gray-800" />
+        )}
+        {item.resultUrl && (
+          <img src={item.resultUrl} alt={`${item.file.name} result`} className="w-12 h-12 rounded object-cover bg-gray-100 dark:bg-gray-800" />
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium truncate">{item.file.name}</p>
+        <p className={`text-xs truncate ${item.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          {describeItem(item)}
+        </p>
+      </div>
+      <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_CLASSES[item.status]}`}>
+        {STATUS_LABELS[item.status]}
+      </span>
+      <div className="flex items-center space-x-1 flex-shrink-0">
+        {(item.status === 'failed' || item.status === 'cancelled') && (
+          <Button size="sm" variant="outline" onClick={onRetry}>Retry</Button>
+        )}
+        {(item.status === 'queued' || item.status === 'running') && (
+          <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={onRemove} aria-label={`Remove ${item.file.name}`}>
+          ✕
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+export function BatchProcessor({ initialFiles, initialRecipe, onClose }: BatchProcessorProps) {
+  const [queue] = useState(() => {
+    const batchQueue = new BatchQueue(2);
+    batchQueue.add(initialFiles ?? []);
+    return batchQueue;
+  });
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [source, setSource] = useState<BatchSource>(initialRecipe ? 'recipe' : 'operation');
+  const [operation, setOperation] = useState<EditOperation>('background-removal');
+  const [style, setStyle] = useState(STYLE_PRESETS[0].value);
+  const [filter, setFilter] = useState(ARTISTIC_FILTERS[0].value);
+  const [prompt, setPrompt] = useState('');
+  const [recipe, setRecipe] = useState<Recipe | null>(initialRecipe ?? null);
+  const [concurrency, setConcurrency] = useState(2);
+  const [template, setTemplate] = useState(DEFAULT_NAMING_TEMPLATE);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => queue.subscribe(setItems), [queue]);
+
+  // Leaving batch mode stops the queue and frees its results
+  const close = () => {
+    queue.clear();
+    onClose();
+  };
+
+  const addFiles = (files: File[]) => {
+    const valid = files.filter((file) => validateImageFile(file).valid);
+    if (valid.length < files.length) {
+      alert(`${files.length - valid.length} of the files are not supported images and were skipped.`);
+    }
+    queue.add(valid);
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: addFiles,
+    accept: INPUT_ACCEPT,
+    multiple: true
+  });
+
+  const steps = useMemo<RecipeStep[] | null>(() => {
+    if (source === 'recipe') {
+      return recipe?.steps ?? null;
+    }
+    if (operation === 'style-transfer') return [{ operation, parameters: { style } }];
+    if (operation === 'artistic-filter') return [{ operation, parameters: { style: filter } }];
+    if (operation === 'custom-edit') return prompt.trim() ? [{ operation, parameters: { prompt: prompt.trim() } }] : null;
+    return [{ operation }];
+  }, [source, recipe, operation, style, filter, prompt]);
+
+  const outputLabel = source === 'recipe' ? recipe?.name ?? 'recipe' : operation;
+
+  const start = () => {
+    if (!steps) return;
+
+    const task: BatchTask = async (file, onProgress, signal) => {
+      // Multi-page TIFFs use their first page
+      const sourceUrl = URL.createObjectURL((await prepareImageFile(file)).file);
+      try {
+        const results = await replayRecipe(
+          sourceUrl,
+          steps,
+          ({ stepIndex, message }) => onProgress({ step: stepIndex, totalSteps: steps.length, message }),
+          signal
+        );
+        const resultUrl = results[results.length - 1].imageUrl;
+        // Only the final image of each item is kept
+        results
+          .flatMap((result) => [result.imageUrl, ...(result.variants ?? [])])
+          .filter((url) => url !== resultUrl && url.startsWith('blob:'))
+          .forEach((url) => URL.revokeObjectURL(url));
+        return resultUrl;
+      } catch (error) {
+        if (error instanceof RecipeReplayError) {
+          error.completed
+            .map((result) => result.imageUrl)
+            .filter((url) => url.startsWith('blob:'))
+            .forEach((url) => URL.revokeObjectURL(url));
+        }
+        throw error;
+      } finally {
+        URL.revokeObjectURL(sourceUrl);
+      }
+    };
+
+    queue.start(task);
+    setHasStarted(true);
+  };
+
+  const loadRecipe = async (file: File) => {
+    try {
+      setRecipe(parseRecipe(await file.text()));
+    } catch (error) {
+      console.error('Failed to load recipe:', error);
+      alert(error instanceof RecipeError ? `Could not load the recipe: ${error.message}` : 'Failed to read the recipe file.');
+    }
+  };
+
+  const downloadArchive = async () => {
+    setIsArchiving(true);
+    try {
+      const blob = await createBatchArchive(items, template, outputLabel);
+      saveAs(blob, `batch-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      console.error('Failed to build zip:', error);
+      alert(error instanceof Error ? error.message : 'Failed to build the zip file.');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const counts = items.reduce<Record<BatchItem['status'], number>>(
+    (total, item) => ({ ...total, [item.status]: total[item.status] + 1 }),
+    { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 }
+  );
+  const example = applyNamingTemplate(template, {
+    name: items[0]?.file.name ?? 'photo.jpg',
+    index: 0,
+    total: Math.max(items.length, 1),
+    operation: outputLabel
+  });
+
+  return (
+    <div className="flex gap-6">
+      {/* Settings */}
+      <Card className="w-80 flex-shrink-0 p-4 space-y-4 self-start">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Batch processing</h2>
+          <Button variant="ghost" size="sm" onClick={close}>Close</Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Apply</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={source}
+            onValueChange={(value) => value && setSource(value as BatchSource)}
+          >
+            <ToggleGroupItem value="operation">Operation</ToggleGroupItem>
+            <ToggleGroupItem value="recipe">Recipe</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {source === 'operation' ? (
+          <div className="space-y-2">
+            <Select value={operation} onValueChange={(value) => setOperation(value as EditOperation)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {BATCH_OPERATIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {operation === 'style-transfer' && (
+              <Select value={style} onValueChange={setStyle}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {STYLE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {operation === 'artistic-filter' && (
+              <Select value={filter} onValueChange={setFilter}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ARTISTIC_FILTERS.map((preset) => (
+                    <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {operation === 'custom-edit' && (
+              <Input value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="Describe the edit" />
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <input
+              ref={recipeInputRef}
+              type="file"
+              accept={`${RECIPE_FILE_EXTENSION},.json,application/json`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) loadRecipe(file);
+              }}
+            />
+            {recipe && (
+              <p className="text-sm">
+                {recipe.name}{' '}
+                <span className="text-gray-500 dark:text-gray-400">
+                  ({recipe.steps.length} {recipe.steps.length === 1 ? 'step' : 'steps'})
+                </span>
+              </p>
+            )}
+            <Button variant="outline" size="sm" onClick={() => recipeInputRef.current?.click()}>
+              {recipe ? 'Load another recipe' : 'Load recipe file'}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Images at once</Label>
+          <Select
+            value={String(concurrency)}
+            onValueChange={(value) => {
+              setConcurrency(Number(value));
+              queue.setConcurrency(Number(value));
+            }}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CONCURRENCY_OPTIONS.map((value) => (
+                <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="batch-naming">File names</Label>
+          <Input id="batch-naming" value={template} onChange={(e) => setTemplate(e.target.value)} />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {NAMING_TOKENS.join(' ')} · e.g. {example}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Button className="w-full" onClick={start} disabled={!steps || counts.queued === 0}>
+            {hasStarted ? 'Run queued images' : 'Start'}
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={downloadArchive}
+            disabled={counts.succeeded === 0 || isArchiving}
+          >
+            {isArchiving ? 'Packing…' : `Download zip (${counts.succeeded})`}
+          </Button>
+        </div>
+      </Card>
+
+      {/* Queue */}
+      <div className="flex-1 min-w-0 space-y-4">
+        <Card className="p-0">
+          <div
+            {...getRootProps()}
+            className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+              isDragActive
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-300 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-600'
+            }`}
+          >
+            <input {...getInputProps()} />
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {isDragActive ? 'Drop the images here' : 'Drop images here, or click to add them to the batch'}
+            </p>
+          </div>
+        </Card>
+
+        {items.length > 0 && (
+          <Card className="p-4">
+            <div className="flex items-center justify-between gap-4 mb-2">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {counts.succeeded} of {items.length} done
+                {counts.running > 0 && ` · ${counts.running} processing`}
+                {counts.failed > 0 && ` · ${counts.failed} failed`}
+              </p>
+              <div className="flex items-center space-x-2">
+                {counts.failed > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => items.filter((item) => item.status === 'failed').forEach((item) => queue.retry(item.id))}
+                  >
+                    Retry failed
+                  </Button>
+                )}
+                {(counts.queued > 0 || counts.running > 0) && (
+                  <Button size="sm" variant="outline" onClick={() => queue.cancelAll()}>Cancel all</Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => queue.clear()}>Clear</Button>
+              </div>
+            </div>
+            <ul className="divide-y">
+              {items.map((item) => (
+                <BatchItemRow
+                  key={item.id}
+                  item={item}
+                  onRetry={() => queue.retry(item.id)}
+                  onCancel={() => queue.cancel(item.id)}
+                  onRemove={() => queue.remove(item.id)}
+                />
+              ))}
+            </ul>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
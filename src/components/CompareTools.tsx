@@ -0,0 +1,132 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+export type CompareMode = 'wipe' | 'side-by-side' | 'difference';
+
+export interface CompareSource {
+  id: string;
+  label: string;
+  imageUrl: string;
+}
+
+export interface DifferenceStats {
+  meanDifference: number;
+  changedRatio: number;
+}
+
+const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'side-by-side', label: 'Side by side' },
+  { value: 'difference', label: 'Difference' }
+];
+
+interface CompareToolsProps {
+  sources: CompareSource[];
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  beforeId: string;
+  onBeforeChange: (id: string) => void;
+  afterId: string;
+  onAfterChange: (id: string) => void;
+  onHoldChange: (isHolding: boolean) => void;
+  differenceStats?: DifferenceStats | null;
+  sizeMismatch?: boolean;
+  onClose: () => void;
+}
+
+export function CompareTools({
+  sources,
+  mode,
+  onModeChange,
+  beforeId,
+  onBeforeChange,
+  afterId,
+  onAfterChange,
+  onHoldChange,
+  differenceStats,
+  sizeMismatch = false,
+  onClose
+}: CompareToolsProps) {
+  const renderPicker = (label: string, value: string, onChange: (id: string) => void) => (
+    <div className="flex items-center space-x-2">
+      <span className="text-sm font-medium">{label}:</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger size="sm" className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sources.map((source) => (
+            <SelectItem key={source.id} value={source.id}>
+              {source.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 mt-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && onModeChange(value as CompareMode)}
+        >
+          {COMPARE_MODES.map((option) => (
+            <ToggleGroupItem key={option.value} value={option.value}>
+              {option.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Button
+          variant="outline"
+          size="sm"
+          className="select-none"
+          style={{ touchAction: 'none' }}
+          onPointerDown={(event) => {
+            event.currentTarget.setPointerCapture(event.pointerId);
+            onHoldChange(true);
+          }}
+          onPointerUp={() => onHoldChange(false)}
+          onPointerCancel={() => onHoldChange(false)}
+          title="Shows A across the whole view while pressed"
+        >
+          Hold for A
+        </Button>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {renderPicker('A', beforeId, onBeforeChange)}
+        {renderPicker('B', afterId, onAfterChange)}
+        {mode === 'difference' && differenceStats && (
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {(differenceStats.changedRatio * 100).toFixed(1)}% of pixels changed · mean difference{' '}
+            {(differenceStats.meanDifference * 100).toFixed(1)}%
+          </span>
+        )}
+      </div>
+
+      {sizeMismatch && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          A and B have different dimensions; both are stretched to the current image for comparison.
+        </p>
+      )}
+    </div>
+  );
+}
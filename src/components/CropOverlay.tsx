@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useRef } from 'react';
+import type { ImageDimensions } from '@/lib/imageUtils';
+import { adjustCropRect, type CropHandle, type CropRect } from '@/lib/processing';
+
+interface CropOverlayProps {
+  // Pixel size of the image the rectangle refers to; the overlay is stretched over it
+  bounds: ImageDimensions;
+  rect: CropRect;
+  aspect: number | null;
+  onChange: (rect: CropRect) => void;
+  disabled?: boolean;
+}
+
+const HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { handle: 'n', className: 'left-1/2 -translate-x-1/2 -top-1.5 cursor-ns-resize' },
+  { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { handle: 'e', className: '-right-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+  { handle: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  { handle: 's', className: 'left-1/2 -translate-x-1/2 -bottom-1.5 cursor-ns-resize' },
+  { handle: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { handle: 'w', className: '-left-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' }
+];
+
+const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+/**
+ * Crop rectangle with a move area and eight resize handles, drawn over the canvas
+ */
+export function CropOverlay({ bounds, rect, aspect, onChange, disabled = false }: CropOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: CropHandle; startX: number; startY: number; startRect: CropRect } | null>(null);
+
+  const startDrag = (handle: CropHandle) => (event: React.PointerEvent) => {
+    if (disabled || event.button !== 0) return;
+    event.stopPropagation();
+    containerRef.current?.setPointerCapture(event.pointerId);
+    dragRef.current = { handle, startX: event.clientX, startY: event.clientY, startRect: rect };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container) return;
+
+    // Screen pixels to source pixels
+    const scale = bounds.width / container.getBoundingClientRect().width;
+    onChange(adjustCropRect(
+      drag.startRect,
+      drag.handle,
+      (event.clientX - drag.startX) * scale,
+      (event.clientY - drag.startY) * scale,
+      bounds,
+      aspect
+    ));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0"
+      style={{ touchAction: 'none' }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      <div
+        className="absolute border border-white cursor-move"
+        style={{
+          left: percent(rect.x, bounds.width),
+          top: percent(rect.y, bounds.height),
+          width: percent(rect.width, bounds.width),
+          height: percent(rect.height, bounds.height),
+          // Dim everything outside the crop; the canvas wrapper clips the shadow
+          boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+        }}
+        onPointerDown={startDrag('move')}
+      >
+        {/* Rule-of-thirds guides */}
+        <div className="absolute inset-y-0 left-1/3 right-1/3 border-x border-white/40 pointer-events-none" />
+        <div className="absolute inset-x-0 top-1/3 bottom-1/3 border-y border-white/40 pointer-events-none" />
+
+        {HANDLES.map(({ handle, className }) => (
+          <div
+            key={handle}
+            className={`absolute w-3 h-3 bg-white border border-gray-700 rounded-sm ${className}`}
+            onPointerDown={startDrag(handle)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
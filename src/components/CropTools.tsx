@@ -0,0 +1,144 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+export type AspectPreset = 'free' | '1:1' | '4:5' | '16:9' | 'custom';
+
+export interface CustomAspect {
+  width: string;
+  height: string;
+}
+
+const ASPECT_PRESETS: { value: AspectPreset; label: string }[] = [
+  { value: 'free', label: 'Free' },
+  { value: '1:1', label: '1:1' },
+  { value: '4:5', label: '4:5' },
+  { value: '16:9', label: '16:9' },
+  { value: 'custom', label: 'Custom' }
+];
+
+/**
+ * Width / height for a preset, or null for a free crop
+ */
+export const getAspectRatio = (preset: AspectPreset, custom: CustomAspect): number | null => {
+  if (preset === 'free') return null;
+  const [width, height] = preset === 'custom'
+    ? [Number(custom.width), Number(custom.height)]
+    : preset.split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : null;
+};
+
+interface CropToolsProps {
+  aspectPreset: AspectPreset;
+  onAspectPresetChange: (preset: AspectPreset) => void;
+  customAspect: CustomAspect;
+  onCustomAspectChange: (aspect: CustomAspect) => void;
+  straighten: number;
+  onStraightenChange: (degrees: number) => void;
+  onRotate: (degrees: 90 | 270) => void;
+  onFlip: (direction: 'horizontal' | 'vertical') => void;
+  onApply: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+export function CropTools({
+  aspectPreset,
+  onAspectPresetChange,
+  customAspect,
+  onCustomAspectChange,
+  straighten,
+  onStraightenChange,
+  onRotate,
+  onFlip,
+  onApply,
+  onCancel,
+  disabled = false
+}: CropToolsProps) {
+  const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+  return (
+    <div className="space-y-3 mt-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={aspectPreset}
+          onValueChange={(value) => value && onAspectPresetChange(value as AspectPreset)}
+          disabled={disabled}
+        >
+          {ASPECT_PRESETS.map((preset) => (
+            <ToggleGroupItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {aspectPreset === 'custom' && (
+          <div className="flex items-center space-x-1">
+            <Input
+              className="w-16 h-8"
+              inputMode="numeric"
+              placeholder="W"
+              value={customAspect.width}
+              onChange={(e) => onCustomAspectChange({ ...customAspect, width: digitsOnly(e.target.value) })}
+              disabled={disabled}
+            />
+            <span className="text-sm text-gray-500">:</span>
+            <Input
+              className="w-16 h-8"
+              inputMode="numeric"
+              placeholder="H"
+              value={customAspect.height}
+              onChange={(e) => onCustomAspectChange({ ...customAspect, height: digitsOnly(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center space-x-1">
+          <Button variant="outline" size="sm" onClick={() => onRotate(270)} disabled={disabled} title="Rotate left">
+            ⟲ 90°
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onRotate(90)} disabled={disabled} title="Rotate right">
+            ⟳ 90°
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onFlip('horizontal')} disabled={disabled}>
+            Flip H
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onFlip('vertical')} disabled={disabled}>
+            Flip V
+          </Button>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="text-sm font-medium">Straighten:</span>
+          <div className="w-32">
+            <Slider
+              value={[straighten]}
+              onValueChange={([value]) => onStraightenChange(value)}
+              min={-45}
+              max={45}
+              step={0.5}
+              disabled={disabled}
+            />
+          </div>
+          <span className="text-sm text-gray-600 dark:text-gray-400 min-w-[3rem]">{straighten}°</span>
+        </div>
+        <div className="flex items-center space-x-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={disabled}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={onApply} disabled={disabled}>
+            Apply
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
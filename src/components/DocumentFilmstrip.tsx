@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { INPUT_ACCEPT_ATTRIBUTE } from '@/lib/formats';
+
+export interface FilmstripDocument {
+  id: string;
+  name: string;
+  thumbnailUrl: string;
+  editCount: number;
+}
+
+interface DocumentFilmstripProps {
+  documents: FilmstripDocument[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onAdd: (files: File[]) => void;
+  onBatch?: () => void;
+  disabled?: boolean;
+}
+
+export function DocumentFilmstrip({
+  documents,
+  activeId,
+  onSelect,
+  onClose,
+  onAdd,
+  onBatch,
+  disabled
+}: DocumentFilmstripProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex items-center gap-3 mb-4">
+      <ul className="flex gap-2 overflow-x-auto pb-1 min-w-0">
+        {documents.map((item) => {
+          const isActive = item.id === activeId;
+          return (
+            <li key={item.id} className="relative flex-shrink-0 group">
+              <button
+                type="button"
+                onClick={() => onSelect(item.id)}
+                disabled={disabled || isActive}
+                title={item.name}
+                className={`block w-20 rounded-md border-2 overflow-hidden text-left transition-colors ${
+                  isActive
+                    ? 'border-blue-500'
+                    : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                } ${disabled && !isActive ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <img
+                  src={item.thumbnailUrl}
+                  alt={item.name}
+                  draggable={false}
+                  className="w-full h-14 object-cover bg-gray-100 dark:bg-gray-800"
+                />
+                <span className="block px-1 py-0.5 text-[10px] leading-tight truncate text-gray-600 dark:text-gray-400">
+                  {item.name}
+                  {item.editCount > 0 && ` · ${item.editCount}`}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onClose(item.id)}
+                disabled={disabled}
+                aria-label={`Close ${item.name}`}
+                className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-black/60 text-white text-xs leading-none opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:hidden"
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={INPUT_ACCEPT_ATTRIBUTE}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = '';
+          if (files.length > 0) onAdd(files);
+        }}
+      />
+      <div className="flex flex-col gap-1 flex-shrink-0">
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={disabled}>
+          + Add images
+        </Button>
+        {onBatch && documents.length > 1 && (
+          <Button variant="ghost" size="sm" onClick={onBatch} disabled={disabled}>
+            Batch these
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,21 +6,30 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
-import { downloadImage } from '@/lib/imageUtils';
+import { encodeBmp, type ExportFormat } from '@/lib/formats';
+import { encodeTiff } from '@/lib/formats/codecs';
+import { applyExportMetadata, type MetadataExportMode } from '@/lib/metadata';
 import { saveAs } from 'file-saver';
 
 interface ExportPanelProps {
   imageData?: string;
   originalImageName?: string;
+  sourceFile?: File | null; // The original upload, whose metadata is carried over
+  defaultFormat?: ExportFormat; // Chosen from the format the image was uploaded in
   isProcessing?: boolean;
 }
 
-const EXPORT_FORMATS = [
+const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
   { value: 'png', label: 'PNG', description: 'High quality, supports transparency' },
   { value: 'jpg', label: 'JPEG', description: 'Smaller file size, good for photos' },
   { value: 'webp', label: 'WebP', description: 'Modern format, best compression' },
+  { value: 'tiff', label: 'TIFF', description: 'Uncompressed, for print and archiving' },
+  { value: 'bmp', label: 'BMP', description: 'Uncompressed, for older software' },
 ];
 
+// Formats written from the canvas pixels by our own encoders; lossless and without metadata
+const PIXEL_FORMATS: ExportFormat[] = ['tiff', 'bmp'];
+
 const QUALITY_PRESETS = [
   { value: 100, label: 'Maximum (100%)', description: 'Best quality, largest file' },
   { value: 90, label: 'High (90%)', description: 'Great quality, reasonable size' },
@@ -28,9 +37,28 @@ const QUALITY_PRESETS = [
   { value: 60, label: 'Medium (60%)', description: 'Smaller file, acceptable quality' },
 ];
 
-export function ExportPanel({ imageData, originalImageName, isProcessing }: ExportPanelProps) {
-  const [exportFormat, setExportFormat] = useState('png');
+const METADATA_OPTIONS: { value: MetadataExportMode; label: string; description: string }[] = [
+  { value: 'preserve', label: 'Preserve', description: 'Camera, date, location and credits from the original' },
+  { value: 'strip-location', label: 'Strip location only', description: 'Keep camera and credits, remove GPS and place names' },
+  { value: 'strip-all', label: 'Strip all', description: 'No EXIF, IPTC or XMP metadata' },
+];
+
+export function ExportPanel({
+  imageData,
+  originalImageName,
+  sourceFile,
+  defaultFormat = 'png',
+  isProcessing
+}: ExportPanelProps) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(defaultFormat);
+  // Follow the default when another image is opened, keeping manual choices otherwise
+  const [appliedDefault, setAppliedDefault] = useState(defaultFormat);
+  if (appliedDefault !== defaultFormat) {
+    setAppliedDefault(defaultFormat);
+    setExportFormat(defaultFormat);
+  }
   const [quality, setQuality] = useState([90]);
+  const [metadataMode, setMetadataMode] = useState<MetadataExportMode>('strip-location');
   const [customName, setCustomName] = useState('');
   const [isExporting, setIsExporting] = useState(false);
 
@@ -53,15 +81,12 @@ export function ExportPanel({ imageData, originalImageName, isProcessing }: Expo
     setIsExporting(true);
     try {
       const fileName = generateFileName();
-      
-      if (exportFormat === 'png') {
-        // For PNG, we can use the image data directly
-        const base64Data = imageData.includes(',') ? imageData.split(',')[1] : imageData;
-        downloadImage(base64Data, fileName, 'png');
-      } else {
-        // For JPEG and WebP, we need to convert and apply quality
-        await convertAndDownload(imageData, fileName, exportFormat, quality[0]);
-      }
+      const blob = await renderImage(imageData, exportFormat, quality[0]);
+
+      // Replace whatever metadata the image has with the original's, as chosen
+      const source = sourceFile ? new Uint8Array(await sourceFile.arrayBuffer()) : null;
+      const output = applyExportMetadata(new Uint8Array(await blob.arrayBuffer()), source, metadataMode);
+      saveAs(new Blob([output], { type: blob.type }), `${fileName}.${exportFormat}`);
     } catch (error) {
       console.error('Export failed:', error);
       alert('Failed to export image. Please try again.');
@@ -70,8 +95,15 @@ export function ExportPanel({ imageData, originalImageName, isProcessing }: Expo
     }
   };
 
-  const convertAndDownload = async (imageData: string, fileName: string, format: string, qualityValue: number) => {
-    return new Promise<void>((resolve, reject) => {
+  const renderImage = async (imageData: string, format: ExportFormat, qualityValue: number) => {
+    // PNG images can be used as they are
+    if (format === 'png') {
+      const blob = await (await fetch(imageData)).blob();
+      if (blob.type === 'image/png') return blob;
+    }
+
+    // Everything else is converted, applying the quality setting
+    return new Promise<Blob>((resolve, reject) => {
       const img = new Image();
       img.onload = () => {
         const canvas = document.createElement('canvas');
@@ -92,17 +124,24 @@ export function ExportPanel({ imageData, originalImageName, isProcessing }: Expo
         }
         
         ctx.drawImage(img, 0, 0);
+
+        // Browsers only encode PNG, JPEG and WebP
+        if (PIXEL_FORMATS.includes(format)) {
+          const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          (format === 'tiff' ? encodeTiff(data, width, height) : Promise.resolve(encodeBmp(data, width, height)))
+            .then((bytes) => resolve(new Blob([bytes], { type: `image/${format}` })), reject);
+          return;
+        }
         
         canvas.toBlob(
           (blob) => {
             if (blob) {
-              saveAs(blob, `${fileName}.${format}`);
-              resolve();
+              resolve(blob);
             } else {
               reject(new Error('Failed to create blob'));
             }
           },
-          `image/${format}`,
+          `image/${format === 'jpg' ? 'jpeg' : format}`,
           qualityValue / 100
         );
       };
@@ -165,7 +204,7 @@ export function ExportPanel({ imageData, originalImageName, isProcessing }: Expo
         {/* Export Format */}
         <div className="space-y-2">
           <Label className="text-sm font-medium">Format</Label>
-          <Select value={exportFormat} onValueChange={setExportFormat}>
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
@@ -182,8 +221,8 @@ export function ExportPanel({ imageData, originalImageName, isProcessing }: Expo
           </Select>
         </div>
 
-        {/* Quality Setting (not for PNG) */}
-        {exportFormat !== 'png' && (
+        {/* Quality Setting (not for lossless formats) */}
+        {exportFormat !== 'png' && !PIXEL_FORMATS.includes(exportFormat) && (
           <div className="space-y-3">
             <Label className="text-sm font-medium">Quality</Label>
             <div className="space-y-2">
@@ -218,6 +257,35 @@ export function ExportPanel({ imageData, originalImageName, isProcessing }: Expo
           </div>
         )}
 
+        {/* Metadata */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Metadata</Label>
+          <Select
+            value={metadataMode}
+            onValueChange={(value) => setMetadataMode(value as MetadataExportMode)}
+            disabled={PIXEL_FORMATS.includes(exportFormat)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {METADATA_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  <div className="flex flex-col">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="text-xs text-gray-500">{option.description}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {PIXEL_FORMATS.includes(exportFormat) && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {exportFormat.toUpperCase()} exports carry no metadata
+            </p>
+          )}
+        </div>
+
         {/* File Size Estimate */}
         <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
           <div className="flex justify-between items-center text-sm">
@@ -285,6 +353,7 @@ export function ExportPanel({ imageData, originalImageName, isProcessing }: Expo
           <p>• PNG: Best for images with transparency</p>
           <p>• JPEG: Best for photographs</p>
           <p>• WebP: Modern format with best compression</p>
+          <p>• TIFF, BMP: Uncompressed, for other software</p>
         </div>
       </div>
     </Card>
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getChildren, getPath, type EditHistory } from '@/lib/history';
+
+interface HistoryTreeProps {
+  entries: EditHistory[];
+  originalImageUrl: string;
+  currentId: string | null; // null while the original is shown
+  tipId: string | null; // End of the active branch; redo walks towards it
+  onSelect: (id: string | null) => void;
+  onRenameCheckpoint: (id: string, name: string) => void;
+  onDeleteBranch: (id: string) => void;
+  disabled?: boolean;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Edit history drawn as a timeline. The active branch runs down the main column and
+ * other branches are indented under the state they split from.
+ */
+export function HistoryTree({
+  entries,
+  originalImageUrl,
+  currentId,
+  tipId,
+  onSelect,
+  onRenameCheckpoint,
+  onDeleteBranch,
+  disabled = false
+}: HistoryTreeProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const activeIds = useMemo(() => new Set(getPath(entries, tipId).map((entry) => entry.id)), [entries, tipId]);
+  const branchCount = useMemo(
+    () => entries.filter((entry) => !entries.some((other) => other.parentId === entry.id)).length,
+    [entries]
+  );
+
+  const startRename = (entry: EditHistory) => {
+    setEditingId(entry.id);
+    setDraftName(entry.checkpoint ?? '');
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRenameCheckpoint(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const renderRow = (entry: EditHistory | null) => {
+    const id = entry?.id ?? null;
+    const isCurrent = id === currentId;
+    const isActive = id === null || activeIds.has(id);
+
+    return (
+      <div
+        key={id ?? 'original'}
+        className={`group flex items-center gap-2 rounded px-2 py-1 ${
+          isCurrent ? 'bg-blue-50 dark:bg-blue-900/30 ring-1 ring-blue-500' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+        }`}
+      >
+        <span
+          className={`w-2 h-2 rounded-full flex-shrink-0 ${isActive ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'}`}
+        />
+        <button
+          type="button"
+          className="flex items-center gap-2 min-w-0 flex-1 text-left disabled:opacity-50"
+          onClick={() => onSelect(id)}
+          disabled={disabled}
+        >
+          <img
+            src={entry?.imageUrl ?? originalImageUrl}
+            alt=""
+            className="w-8 h-8 object-cover rounded border border-gray-200 dark:border-gray-700 flex-shrink-0"
+          />
+          <span className="min-w-0">
+            {entry?.checkpoint && (
+              <span className="block text-sm font-medium truncate">{entry.checkpoint}</span>
+            )}
+            <span
+              className={`block truncate ${
+                entry?.checkpoint ? 'text-xs text-gray-500 dark:text-gray-400' : 'text-sm'
+              }`}
+            >
+              {entry ? entry.operation.replace('-', ' ') : 'Original'}
+            </span>
+          </span>
+        </button>
+
+        {entry && editingId === entry.id ? (
+          <Input
+            autoFocus
+            className="h-7 w-36"
+            placeholder="Checkpoint name"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+          />
+        ) : (
+          <>
+            {entry && (
+              <span className="text-xs text-gray-400 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+            )}
+            {entry && (
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => startRename(entry)} disabled={disabled}>
+                  {entry.checkpoint ? 'Rename' : 'Name'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-red-600 hover:text-red-700"
+                  onClick={() => onDeleteBranch(entry.id)}
+                  disabled={disabled}
+                >
+                  Delete
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // A chain continues down the column through the active (or newest) child; siblings become indented branches
+  const renderChain = (start: EditHistory | null): React.ReactNode[] => {
+    const rows: React.ReactNode[] = [];
+    let entry = start;
+
+    for (;;) {
+      rows.push(renderRow(entry));
+      const children = getChildren(entries, entry?.id ?? null);
+      if (children.length === 0) break;
+
+      const next = children.find((child) => activeIds.has(child.id)) ?? children[children.length - 1];
+      for (const branch of children) {
+        if (branch === next) continue;
+        rows.push(
+          <div key={`branch-${branch.id}`} className="ml-3 pl-3 border-l-2 border-dashed border-gray-200 dark:border-gray-700">
+            {renderChain(branch)}
+          </div>
+        );
+      }
+      entry = next;
+    }
+    return rows;
+  };
+
+  return (
+    <Card className="mt-4 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium">Edit History</h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {entries.length} {entries.length === 1 ? 'edit' : 'edits'} · {branchCount}{' '}
+          {branchCount === 1 ? 'branch' : 'branches'}
+        </span>
+      </div>
+      <div className="space-y-1 max-h-96 overflow-y-auto">
+        {renderChain(null)}
+      </div>
+    </Card>
+  );
+}
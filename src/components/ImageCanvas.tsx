@@ -1,179 +1,699 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { getOptimalDisplaySize, type ImageDimensions } from '@/lib/imageUtils';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { createCanvasFromImage, loadImage, type ImageDimensions } from '@/lib/imageUtils';
+import {
+  differenceHeatmap,
+  fitAspectRect,
+  straightenedSize,
+  type CropRect,
+  type LocalOperation,
+  type ProcessParameters
+} from '@/lib/processing';
+import {
+  CompareTools,
+  type CompareMode,
+  type CompareSource,
+  type DifferenceStats
+} from './CompareTools';
+import { CropOverlay } from './CropOverlay';
+import { CropTools, getAspectRatio, type AspectPreset, type CustomAspect } from './CropTools';
+import { MaskPainter, type MaskTool } from './MaskPainter';
+import { VariantPicker } from './VariantPicker';
+import { ViewportMinimap } from './ViewportMinimap';
+import {
+  centerOn,
+  clampView,
+  getFitView,
+  getVisibleRect,
+  zoomAt,
+  type FitMode,
+  type ViewState
+} from '@/lib/viewport';
+
+const ZOOM_STEP = 1.25;
+// The difference heatmap is computed at most this large; it is only ever viewed scaled
+const DIFFERENCE_MAX_SIZE = 2048;
+
+interface PanGesture {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startView: ViewState;
+}
+
+interface PinchGesture {
+  distance: number;
+  view: ViewState;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName));
+
+interface ComparisonImages {
+  before: HTMLImageElement;
+  after: HTMLImageElement;
+}
 
 interface ImageCanvasProps {
   imageUrl?: string;
-  originalImage?: string;
-  onImageChange?: (imageData: string) => void;
+  // States that can be compared, oldest first; A defaults to the first and B to the current image
+  compareSources?: CompareSource[];
+  onImageChange?: (imageUrl: string) => void; // Called once the image has loaded
   isProcessing?: boolean;
+  onCancelProcessing?: () => void;
+  variants?: string[];
+  selectedVariant?: number;
+  onSelectVariant?: (index: number) => void;
+  onCommitVariant?: () => void;
+  onDiscardVariants?: () => void;
+  // Enables mask painting; receives a full-resolution base64 PNG mask, or null when cleared
+  onMaskChange?: (mask: string | null) => void;
+  // Enables the crop and rotate tools; geometric edits are applied at full resolution by the parent
+  onApplyTransform?: (operation: LocalOperation, parameters: ProcessParameters) => void;
   className?: string;
 }
 
 export function ImageCanvas({ 
   imageUrl, 
-  originalImage,
+  compareSources = [],
   onImageChange,
   isProcessing = false,
+  onCancelProcessing,
+  variants,
+  selectedVariant = 0,
+  onSelectVariant,
+  onCommitVariant,
+  onDiscardVariants,
+  onMaskChange,
+  onApplyTransform,
   className = "" 
 }: ImageCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [zoom, setZoom] = useState([100]);
-  const [canvasSize, setCanvasSize] = useState<ImageDimensions>({ width: 800, height: 600 });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [imageDimensions, setImageDimensions] = useState<ImageDimensions | null>(null);
+  const loadedSizeRef = useRef<ImageDimensions | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [viewportSize, setViewportSize] = useState<ImageDimensions>({ width: 0, height: 0 });
+  const [devicePixelRatio, setDevicePixelRatio] = useState(1);
+  const [view, setView] = useState<ViewState>({ scale: 1, x: 0, y: 0 });
+  // Set while the view should follow a fit mode; cleared by manual zoom or pan
+  const [fitMode, setFitMode] = useState<FitMode | null>('fit');
+  const [isSpaceDown, setIsSpaceDown] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const panRef = useRef<PanGesture | null>(null);
+  const pinchRef = useRef<PinchGesture | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const [isMasking, setIsMasking] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState([30]);
+  const [feather, setFeather] = useState([4]);
+  // Remounting the painter is how the mask gets cleared
+  const [maskKey, setMaskKey] = useState(0);
+  const [isCropping, setIsCropping] = useState(false);
+  const [aspectPreset, setAspectPreset] = useState<AspectPreset>('free');
+  const [customAspect, setCustomAspect] = useState<CustomAspect>({ width: '3', height: '2' });
+  const [straighten, setStraighten] = useState(0);
+  const [cropRect, setCropRect] = useState<CropRect | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode | null>(null);
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [isHolding, setIsHolding] = useState(false);
+  const [wipePosition, setWipePosition] = useState(0.5); // Share of the image width showing A
+  const wipeDragRef = useRef(false);
+  const [comparisonImages, setComparisonImages] = useState<ComparisonImages | null>(null);
+  const [difference, setDifference] = useState<{ canvas: HTMLCanvasElement; stats: DifferenceStats } | null>(null);
+
+  const aspect = getAspectRatio(aspectPreset, customAspect);
+  // Crop coordinates refer to the image after straightening and its auto-crop
+  const cropBounds = imageDimensions ? straightenedSize(imageDimensions, straighten) : null;
+  const previewAngle = isCropping ? straighten : 0;
 
-  // Load image onto canvas
-  const loadImageToCanvas = useCallback((imageSrc: string) => {
-    if (!canvasRef.current || !containerRef.current) return;
+  const isComparing = !!compareMode && compareSources.length > 1;
+  const beforeSource = compareSources.find((source) => source.id === beforeId) ?? compareSources[0];
+  const afterSource = compareSources.find((source) => source.id === afterId)
+    ?? compareSources.find((source) => source.imageUrl === imageUrl)
+    ?? compareSources[compareSources.length - 1];
+  // Side by side splits the viewport into two panes that share one view
+  const paneWidth = isComparing && compareMode === 'side-by-side' ? viewportSize.width / 2 : viewportSize.width;
+  const paneSize = useMemo(
+    () => ({ width: paneWidth, height: viewportSize.height }),
+    [paneWidth, viewportSize.height]
+  );
 
+  // Load the image at full resolution; drawing happens in the viewport
+  useEffect(() => {
+    if (!imageUrl) {
+      setImage(null);
+      setImageDimensions(null);
+      loadedSizeRef.current = null;
+      return;
+    }
+
+    let cancelled = false;
     setIsLoading(true);
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
     const img = new Image();
 
     img.onload = () => {
-      if (!ctx) return;
-
-      // Store original dimensions
-      setImageDimensions({ width: img.naturalWidth, height: img.naturalHeight });
-
-      // Calculate optimal display size
-      const containerRect = containerRef.current?.getBoundingClientRect();
-      const maxWidth = containerRect ? containerRect.width - 40 : 800;
-      const maxHeight = 600;
-
-      const displaySize = getOptimalDisplaySize(
-        img.naturalWidth,
-        img.naturalHeight,
-        maxWidth,
-        maxHeight
-      );
-
-      // Set canvas size
-      canvas.width = displaySize.width;
-      canvas.height = displaySize.height;
-      setCanvasSize(displaySize);
-
-      // Clear and draw image
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      
-      setIsLoading(false);
-      
-      // Notify parent of image change
-      if (onImageChange) {
-        onImageChange(canvas.toDataURL());
+      if (cancelled) return;
+      const dimensions = { width: img.naturalWidth, height: img.naturalHeight };
+
+      // Keep the current zoom and pan when an edit leaves the size unchanged
+      const previous = loadedSizeRef.current;
+      if (previous?.width !== dimensions.width || previous?.height !== dimensions.height) {
+        setFitMode((mode) => mode ?? 'fit');
       }
+      loadedSizeRef.current = dimensions;
+      setImageDimensions(dimensions);
+      setImage(img);
+      setIsLoading(false);
+      onImageChange?.(imageUrl);
     };
 
     img.onerror = () => {
+      if (cancelled) return;
       setIsLoading(false);
       console.error('Failed to load image');
     };
 
     img.crossOrigin = 'anonymous';
-    img.src = imageSrc;
-  }, [onImageChange]);
+    img.src = imageUrl;
 
-  // Apply zoom transformation
-  const applyZoom = useCallback(() => {
-    if (!canvasRef.current || !imageDimensions || !imageUrl) return;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, onImageChange]);
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
+  // Track the viewport size and screen density
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const measure = () => {
+      setViewportSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+      setDevicePixelRatio(window.devicePixelRatio || 1);
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    // Moving the window to another screen changes the ratio without resizing the element
+    window.addEventListener('resize', measure);
+
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  // Follow the active fit mode, or keep a manual view in bounds when the pane changes size
+  useEffect(() => {
+    if (!imageDimensions || paneSize.width === 0) return;
+    setView((current) => fitMode
+      ? getFitView(imageDimensions, paneSize, fitMode, devicePixelRatio)
+      : clampView(current, imageDimensions, paneSize));
+  }, [fitMode, imageDimensions, paneSize, devicePixelRatio]);
+
+  // Load both sides of the comparison
+  const beforeUrl = isComparing ? beforeSource?.imageUrl : undefined;
+  const afterUrl = isComparing ? afterSource?.imageUrl : undefined;
+  useEffect(() => {
+    if (!beforeUrl || !afterUrl) {
+      setComparisonImages(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([loadImage(beforeUrl), loadImage(afterUrl)])
+      .then(([before, after]) => {
+        if (!cancelled) setComparisonImages({ before, after });
+      })
+      .catch((error) => console.error('Failed to load comparison images:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeUrl, afterUrl]);
+
+  // Both sides are stretched to the current image's frame, so the heatmap is computed in that frame too
+  const frameWidth = imageDimensions?.width;
+  const frameHeight = imageDimensions?.height;
+  useEffect(() => {
+    if (compareMode !== 'difference' || !comparisonImages || !frameWidth || !frameHeight) {
+      setDifference(null);
+      return;
+    }
+
+    const scale = Math.min(1, DIFFERENCE_MAX_SIZE / Math.max(frameWidth, frameHeight));
+    const width = Math.max(1, Math.round(frameWidth * scale));
+    const height = Math.max(1, Math.round(frameHeight * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
 
-    const zoomLevel = zoom[0] / 100;
-    const img = new Image();
+    const readPixels = (source: HTMLImageElement) => {
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(source, 0, 0, width, height);
+      return ctx.getImageData(0, 0, width, height);
+    };
 
-    img.onload = () => {
-      // Calculate zoomed dimensions
-      const zoomedWidth = canvasSize.width * zoomLevel;
-      const zoomedHeight = canvasSize.height * zoomLevel;
+    try {
+      const result = differenceHeatmap(readPixels(comparisonImages.before), readPixels(comparisonImages.after));
+      ctx.putImageData(new ImageData(result.heatmap.data, width, height), 0, 0);
+      setDifference({
+        canvas,
+        stats: { meanDifference: result.meanDifference, changedRatio: result.changedRatio }
+      });
+    } catch (error) {
+      console.error('Failed to compute difference:', error);
+      setDifference(null);
+    }
+  }, [compareMode, comparisonImages, frameWidth, frameHeight]);
+
+  // Draw into a backing store sized in device pixels so the view stays sharp on HiDPI screens
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || viewportSize.width === 0) return;
+
+    canvas.width = Math.round(viewportSize.width * devicePixelRatio);
+    canvas.height = Math.round(viewportSize.height * devicePixelRatio);
+    ctx.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0);
+    ctx.clearRect(0, 0, viewportSize.width, viewportSize.height);
+    if (!image) return;
 
-      // Center the zoomed image
-      const offsetX = (canvas.width - zoomedWidth) / 2;
-      const offsetY = (canvas.height - zoomedHeight) / 2;
+    const width = image.naturalWidth * view.scale;
+    const height = image.naturalHeight * view.scale;
+    // Show individual pixels when zoomed far in
+    ctx.imageSmoothingEnabled = view.scale * devicePixelRatio < 4;
+    ctx.imageSmoothingQuality = 'high';
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, offsetX, offsetY, zoomedWidth, zoomedHeight);
+    const drawFrame = (source: CanvasImageSource, offsetX: number = 0) => {
+      ctx.drawImage(source, view.x + offsetX, view.y, width, height);
     };
 
-    img.crossOrigin = 'anonymous';
-    img.src = imageUrl;
-  }, [zoom, canvasSize, imageDimensions, imageUrl]);
+    const clipTo = (x: number, y: number, clipWidth: number, clipHeight: number, draw: () => void) => {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y, clipWidth, clipHeight);
+      ctx.clip();
+      draw();
+      ctx.restore();
+    };
+
+    if (isComparing && comparisonImages) {
+      const { before, after } = comparisonImages;
+      if (isHolding) {
+        drawFrame(before);
+      } else if (compareMode === 'wipe') {
+        drawFrame(after);
+        clipTo(view.x, view.y, width * wipePosition, height, () => drawFrame(before));
+      } else if (compareMode === 'side-by-side') {
+        clipTo(0, 0, paneWidth, viewportSize.height, () => drawFrame(before));
+        clipTo(paneWidth, 0, paneWidth, viewportSize.height, () => drawFrame(after, paneWidth));
+      } else {
+        drawFrame(difference?.canvas ?? after);
+      }
+    } else if (previewAngle) {
+      // Preview the straightened, auto-cropped result inside the image frame
+      const bounds = straightenedSize({ width: image.naturalWidth, height: image.naturalHeight }, previewAngle);
+      const zoom = image.naturalWidth / bounds.width;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(view.x, view.y, width, height);
+      ctx.clip();
+      ctx.translate(view.x + width / 2, view.y + height / 2);
+      ctx.rotate((previewAngle * Math.PI) / 180);
+      ctx.scale(zoom, zoom);
+      ctx.drawImage(image, -width / 2, -height / 2, width, height);
+      ctx.restore();
+    } else {
+      drawFrame(image);
+    }
+  }, [
+    image,
+    view,
+    viewportSize,
+    devicePixelRatio,
+    previewAngle,
+    isComparing,
+    comparisonImages,
+    compareMode,
+    isHolding,
+    wipePosition,
+    paneWidth,
+    difference
+  ]);
 
-  // Load image when imageUrl changes
+  const updateView = useCallback((next: ViewState) => {
+    if (!imageDimensions) return;
+    setFitMode(null);
+    setView(clampView(next, imageDimensions, paneSize));
+  }, [imageDimensions, paneSize]);
+
+  // Wheel zoom around the cursor; registered by hand because React wheel listeners are passive
   useEffect(() => {
-    if (imageUrl) {
-      loadImageToCanvas(imageUrl);
+    const viewport = viewportRef.current;
+    if (!viewport || !imageDimensions) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      // Zoom around the same image point in whichever pane the cursor is over
+      const pointX = (event.clientX - rect.left) % paneSize.width;
+      const delta = event.deltaMode === 1 ? event.deltaY * 16 : event.deltaY;
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const factor = Math.exp(-delta * (event.ctrlKey ? 0.01 : 0.0015));
+
+      setFitMode(null);
+      setView((current) => clampView(
+        zoomAt(current, current.scale * factor, pointX, event.clientY - rect.top, devicePixelRatio),
+        imageDimensions,
+        paneSize
+      ));
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [imageDimensions, paneSize, devicePixelRatio]);
+
+  // Hold space to pan, even while a tool is active
+  useEffect(() => {
+    if (!imageUrl) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      setIsSpaceDown(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setIsSpaceDown(false);
+    };
+    const handleBlur = () => setIsSpaceDown(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [imageUrl]);
+
+  const startPan = (event: React.PointerEvent) => {
+    viewportRef.current?.setPointerCapture(event.pointerId);
+    panRef.current = { pointerId: event.pointerId, startX: event.clientX, startY: event.clientY, startView: view };
+    setIsPanning(true);
+  };
+
+  const endPan = () => {
+    panRef.current = null;
+    setIsPanning(false);
+  };
+
+  // Capture phase: pinches and explicit pans take priority over the mask and crop tools
+  const handlePointerDownCapture = (event: React.PointerEvent) => {
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      pinchRef.current = { distance: Math.hypot(a.x - b.x, a.y - b.y), view };
+      endPan();
+      event.stopPropagation();
+      return;
+    }
+
+    if (imageDimensions && (isSpaceDown || event.button === 1)) {
+      event.preventDefault();
+      event.stopPropagation();
+      startPan(event);
+    }
+  };
+
+  // Bubble phase: a plain drag on the canvas itself pans
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (panRef.current || pinchRef.current || !imageDimensions || event.button !== 0) return;
+    if (event.target === canvasRef.current || event.target === viewportRef.current) {
+      startPan(event);
+    }
+  };
+
+  const handlePointerMoveCapture = (event: React.PointerEvent) => {
+    if (!pointersRef.current.has(event.pointerId)) return;
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.size >= 2) {
+      event.stopPropagation();
+      const [a, b] = [...pointersRef.current.values()];
+      const rect = viewportRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      updateView(zoomAt(
+        pinch.view,
+        pinch.view.scale * (distance / pinch.distance),
+        ((a.x + b.x) / 2 - rect.left) % paneSize.width,
+        (a.y + b.y) / 2 - rect.top,
+        devicePixelRatio
+      ));
+      return;
+    }
+
+    const pan = panRef.current;
+    if (pan && pan.pointerId === event.pointerId) {
+      updateView({
+        scale: pan.startView.scale,
+        x: pan.startView.x + event.clientX - pan.startX,
+        y: pan.startView.y + event.clientY - pan.startY
+      });
+    }
+  };
+
+  const handlePointerUpCapture = (event: React.PointerEvent) => {
+    pointersRef.current.delete(event.pointerId);
+    if (pointersRef.current.size < 2) {
+      pinchRef.current = null;
+    }
+    if (panRef.current?.pointerId === event.pointerId) {
+      endPan();
     }
-  }, [imageUrl, loadImageToCanvas]);
+  };
 
-  // Apply zoom when zoom level changes
+  const zoomBy = (factor: number) => {
+    updateView(zoomAt(view, view.scale * factor, paneSize.width / 2, paneSize.height / 2, devicePixelRatio));
+  };
+
+  const navigateTo = (imageX: number, imageY: number) => {
+    updateView(centerOn(view, imageX, imageY, paneSize));
+  };
+
+  const moveWipe = (event: React.PointerEvent) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!wipeDragRef.current || !rect || !imageDimensions) return;
+    const position = (event.clientX - rect.left - view.x) / (imageDimensions.width * view.scale);
+    setWipePosition(Math.min(1, Math.max(0, position)));
+  };
+
+  const startWipeDrag = (event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    wipeDragRef.current = true;
+    moveWipe(event);
+  };
+
+  const endWipeDrag = () => {
+    wipeDragRef.current = false;
+  };
+
+  const closeComparison = () => {
+    setCompareMode(null);
+    setIsHolding(false);
+  };
+
+  // A mask only makes sense for the image it was painted on
+  useEffect(() => {
+    setMaskKey((key) => key + 1);
+    onMaskChange?.(null);
+  }, [imageUrl, onMaskChange]);
+
+  // Start each crop from the largest rectangle the current bounds and ratio allow
+  const boundsWidth = cropBounds?.width;
+  const boundsHeight = cropBounds?.height;
   useEffect(() => {
-    if (zoom[0] !== 100) {
-      applyZoom();
+    if (!boundsWidth || !boundsHeight || !isCropping) return;
+    const bounds = { width: boundsWidth, height: boundsHeight };
+    setCropRect(aspect ? fitAspectRect(bounds, aspect) : { x: 0, y: 0, ...bounds });
+  }, [boundsWidth, boundsHeight, aspect, isCropping]);
+
+  const clearMask = () => {
+    setMaskKey((key) => key + 1);
+    onMaskChange?.(null);
+  };
+
+  const toggleMasking = () => {
+    if (isMasking) {
+      clearMask();
+    } else {
+      setIsCropping(false);
+      closeComparison();
     }
-  }, [zoom, applyZoom]);
+    setIsMasking(!isMasking);
+  };
+
+  const exitCropping = () => {
+    setIsCropping(false);
+    setStraighten(0);
+  };
 
-  // Reset zoom
-  const resetZoom = () => {
-    setZoom([100]);
-    if (imageUrl) {
-      loadImageToCanvas(imageUrl);
+  const toggleCropping = () => {
+    if (isCropping) {
+      exitCropping();
+      return;
     }
+    if (isMasking) {
+      clearMask();
+      setIsMasking(false);
+    }
+    closeComparison();
+    setIsCropping(true);
   };
 
-  // Download current canvas content
-  const downloadImage = () => {
-    if (!canvasRef.current) return;
-    
-    const canvas = canvasRef.current;
-    const link = document.createElement('a');
-    link.download = 'edited-image.png';
-    link.href = canvas.toDataURL();
-    link.click();
+  const toggleComparison = () => {
+    if (isComparing) {
+      closeComparison();
+      return;
+    }
+    if (isMasking) {
+      clearMask();
+      setIsMasking(false);
+    }
+    exitCropping();
+    setCompareMode('wipe');
   };
 
+  const applyCrop = () => {
+    if (!onApplyTransform || !cropBounds || !cropRect) return;
+
+    const isFullFrame = cropRect.x === 0 && cropRect.y === 0
+      && cropRect.width === cropBounds.width && cropRect.height === cropBounds.height;
+
+    if (!isFullFrame || straighten !== 0) {
+      onApplyTransform(isFullFrame ? 'straighten' : 'crop', {
+        transform: {
+          straighten: straighten || undefined,
+          crop: isFullFrame ? undefined : cropRect
+        }
+      });
+    }
+    exitCropping();
+  };
+
+  const applyRotate = (degrees: 90 | 270) => {
+    setStraighten(0);
+    onApplyTransform?.('rotate', { transform: { rotate: degrees } });
+  };
+
+  const applyFlip = (direction: 'horizontal' | 'vertical') => {
+    setStraighten(0);
+    onApplyTransform?.('flip', { transform: { flip: direction } });
+  };
+
+  // Download the current image at full resolution
+  const downloadImage = async () => {
+    if (!imageUrl) return;
+
+    try {
+      const canvas = await createCanvasFromImage(imageUrl);
+      const link = document.createElement('a');
+      link.download = 'edited-image.png';
+      link.href = canvas.toDataURL();
+      link.click();
+    } catch (error) {
+      console.error('Failed to download image:', error);
+    }
+  };
+
+  const zoomPercent = Math.round(view.scale * devicePixelRatio * 100);
+  const imageRect = imageDimensions && {
+    left: view.x,
+    top: view.y,
+    width: imageDimensions.width * view.scale,
+    height: imageDimensions.height * view.scale
+  };
+  const visibleRect = imageDimensions && getVisibleRect(view, imageDimensions, paneSize);
+  const showMinimap = !!(image && imageDimensions && visibleRect
+    && (visibleRect.width < imageDimensions.width - 1 || visibleRect.height < imageDimensions.height - 1));
+
   return (
     <Card className={`relative ${className}`}>
       <div className="p-4 border-b">
         <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-4">
-            <div className="flex items-center space-x-2">
-              <span className="text-sm font-medium">Zoom:</span>
-              <div className="w-32">
-                <Slider
-                  value={zoom}
-                  onValueChange={setZoom}
-                  max={300}
-                  min={25}
-                  step={25}
-                  className="w-full"
-                />
-              </div>
-              <span className="text-sm text-gray-600 dark:text-gray-400 min-w-[3rem]">
-                {zoom[0]}%
-              </span>
-            </div>
-          </div>
-          
           <div className="flex items-center space-x-2">
-            <Button
+            <span className="text-sm font-medium">Zoom:</span>
+            <Button variant="outline" size="sm" onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={!imageDimensions}>
+              −
+            </Button>
+            <span className="text-sm text-gray-600 dark:text-gray-400 min-w-[3.5rem] text-center">
+              {zoomPercent}%
+            </span>
+            <Button variant="outline" size="sm" onClick={() => zoomBy(ZOOM_STEP)} disabled={!imageDimensions}>
+              +
+            </Button>
+            <ToggleGroup
+              type="single"
               variant="outline"
               size="sm"
-              onClick={resetZoom}
-              disabled={zoom[0] === 100 || isProcessing}
+              value={fitMode ?? ''}
+              onValueChange={(value) => value && setFitMode(value as FitMode)}
+              disabled={!imageDimensions}
             >
-              Reset
-            </Button>
+              <ToggleGroupItem value="fit">Fit</ToggleGroupItem>
+              <ToggleGroupItem value="fill">Fill</ToggleGroupItem>
+              <ToggleGroupItem value="actual">100%</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          
+          <div className="flex items-center space-x-2">
+            {compareSources.length > 1 && (
+              <Button
+                variant={isComparing ? 'default' : 'outline'}
+                size="sm"
+                onClick={toggleComparison}
+                disabled={!imageUrl || isProcessing}
+              >
+                Compare
+              </Button>
+            )}
+            {onApplyTransform && (
+              <Button
+                variant={isCropping ? 'default' : 'outline'}
+                size="sm"
+                onClick={toggleCropping}
+                disabled={!imageUrl || isProcessing}
+              >
+                Crop & Rotate
+              </Button>
+            )}
+            {onMaskChange && (
+              <Button
+                variant={isMasking ? 'default' : 'outline'}
+                size="sm"
+                onClick={toggleMasking}
+                disabled={!imageUrl || isProcessing}
+              >
+                {isMasking ? 'Exit Mask' : 'Paint Mask'}
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -184,11 +704,90 @@ export function ImageCanvas({
             </Button>
           </div>
         </div>
+
+        {/* Comparison tools */}
+        {isComparing && compareMode && beforeSource && afterSource && (
+          <CompareTools
+            sources={compareSources}
+            mode={compareMode}
+            onModeChange={setCompareMode}
+            beforeId={beforeSource.id}
+            onBeforeChange={setBeforeId}
+            afterId={afterSource.id}
+            onAfterChange={setAfterId}
+            onHoldChange={setIsHolding}
+            differenceStats={difference?.stats}
+            sizeMismatch={!!comparisonImages && (
+              comparisonImages.before.naturalWidth !== comparisonImages.after.naturalWidth
+              || comparisonImages.before.naturalHeight !== comparisonImages.after.naturalHeight
+            )}
+            onClose={closeComparison}
+          />
+        )}
+
+        {/* Crop and rotate tools */}
+        {isCropping && (
+          <CropTools
+            aspectPreset={aspectPreset}
+            onAspectPresetChange={setAspectPreset}
+            customAspect={customAspect}
+            onCustomAspectChange={setCustomAspect}
+            straighten={straighten}
+            onStraightenChange={setStraighten}
+            onRotate={applyRotate}
+            onFlip={applyFlip}
+            onApply={applyCrop}
+            onCancel={exitCropping}
+            disabled={isProcessing}
+          />
+        )}
+
+        {/* Mask tools */}
+        {isMasking && (
+          <div className="flex flex-wrap items-center gap-4 mt-3">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={maskTool}
+              onValueChange={(value) => value && setMaskTool(value as MaskTool)}
+            >
+              <ToggleGroupItem value="brush">Brush</ToggleGroupItem>
+              <ToggleGroupItem value="eraser">Eraser</ToggleGroupItem>
+            </ToggleGroup>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium">Size:</span>
+              <div className="w-24">
+                <Slider value={brushSize} onValueChange={setBrushSize} min={5} max={120} step={5} />
+              </div>
+              <span className="text-sm text-gray-600 dark:text-gray-400 min-w-[2.5rem]">{brushSize[0]}px</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium">Feather:</span>
+              <div className="w-24">
+                <Slider value={feather} onValueChange={setFeather} min={0} max={40} step={1} />
+              </div>
+              <span className="text-sm text-gray-600 dark:text-gray-400 min-w-[2.5rem]">{feather[0]}px</span>
+            </div>
+            <Button variant="outline" size="sm" onClick={clearMask} disabled={isProcessing}>
+              Clear
+            </Button>
+          </div>
+        )}
       </div>
 
-      <div 
-        ref={containerRef}
-        className="relative p-4 bg-gray-50 dark:bg-gray-900 min-h-[400px] flex items-center justify-center"
+      <div
+        ref={viewportRef}
+        className="relative h-[600px] overflow-hidden bg-gray-50 dark:bg-gray-900 select-none"
+        style={{
+          touchAction: 'none',
+          cursor: isPanning ? 'grabbing' : image ? 'grab' : undefined
+        }}
+        onPointerDownCapture={handlePointerDownCapture}
+        onPointerDown={handlePointerDown}
+        onPointerMoveCapture={handlePointerMoveCapture}
+        onPointerUpCapture={handlePointerUpCapture}
+        onPointerCancelCapture={handlePointerUpCapture}
       >
         {/* Processing overlay */}
         {(isProcessing || isLoading) && (
@@ -198,22 +797,84 @@ export function ImageCanvas({
               <p className="text-sm text-gray-600 dark:text-gray-400">
                 {isLoading ? 'Loading image...' : 'Processing with AI...'}
               </p>
+              {isProcessing && onCancelProcessing && (
+                <Button variant="outline" size="sm" onClick={onCancelProcessing}>
+                  Cancel
+                </Button>
+              )}
             </div>
           </div>
         )}
 
         {/* Canvas */}
-        {imageUrl ? (
-          <canvas
-            ref={canvasRef}
-            className="max-w-full max-h-full border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm"
-            style={{
-              imageRendering: 'crisp-edges',
-              background: 'transparent'
-            }}
-          />
-        ) : (
-          <div className="text-center py-20">
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 block"
+          style={{ width: viewportSize.width, height: viewportSize.height }}
+        />
+
+        {/* Tool overlays follow the image on screen */}
+        {imageRect && (isCropping || isMasking) && (
+          <div className="absolute overflow-hidden" style={imageRect}>
+            {isCropping && cropBounds && cropRect && (
+              <CropOverlay
+                bounds={cropBounds}
+                rect={cropRect}
+                aspect={aspect}
+                onChange={setCropRect}
+                disabled={isProcessing}
+              />
+            )}
+            {isMasking && imageDimensions && onMaskChange && (
+              <MaskPainter
+                key={maskKey}
+                imageSize={imageDimensions}
+                tool={maskTool}
+                brushSize={brushSize[0]}
+                feather={feather[0]}
+                onChange={onMaskChange}
+                disabled={isProcessing}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Comparison handles and labels */}
+        {isComparing && comparisonImages && imageRect && !isHolding && compareMode === 'wipe' && (
+          <div
+            className="absolute top-0 bottom-0 z-[4] w-6 -ml-3 flex justify-center cursor-ew-resize"
+            style={{ left: imageRect.left + imageRect.width * wipePosition, touchAction: 'none' }}
+            onPointerDown={startWipeDrag}
+            onPointerMove={moveWipe}
+            onPointerUp={endWipeDrag}
+            onPointerCancel={endWipeDrag}
+          >
+            <div className="w-0.5 h-full bg-white shadow" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white border border-gray-700 shadow" />
+          </div>
+        )}
+        {isComparing && compareMode === 'side-by-side' && !isHolding && (
+          <div className="absolute inset-y-0 left-1/2 w-px bg-white/80 pointer-events-none z-[4]" />
+        )}
+        {isComparing && beforeSource && afterSource && (
+          <>
+            <div className="absolute top-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs pointer-events-none z-[4]">
+              A: {beforeSource.label}
+            </div>
+            {!isHolding && (
+              <div
+                className={`absolute top-2 bg-black/70 text-white px-2 py-1 rounded text-xs pointer-events-none z-[4] ${
+                  compareMode === 'side-by-side' ? 'left-1/2 ml-2' : 'right-2'
+                }`}
+              >
+                {compareMode === 'difference' ? `A ↔ B: ${afterSource.label}` : `B: ${afterSource.label}`}
+              </div>
+            )}
+          </>
+        )}
+
+        {!imageUrl && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-center">
             <div className="w-16 h-16 mx-auto bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center mb-4">
               <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -225,40 +886,37 @@ export function ImageCanvas({
           </div>
         )}
 
+        {/* Minimap once the image no longer fits */}
+        {showMinimap && image && imageDimensions && (
+          <ViewportMinimap
+            image={image}
+            imageSize={imageDimensions}
+            view={view}
+            viewportSize={viewportSize}
+            onNavigate={navigateTo}
+          />
+        )}
+
         {/* Image info */}
         {imageDimensions && (
-          <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
-            {imageDimensions.width} × {imageDimensions.height}
+          <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs pointer-events-none">
+            {imageDimensions.width} × {imageDimensions.height} · {zoomPercent}%
           </div>
         )}
       </div>
 
-      {/* Comparison view for before/after */}
-      {originalImage && imageUrl && originalImage !== imageUrl && (
-        <div className="p-4 border-t">
-          <div className="flex items-center space-x-2 mb-2">
-            <span className="text-sm font-medium">Original vs Edited</span>
-          </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div className="text-center">
-              <img
-                src={originalImage}
-                alt="Original"
-                className="w-full h-32 object-contain border border-gray-200 dark:border-gray-700 rounded"
-              />
-              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Original</p>
-            </div>
-            <div className="text-center">
-              <img
-                src={imageUrl}
-                alt="Edited"
-                className="w-full h-32 object-contain border border-gray-200 dark:border-gray-700 rounded"
-              />
-              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Edited</p>
-            </div>
-          </div>
-        </div>
+      {/* Variant picker for multi-output edits */}
+      {variants && variants.length > 1 && onSelectVariant && (
+        <VariantPicker
+          variants={variants}
+          selectedIndex={selectedVariant}
+          onSelect={onSelectVariant}
+          onCommit={onCommitVariant}
+          onDiscard={onDiscardVariants}
+          disabled={isProcessing}
+        />
       )}
+
     </Card>
   );
 }
\ No newline at end of file
@@ -1,172 +1,798 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { ImageUploader } from './ImageUploader';
 import { ImageCanvas } from './ImageCanvas';
 import { AIToolsSidebar } from './AIToolsSidebar';
 import { ExportPanel } from './ExportPanel';
+import { ImageInfoPanel } from './ImageInfoPanel';
+import type { CompareSource } from './CompareTools';
+import { HistoryTree } from './HistoryTree';
+import { SessionManager } from './SessionManager';
+import { OpenProjectButton } from './OpenProjectButton';
+import { RecipeDialog, type RecipeUpload } from './RecipeDialog';
+import { BatchProcessor } from './BatchProcessor';
+import { DocumentFilmstrip, type FilmstripDocument } from './DocumentFilmstrip';
+import { TiffPagePicker } from './TiffPagePicker';
+import { WorkingSizeNotice } from './WorkingSizeNotice';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { fileToBase64 } from '@/lib/imageUtils';
-import { aiImageService, type AIServiceResponse } from '@/lib/aiService';
+import { saveAs } from 'file-saver';
+import {
+  deleteBranch,
+  getBranchTip,
+  getDescendantIds,
+  getPath,
+  getRedoTarget,
+  isAncestor,
+  type EditHistory
+} from '@/lib/history';
+import { validateImageFile } from '@/lib/imageUtils';
+import { fetchImageFile, readImagePayload, type ImagePayload } from '@/lib/imageImport';
+import { declaredSourceFormat, defaultExportFormat, NATIVE_FORMATS, type SourceFormat } from '@/lib/formats';
+import { countImagePages, prepareImageFile, type DecodedImage } from '@/lib/formats/codecs';
+import { imageEditClient } from '@/lib/imageEditClient';
+import type { EditFailureReason, EditOperation } from '@/lib/imageEditApi';
+import { isLocalOperation, type ProcessOperation, type ProcessParameters } from '@/lib/processing';
+import { processingEngine } from '@/lib/processing/engine';
+import type { JobSnapshot, JobStatus } from '@/lib/jobs/types';
+import { sessionStore } from '@/lib/sessions/sessionStore';
+import type { SessionSummary } from '@/lib/sessions/types';
+import { PROJECT_FILE_EXTENSION, ProjectFileError } from '@/lib/project/manifest';
+import { exportProject, importProject, type ProjectState } from '@/lib/project/projectFile';
+import type { Recipe } from '@/lib/recipes/recipe';
+import type { ReplayStepResult } from '@/lib/recipes/replay';
+import type { WorkingSize } from '@/lib/workingSize';
+import { prepareAIInput, workingSizePreference } from '@/lib/workingSize/workingCopy';
 
-interface EditHistory {
-  imageUrl: string;
-  operation: string;
-  timestamp: number;
+const JOB_STAGES: { status: JobStatus; label: string }[] = [
+  { status: 'queued', label: 'Queued' },
+  { status: 'running', label: 'Processing' },
+  { status: 'succeeded', label: 'Done' }
+];
+
+// Failures on the provider's side, as opposed to problems with the image or request
+const PROVIDER_UNAVAILABLE_REASONS: EditFailureReason[] = [
+  'rate-limited',
+  'upstream-unavailable',
+  'circuit-open',
+  'network',
+  'timeout'
+];
+
+// Quiet period after the last change before the session is written to IndexedDB
+const AUTOSAVE_DELAY = 1000;
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+// How an edit was made, recorded alongside its result
+type EditDetails = Pick<EditHistory, 'variants' | 'parameters' | 'provider'>;
+
+// An open image with its own history. The active document lives in the editor
+// state; its entry here is only brought up to date when switching away from it.
+interface EditorDocument extends ProjectState {
+  id: string;
+  sessionId: string | null;
+}
+
+const createDocument = (state: ProjectState, sessionId: string | null): EditorDocument => ({
+  ...state,
+  id: crypto.randomUUID(),
+  sessionId
+});
+
+// Autosave waits for a quiet period, so a document being left is written straight away
+const persistDocument = (doc: EditorDocument | null) => {
+  if (!doc?.sessionId || !sessionStore.isSupported()) return;
+  sessionStore.save({ ...doc, id: doc.sessionId })
+    .catch((error) => console.error('Failed to save session:', error));
+};
+
+interface PendingVariants extends Omit<EditDetails, 'variants'> {
+  operation: EditOperation;
+  images: string[];
+  selected: number;
 }
 
 export function ImageEditor() {
   const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat | undefined>(undefined);
   const [currentImageUrl, setCurrentImageUrl] = useState<string>('');
   const [originalImageUrl, setOriginalImageUrl] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [editHistory, setEditHistory] = useState<EditHistory[]>([]);
-  const [currentHistoryIndex, setCurrentHistoryIndex] = useState(-1);
+  // null while the original upload is shown
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const [branchTipId, setBranchTipId] = useState<string | null>(null);
   const [processingStatus, setProcessingStatus] = useState<string>('');
+  const [activeJob, setActiveJob] = useState<JobSnapshot | null>(null);
+  const [pendingVariants, setPendingVariants] = useState<PendingVariants | null>(null);
+  const [mask, setMask] = useState<string | null>(null);
+  const [session, setSession] = useState<{ id: string; createdAt: number } | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [restoreCandidate, setRestoreCandidate] = useState<SessionSummary | null>(null);
+  const [isSessionManagerOpen, setIsSessionManagerOpen] = useState(false);
+  const [isRecipeDialogOpen, setIsRecipeDialogOpen] = useState(false);
+  // Set while batch mode replaces the editor
+  const [batch, setBatch] = useState<{ files: File[]; recipe: Recipe | null } | null>(null);
+  const [documents, setDocuments] = useState<EditorDocument[]>([]);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+  // Multi-page TIFFs waiting for their pages to be chosen, one at a time
+  const [pendingTiffs, setPendingTiffs] = useState<File[]>([]);
+  const [workingSize, setWorkingSize] = useState<WorkingSize>(() => workingSizePreference.get());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set while something on this page is being dragged, so it is not imported as a new image
+  const internalDragRef = useRef(false);
+
+  // Offer the most recent saved session on first load
+  useEffect(() => {
+    if (!sessionStore.isSupported()) return;
+    sessionStore.list()
+      .then((sessions) => setRestoreCandidate(sessions[0] ?? null))
+      .catch((error) => console.error('Failed to read saved sessions:', error));
+  }, []);
+
+  // Autosave the source image, history and position in it
+  useEffect(() => {
+    if (!session || !currentFile || !originalImageUrl || !sessionStore.isSupported()) return;
+
+    const timer = setTimeout(() => {
+      setSaveState('saving');
+      sessionStore.save({
+        id: session.id,
+        file: currentFile,
+        sourceFormat,
+        originalImageUrl,
+        entries: editHistory,
+        currentEntryId,
+        branchTipId,
+        createdAt: session.createdAt
+      })
+        .then(() => setSaveState('saved'))
+        .catch((error) => {
+          console.error('Failed to save session:', error);
+          setSaveState('error');
+        });
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [session, currentFile, sourceFormat, originalImageUrl, editHistory, currentEntryId, branchTipId]);
+
+  // Replace everything in the editor with another document's state
+  const loadEditorState = useCallback((state: ProjectState, sessionId: string | null) => {
+    abortControllerRef.current?.abort();
+    const current = state.entries.find((entry) => entry.id === state.currentEntryId);
+    setCurrentFile(state.file);
+    setSourceFormat(state.sourceFormat);
+    setOriginalImageUrl(state.originalImageUrl);
+    setCurrentImageUrl(current?.imageUrl ?? state.originalImageUrl);
+    setEditHistory(state.entries);
+    setCurrentEntryId(current ? current.id : null);
+    setBranchTipId(state.branchTipId);
+    setPendingVariants(null);
+    setSession(sessionId ? { id: sessionId, createdAt: state.createdAt } : null);
+    setRestoreCandidate(null);
+  }, []);
+
+  // The active document as it stands now
+  const snapshotActiveDocument = useCallback((): EditorDocument | null => {
+    const stored = documents.find((doc) => doc.id === activeDocumentId);
+    if (!stored || !currentFile) return null;
+
+    return {
+      ...stored,
+      sessionId: session?.id ?? null,
+      file: currentFile,
+      sourceFormat,
+      originalImageUrl,
+      entries: editHistory,
+      currentEntryId,
+      branchTipId,
+      createdAt: session?.createdAt ?? stored.createdAt
+    };
+  }, [documents, activeDocumentId, session, currentFile, sourceFormat, originalImageUrl, editHistory, currentEntryId, branchTipId]);
+
+  // Make a document the active one, optionally adding new ones to the filmstrip first
+  const activateDocument = useCallback((target: EditorDocument, added: EditorDocument[] = []) => {
+    const leaving = snapshotActiveDocument();
+    persistDocument(leaving);
+
+    setDocuments((docs) => [...docs.map((doc) => (leaving && doc.id === leaving.id ? leaving : doc)), ...added]);
+    setActiveDocumentId(target.id);
+    loadEditorState(target, target.sessionId);
+    setSaveState(target.sessionId && !added.includes(target) ? 'saved' : 'idle');
+  }, [snapshotActiveDocument, loadEditorState]);
+
+  const openDocuments = useCallback((added: EditorDocument[]) => {
+    if (added.length > 0) {
+      activateDocument(added[0], added);
+    }
+  }, [activateDocument]);
+
+  const openDecodedImages = useCallback((images: DecodedImage[]) => {
+    openDocuments(images.map(({ file, sourceFormat }) => createDocument({
+      file,
+      sourceFormat,
+      originalImageUrl: URL.createObjectURL(file),
+      entries: [],
+      currentEntryId: null,
+      branchTipId: null,
+      createdAt: Date.now()
+    }, crypto.randomUUID())));
+  }, [openDocuments]);
+
+  // Decode files one after another, reporting the ones that fail together at the end
+  const decodeUploads = useCallback(async (uploads: Array<{ file: File; page?: number }>) => {
+    const decoded: DecodedImage[] = [];
+    const failures: string[] = [];
+    const converting = uploads.some(({ file }) => !NATIVE_FORMATS.includes(declaredSourceFormat(file) ?? 'png'));
+    if (converting) setProcessingStatus('Converting images...');
+    for (const { file, page } of uploads) {
+      try {
+        decoded.push(await prepareImageFile(file, page));
+      } catch (error) {
+        console.error('Failed to decode image:', error);
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : 'could not be decoded'}`);
+      }
+    }
+    if (converting) setProcessingStatus('');
+    if (failures.length > 0) {
+      alert(`Some images could not be opened.\n\n${failures.join('\n')}`);
+    }
+    return decoded;
+  }, []);
+
+  // Each uploaded file opens as a document of its own; multi-page TIFFs ask which pages first
+  const handleImageUpload = useCallback(async (files: File[]) => {
+    const pageCounts = await Promise.all(files.map((file) => countImagePages(file).catch(() => 1)));
+    const multiPage = files.filter((_, index) => pageCounts[index] > 1);
+    const singles = files.filter((_, index) => pageCounts[index] <= 1);
+
+    if (multiPage.length > 0) {
+      setPendingTiffs((pending) => [...pending, ...multiPage]);
+    }
+    if (singles.length > 0) {
+      openDecodedImages(await decodeUploads(singles.map((file) => ({ file }))));
+      console.log('Images uploaded successfully:', singles.map((file) => file.name).join(', '));
+    }
+  }, [decodeUploads, openDecodedImages]);
+
+  const handleOpenTiffPages = useCallback(async (file: File, pages: number[]) => {
+    setPendingTiffs((pending) => pending.slice(1));
+    openDecodedImages(await decodeUploads(pages.map((page) => ({ file, page }))));
+  }, [decodeUploads, openDecodedImages]);
+
+  const handleSelectDocument = useCallback((id: string) => {
+    const target = documents.find((doc) => doc.id === id);
+    if (target && id !== activeDocumentId) {
+      activateDocument(target);
+    }
+  }, [documents, activeDocumentId, activateDocument]);
+
+  // Closing only removes the document from the filmstrip; its saved session stays
+  const handleCloseDocument = useCallback((id: string) => {
+    if (id !== activeDocumentId) {
+      setDocuments(documents.filter((doc) => doc.id !== id));
+      return;
+    }
+
+    persistDocument(snapshotActiveDocument());
+    const index = documents.findIndex((doc) => doc.id === id);
+    const remaining = documents.filter((doc) => doc.id !== id);
+    const next = remaining[Math.min(index, remaining.length - 1)];
+    setDocuments(remaining);
+
+    if (next) {
+      setActiveDocumentId(next.id);
+      loadEditorState(next, next.sessionId);
+      setSaveState(next.sessionId ? 'saved' : 'idle');
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    setActiveDocumentId(null);
+    setCurrentFile(null);
+    setSourceFormat(undefined);
+    setCurrentImageUrl('');
+    setOriginalImageUrl('');
+    setEditHistory([]);
+    setCurrentEntryId(null);
+    setBranchTipId(null);
+    setPendingVariants(null);
+    setSession(null);
+    setSaveState('idle');
+  }, [documents, activeDocumentId, snapshotActiveDocument, loadEditorState]);
+
+  // Files, or links dragged from another tab, dropped or pasted anywhere in the editor
+  const importImages = useCallback(async ({ files, urls }: ImagePayload) => {
+    const candidates = [...files];
+
+    if (urls.length > 0) {
+      setProcessingStatus('Importing image...');
+      const results = await Promise.allSettled(urls.map((url) => fetchImageFile(url)));
+      setProcessingStatus('');
+
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          candidates.push(result.value);
+        } else {
+          console.error('Failed to import image:', result.reason);
+        }
+      }
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        alert(failure.reason instanceof Error ? failure.reason.message : 'Failed to import the image.');
+      }
+    }
+
+    const valid = candidates.filter((file) => validateImageFile(file).valid);
+    if (valid.length < candidates.length) {
+      alert(candidates.length === 1
+        ? validateImageFile(candidates[0]).error
+        : `${candidates.length - valid.length} of the images are not supported and were skipped.`);
+    }
+    if (valid.length > 0) {
+      handleImageUpload(valid);
+    }
+  }, [handleImageUpload]);
+
+  // Ctrl+V anywhere except text fields pastes images as new documents
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target instanceof Element ? event.target : null;
+      if (!event.clipboardData || isProcessing || batch || target?.closest('input, textarea, [contenteditable="true"]')) {
+        return;
+      }
+
+      const payload = readImagePayload(event.clipboardData);
+      if (payload.files.length === 0 && payload.urls.length === 0) return;
+
+      event.preventDefault();
+      importImages(payload);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [importImages, isProcessing, batch]);
+
+  useEffect(() => {
+    const handleDragStart = () => { internalDragRef.current = true; };
+    const handleDragEnd = () => { internalDragRef.current = false; };
+    window.addEventListener('dragstart', handleDragStart);
+    window.addEventListener('dragend', handleDragEnd);
+    return () => {
+      window.removeEventListener('dragstart', handleDragStart);
+      window.removeEventListener('dragend', handleDragEnd);
+    };
+  }, []);
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (internalDragRef.current || isProcessing || batch) return;
+    const types = Array.from(event.dataTransfer.types);
+    if (types.includes('Files') || types.includes('text/uri-list') || types.includes('text/html')) {
+      event.preventDefault();
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (internalDragRef.current || isProcessing || batch) return;
+
+    const payload = readImagePayload(event.dataTransfer);
+    // The upload area takes file drops itself, but ignores links
+    if (event.defaultPrevented && payload.files.length > 0) return;
+    if (payload.files.length === 0 && payload.urls.length === 0) return;
+
+    event.preventDefault();
+    importImages(payload);
+  };
+
+  const handleRestoreSession = useCallback(async (id: string) => {
+    const alreadyOpen = documents.find((doc) => doc.sessionId === id);
+    if (alreadyOpen) {
+      handleSelectDocument(alreadyOpen.id);
+      setIsSessionManagerOpen(false);
+      return;
+    }
 
-  // Handle file upload
-  const handleImageUpload = useCallback(async (file: File) => {
     try {
-      setCurrentFile(file);
-      const imageUrl = URL.createObjectURL(file);
-      setCurrentImageUrl(imageUrl);
-      setOriginalImageUrl(imageUrl);
-      
-      // Reset history when new image is uploaded
-      setEditHistory([]);
-      setCurrentHistoryIndex(-1);
-      
-      console.log('Image uploaded successfully:', file.name);
+      const restored = await sessionStore.load(id);
+      if (!restored) {
+        alert('That session is no longer available.');
+        setRestoreCandidate(null);
+        return;
+      }
+
+      openDocuments([createDocument(restored, restored.id)]);
+      setSaveState('saved');
+      setIsSessionManagerOpen(false);
     } catch (error) {
-      console.error('Failed to upload image:', error);
-      alert('Failed to upload image. Please try again.');
+      console.error('Failed to restore session:', error);
+      alert('Failed to restore the saved session.');
     }
-  }, []);
+  }, [documents, handleSelectDocument, openDocuments]);
+
+  // An opened project becomes a new session of its own
+  const handleOpenProject = useCallback(async (file: File) => {
+    try {
+      openDocuments([createDocument(await importProject(file), crypto.randomUUID())]);
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      alert(error instanceof ProjectFileError
+        ? `Could not open the project: ${error.message}`
+        : 'Failed to open the project file.');
+    }
+  }, [openDocuments]);
+
+  const handleSaveProject = useCallback(async () => {
+    if (!currentFile || !originalImageUrl) return;
+
+    setProcessingStatus('Packing project...');
+    try {
+      const blob = await exportProject({
+        file: currentFile,
+        sourceFormat,
+        originalImageUrl,
+        entries: editHistory,
+        currentEntryId,
+        branchTipId,
+        createdAt: session?.createdAt ?? Date.now()
+      });
+      const baseName = currentFile.name.replace(/\.[^.]+$/, '') || 'image';
+      saveAs(blob, `${baseName}${PROJECT_FILE_EXTENSION}`);
+      setProcessingStatus('✅ Project saved');
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      alert(error instanceof ProjectFileError
+        ? `Could not save the project: ${error.message}`
+        : 'Failed to save the project file.');
+      setProcessingStatus('❌ Project not saved');
+    }
+    setTimeout(() => setProcessingStatus(''), 3000);
+  }, [currentFile, sourceFormat, originalImageUrl, editHistory, currentEntryId, branchTipId, session]);
+
+  // Deleting the open session stops autosave until the next upload
+  const handleSessionsDeleted = useCallback((ids: string[]) => {
+    if (session && ids.includes(session.id)) {
+      setSession(null);
+      setSaveState('idle');
+    }
+    setDocuments((docs) => docs.map((doc) => (
+      doc.sessionId && ids.includes(doc.sessionId) ? { ...doc, sessionId: null } : doc
+    )));
+    if (restoreCandidate && ids.includes(restoreCandidate.id)) {
+      setRestoreCandidate(null);
+    }
+  }, [session, restoreCandidate]);
 
   // Add edit to history
-  const addToHistory = useCallback((imageUrl: string, operation: string) => {
+  const addToHistory = useCallback((imageUrl: string, operation: string, details: EditDetails = {}) => {
+    const { variants } = details;
     const newEntry: EditHistory = {
+      id: crypto.randomUUID(),
+      parentId: currentEntryId,
       imageUrl,
       operation,
-      timestamp: Date.now()
+      parameters: details.parameters,
+      provider: details.provider,
+      timestamp: Date.now(),
+      variants,
+      selectedVariant: variants ? Math.max(0, variants.indexOf(imageUrl)) : undefined
     };
-    
-    // Remove any history after current index (if user went back and made a new edit)
-    const newHistory = editHistory.slice(0, currentHistoryIndex + 1);
-    newHistory.push(newEntry);
-    
-    setEditHistory(newHistory);
-    setCurrentHistoryIndex(newHistory.length - 1);
-  }, [editHistory, currentHistoryIndex]);
-
-  // Handle AI image processing
-  const handleProcessImage = useCallback(async (operation: string, parameters?: any) => {
+
+    // Editing an earlier state starts a new branch; the newer states stay in the tree
+    setEditHistory([...editHistory, newEntry]);
+    setCurrentEntryId(newEntry.id);
+    setBranchTipId(newEntry.id);
+  }, [editHistory, currentEntryId]);
+
+  const currentEntry = editHistory.find((entry) => entry.id === currentEntryId);
+
+  // The working size applies to every document and is remembered between visits
+  const handleWorkingSizeChange = useCallback((size: WorkingSize) => {
+    workingSizePreference.set(size);
+    setWorkingSize(size);
+  }, []);
+
+  // Handle AI and local image processing
+  const handleProcessImage = useCallback(async (operation: ProcessOperation, parameters?: ProcessParameters) => {
     if (!currentFile || !currentImageUrl) {
       alert('Please upload an image first');
       return;
     }
 
+    // The mask is painted over the previewed variant, which is not in the history yet
+    if (pendingVariants && parameters?.mask) {
+      alert('Keep or discard the variants before a masked edit, so the mask applies to the image it was painted on');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setPendingVariants(null);
+
     setIsProcessing(true);
     setProcessingStatus(`Processing ${operation.replace('-', ' ')}...`);
 
     try {
-      // Convert current image to base64
-      const base64Image = await fileToBase64(currentFile);
-      
-      let result: AIServiceResponse;
-      
-      // Process based on operation type
-      switch (operation) {
-        case 'background-removal':
-          result = await aiImageService.removeBackground(base64Image);
-          break;
-        case 'style-transfer':
-          result = await aiImageService.applyStyleTransfer(base64Image, parameters?.style || 'artistic');
-          break;
-        case 'enhance':
-          result = await aiImageService.enhanceImage(base64Image);
-          break;
-        case 'object-removal':
-          result = await aiImageService.removeObject(base64Image, parameters?.prompt || '');
-          break;
-        case 'artistic-filter':
-          result = await aiImageService.applyArtisticFilter(base64Image, parameters?.style || 'watercolor');
-          break;
-        default:
-          // Custom edit or fallback
-          result = await aiImageService.processImage({
-            image: base64Image,
-            operation: 'enhance',
-            parameters
-          });
+      // Edits chain onto the displayed history state rather than the original upload
+      const sourceEntry = currentEntry;
+
+      // Local edits run in the browser and finish without a round trip
+      if (isLocalOperation(operation)) {
+        const blob = await processingEngine.applyLocalEdit(
+          sourceEntry?.imageUrl ?? originalImageUrl,
+          operation,
+          parameters,
+          controller.signal
+        );
+        const imageUrl = URL.createObjectURL(blob);
+        setCurrentImageUrl(imageUrl);
+        addToHistory(imageUrl, operation, { parameters, provider: { type: 'local' } });
+        setProcessingStatus(`✅ ${operation} applied`);
+        setTimeout(() => setProcessingStatus(''), 3000);
+        return;
       }
 
-      if (result.success && result.data) {
-        // Create new image URL from result
-        let newImageUrl: string;
-        
-        if (result.data.startsWith('http')) {
-          // If it's a URL, use it directly
-          newImageUrl = result.data;
-        } else {
-          // If it's base64, create data URL
-          newImageUrl = `data:image/png;base64,${result.data}`;
+      // Large images go to the provider as a working copy; the history keeps the full-size parameters
+      const input = await prepareAIInput(
+        sourceEntry?.imageUrl ?? originalImageUrl,
+        parameters,
+        workingSize,
+        controller.signal
+      );
+
+      const result = await imageEditClient.runJob(
+        { image: input.image, operation, parameters: input.parameters },
+        (job) => {
+          setActiveJob(job);
+          if (job.message) setProcessingStatus(job.message);
+        },
+        controller.signal
+      );
+
+      // A cancelled edit must leave the history untouched
+      if (controller.signal.aborted || (!result.success && result.cancelled)) {
+        setProcessingStatus('⏹ Edit cancelled');
+        setTimeout(() => setProcessingStatus(''), 3000);
+        return;
+      }
+
+      if (result.success) {
+        const images = result.images.length > 0 ? result.images : [result.imageUrl];
+
+        if (images.length > 1) {
+          // Let the user compare the candidates before one goes into the history
+          setPendingVariants({ operation, images, selected: 0, parameters, provider: result.provider });
+          setCurrentImageUrl(images[0]);
+          setProcessingStatus(`✅ ${images.length} variants ready. Pick one to keep.`);
+          setTimeout(() => setProcessingStatus(''), 3000);
+          return;
         }
-        
-        setCurrentImageUrl(newImageUrl);
-        addToHistory(newImageUrl, operation);
+
+        setCurrentImageUrl(images[0]);
+        addToHistory(images[0], operation, { parameters, provider: result.provider });
         
         setProcessingStatus(`✅ ${operation.replace('-', ' ')} completed successfully!`);
         setTimeout(() => setProcessingStatus(''), 3000);
       } else {
         console.error('AI processing failed:', result.error);
-        alert(`Failed to process image: ${result.error || 'Unknown error'}`);
-        setProcessingStatus('❌ Processing failed');
+        const attempts = result.attempts && result.attempts > 1 ? ` after ${result.attempts} attempts` : '';
+        if (result.failureReason && PROVIDER_UNAVAILABLE_REASONS.includes(result.failureReason)) {
+          alert(`The AI provider is currently unavailable${attempts} (${result.error}). Please try again in a few minutes.`);
+          setProcessingStatus('❌ AI provider unavailable');
+        } else {
+          alert(`Failed to process image: ${result.error || 'Unknown error'}`);
+          setProcessingStatus('❌ Processing failed');
+        }
         setTimeout(() => setProcessingStatus(''), 3000);
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        setProcessingStatus('⏹ Edit cancelled');
+        setTimeout(() => setProcessingStatus(''), 3000);
+        return;
+      }
       console.error('Processing error:', error);
-      alert('An error occurred while processing the image. Please try again.');
+      alert(error instanceof Error
+        ? `An error occurred while processing the image: ${error.message}`
+        : 'An error occurred while processing the image. Please try again.');
       setProcessingStatus('❌ Processing failed');
       setTimeout(() => setProcessingStatus(''), 3000);
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
+      setActiveJob(null);
+    }
+  }, [currentFile, currentImageUrl, originalImageUrl, currentEntry, pendingVariants, workingSize, addToHistory]);
+
+  // Add replayed recipe steps as a chain of edits, onto the shown state or onto a new upload
+  const handleRecipeApplied = useCallback((results: ReplayStepResult[], upload?: RecipeUpload) => {
+    let parentId = upload ? null : currentEntryId;
+    const entries = results.map((result, index): EditHistory => {
+      const entry: EditHistory = {
+        id: crypto.randomUUID(),
+        parentId,
+        imageUrl: result.imageUrl,
+        operation: result.operation,
+        parameters: result.parameters,
+        provider: result.provider,
+        timestamp: Date.now() + index,
+        variants: result.variants,
+        selectedVariant: result.variants ? 0 : undefined
+      };
+      parentId = entry.id;
+      return entry;
+    });
+    const last = entries[entries.length - 1];
+    if (!last) return;
+
+    if (upload) {
+      openDocuments([createDocument({
+        file: upload.file,
+        sourceFormat: upload.sourceFormat,
+        originalImageUrl: upload.imageUrl,
+        entries,
+        currentEntryId: last.id,
+        branchTipId: last.id,
+        createdAt: Date.now()
+      }, crypto.randomUUID())]);
+    } else {
+      setPendingVariants(null);
+      setEditHistory([...editHistory, ...entries]);
+      setCurrentEntryId(last.id);
+      setBranchTipId(last.id);
+      setCurrentImageUrl(last.imageUrl);
     }
-  }, [currentFile, currentImageUrl, addToHistory]);
+    setProcessingStatus(`✅ Recipe applied (${entries.length} ${entries.length === 1 ? 'step' : 'steps'})`);
+    setTimeout(() => setProcessingStatus(''), 3000);
+  }, [currentEntryId, editHistory, openDocuments]);
 
-  // Undo last edit
+  // Preview a variant, either from fresh results or from the current history entry
+  const handleSelectVariant = useCallback((index: number) => {
+    if (pendingVariants) {
+      setPendingVariants({ ...pendingVariants, selected: index });
+      setCurrentImageUrl(pendingVariants.images[index]);
+      return;
+    }
+
+    if (!currentEntry?.variants) return;
+
+    const updatedEntry = { ...currentEntry, imageUrl: currentEntry.variants[index], selectedVariant: index };
+    setEditHistory(editHistory.map((edit) => (edit.id === updatedEntry.id ? updatedEntry : edit)));
+    setCurrentImageUrl(updatedEntry.imageUrl);
+  }, [pendingVariants, editHistory, currentEntry]);
+
+  // Commit the chosen variant, keeping the others in the same history entry
+  const handleCommitVariant = useCallback(() => {
+    if (!pendingVariants) return;
+
+    const { operation, images, selected, parameters, provider } = pendingVariants;
+    addToHistory(images[selected], operation, { variants: images, parameters, provider });
+    setCurrentImageUrl(images[selected]);
+    setPendingVariants(null);
+  }, [pendingVariants, addToHistory]);
+
+  const handleDiscardVariants = useCallback(() => {
+    setPendingVariants(null);
+    setCurrentImageUrl(currentEntry?.imageUrl ?? originalImageUrl);
+  }, [currentEntry, originalImageUrl]);
+
+  // Cancel the in-flight edit
+  const handleCancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Show any state in the tree. Jumping off the active branch makes the jumped-to
+  // branch active, so redo continues along it.
+  const goToEntry = useCallback((id: string | null) => {
+    setPendingVariants(null);
+    setCurrentEntryId(id);
+    setCurrentImageUrl(editHistory.find((entry) => entry.id === id)?.imageUrl ?? originalImageUrl);
+    if (!isAncestor(editHistory, id, branchTipId)) {
+      setBranchTipId(getBranchTip(editHistory, id));
+    }
+  }, [editHistory, originalImageUrl, branchTipId]);
+
+  // Undo steps back to the state the current edit was applied to
   const handleUndo = useCallback(() => {
-    if (currentHistoryIndex > 0) {
-      setCurrentHistoryIndex(currentHistoryIndex - 1);
-      setCurrentImageUrl(editHistory[currentHistoryIndex - 1].imageUrl);
-    } else if (currentHistoryIndex === 0) {
-      // Go back to original
-      setCurrentHistoryIndex(-1);
-      setCurrentImageUrl(originalImageUrl);
+    if (currentEntry) {
+      goToEntry(currentEntry.parentId);
     }
-  }, [currentHistoryIndex, editHistory, originalImageUrl]);
+  }, [currentEntry, goToEntry]);
 
-  // Redo edit
+  // Redo steps forward along the active branch
   const handleRedo = useCallback(() => {
-    if (currentHistoryIndex < editHistory.length - 1) {
-      setCurrentHistoryIndex(currentHistoryIndex + 1);
-      setCurrentImageUrl(editHistory[currentHistoryIndex + 1].imageUrl);
+    const target = getRedoTarget(editHistory, currentEntryId, branchTipId);
+    if (target) {
+      goToEntry(target.id);
     }
-  }, [currentHistoryIndex, editHistory]);
+  }, [editHistory, currentEntryId, branchTipId, goToEntry]);
+
+  const handleRenameCheckpoint = useCallback((id: string, name: string) => {
+    setEditHistory(editHistory.map((entry) => (
+      entry.id === id ? { ...entry, checkpoint: name || undefined } : entry
+    )));
+  }, [editHistory]);
 
-  // Reset to original image
+  // Delete a state and everything edited from it
+  const handleDeleteBranch = useCallback((id: string) => {
+    const entry = editHistory.find((edit) => edit.id === id);
+    if (!entry) return;
+
+    const removed = getDescendantIds(editHistory, id);
+    if (removed.size > 1 && !confirm(`Delete this edit and the ${removed.size - 1} edits made from it?`)) {
+      return;
+    }
+
+    const remaining = deleteBranch(editHistory, id);
+    const nextCurrentId = currentEntryId && removed.has(currentEntryId) ? entry.parentId : currentEntryId;
+    const nextTipId = branchTipId && removed.has(branchTipId) ? nextCurrentId : branchTipId;
+
+    // Free local results nothing refers to any more
+    const keptUrls = new Set(remaining.flatMap((edit) => [edit.imageUrl, ...(edit.variants ?? [])]));
+    editHistory
+      .filter((edit) => removed.has(edit.id))
+      .flatMap((edit) => [edit.imageUrl, ...(edit.variants ?? [])])
+      .filter((url) => url.startsWith('blob:') && !keptUrls.has(url) && url !== originalImageUrl)
+      .forEach((url) => URL.revokeObjectURL(url));
+
+    setEditHistory(remaining);
+    setBranchTipId(nextTipId);
+    if (nextCurrentId !== currentEntryId) {
+      setPendingVariants(null);
+      setCurrentEntryId(nextCurrentId);
+      setCurrentImageUrl(remaining.find((edit) => edit.id === nextCurrentId)?.imageUrl ?? originalImageUrl);
+    }
+  }, [editHistory, currentEntryId, branchTipId, originalImageUrl]);
+
+  // Reset to original image, discarding the whole history tree
   const handleReset = useCallback(() => {
+    if (editHistory.length > 0 && !confirm(`Discard all ${editHistory.length} edits, including every branch and checkpoint?`)) {
+      return;
+    }
+
+    editHistory
+      .flatMap((edit) => [edit.imageUrl, ...(edit.variants ?? [])])
+      .filter((url) => url.startsWith('blob:') && url !== originalImageUrl)
+      .forEach((url) => URL.revokeObjectURL(url));
+
+    setPendingVariants(null);
     setCurrentImageUrl(originalImageUrl);
-    setCurrentHistoryIndex(-1);
+    setCurrentEntryId(null);
+    setBranchTipId(null);
     setEditHistory([]);
-  }, [originalImageUrl]);
+  }, [editHistory, originalImageUrl]);
+
+  const canUndo = currentEntryId !== null;
+  const canRedo = !!getRedoTarget(editHistory, currentEntryId, branchTipId);
+
+  const filmstripDocuments = documents.map((doc): FilmstripDocument => (
+    doc.id === activeDocumentId
+      ? { id: doc.id, name: currentFile?.name ?? doc.file.name, thumbnailUrl: currentImageUrl, editCount: editHistory.length }
+      : {
+          id: doc.id,
+          name: doc.file.name,
+          thumbnailUrl: doc.entries.find((entry) => entry.id === doc.currentEntryId)?.imageUrl ?? doc.originalImageUrl,
+          editCount: doc.entries.length
+        }
+  ));
 
-  const canUndo = currentHistoryIndex >= 0;
-  const canRedo = currentHistoryIndex < editHistory.length - 1;
+  // Every state in the history can be compared against any other
+  const compareSources = useMemo<CompareSource[]>(() => (
+    originalImageUrl
+      ? [
+          { id: 'original', label: 'Original', imageUrl: originalImageUrl },
+          ...editHistory.map((edit, index) => ({
+            id: edit.id,
+            label: `${index + 1}. ${edit.checkpoint ?? edit.operation.replace('-', ' ')}`,
+            imageUrl: edit.imageUrl
+          }))
+        ]
+      : []
+  ), [originalImageUrl, editHistory]);
 
   return (
-    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900" onDragOver={handleDragOver} onDrop={handleDrop}>
       {/* Header */}
       <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -180,35 +806,66 @@ export function ImageEditor() {
               </p>
             </div>
             
-            {/* History Controls */}
-            {currentImageUrl && (
-              <div className="flex items-center space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleUndo}
-                  disabled={!canUndo || isProcessing}
-                >
-                  ↶ Undo
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleRedo}
-                  disabled={!canRedo || isProcessing}
+            <div className="flex items-center space-x-2">
+              {session && saveState !== 'idle' && (
+                <span
+                  className={`text-xs mr-2 ${
+                    saveState === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                  }`}
                 >
-                  ↷ Redo
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleReset}
-                  disabled={!currentImageUrl || isProcessing}
-                >
-                  Reset
+                  {saveState === 'saving' ? 'Saving…' : saveState === 'saved' ? 'Saved in this browser' : 'Autosave failed'}
+                </span>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setIsSessionManagerOpen(true)}>
+                Sessions
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsRecipeDialogOpen(true)} disabled={isProcessing || !!batch}>
+                Recipes
+              </Button>
+              <Button
+                variant={batch ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setBatch(batch ? null : { files: [], recipe: null })}
+                disabled={isProcessing}
+              >
+                Batch
+              </Button>
+              {currentImageUrl && !batch && (
+                <Button variant="outline" size="sm" onClick={handleSaveProject} disabled={isProcessing}>
+                  Save project
                 </Button>
-              </div>
-            )}
+              )}
+
+              {/* History Controls */}
+              {currentImageUrl && !batch && (
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleUndo}
+                    disabled={!canUndo || isProcessing}
+                  >
+                    ↶ Undo
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRedo}
+                    disabled={!canRedo || isProcessing}
+                  >
+                    ↷ Redo
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleReset}
+                    disabled={!currentImageUrl || isProcessing}
+                  >
+                    Reset
+                  </Button>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -217,22 +874,82 @@ export function ImageEditor() {
       {processingStatus && (
         <div className="bg-blue-50 dark:bg-blue-900/20 border-b border-blue-200 dark:border-blue-800">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2">
-            <p className="text-sm text-blue-800 dark:text-blue-200">
-              {processingStatus}
-            </p>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-blue-800 dark:text-blue-200">
+                {processingStatus}
+              </p>
+              {activeJob && (
+                <ol className="flex items-center space-x-2 text-xs">
+                  {JOB_STAGES.map((stage, index) => {
+                    const currentIndex = JOB_STAGES.findIndex((s) => s.status === activeJob.status);
+                    const isFailed = activeJob.status === 'failed' || activeJob.status === 'cancelled';
+                    const isDone = !isFailed && currentIndex > index;
+                    const isCurrent = !isFailed && currentIndex === index;
+                    return (
+                      <li
+                        key={stage.status}
+                        className={`px-2 py-0.5 rounded-full ${
+                          isCurrent
+                            ? 'bg-blue-600 text-white'
+                            : isDone
+                              ? 'bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-100'
+                              : 'bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400'
+                        }`}
+                      >
+                        {stage.label}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </div>
           </div>
         </div>
       )}
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        {!currentImageUrl ? (
+        {batch ? (
+          <BatchProcessor
+            initialFiles={batch.files}
+            initialRecipe={batch.recipe}
+            onClose={() => setBatch(null)}
+          />
+        ) : !currentImageUrl ? (
           /* Upload State */
           <div className="max-w-2xl mx-auto">
+            {/* Offer to pick up where the last visit left off */}
+            {restoreCandidate && (
+              <Card className="mb-6 p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">Restore your previous session?</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {restoreCandidate.name} · {restoreCandidate.editCount}{' '}
+                      {restoreCandidate.editCount === 1 ? 'edit' : 'edits'} · saved{' '}
+                      {new Date(restoreCandidate.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => setRestoreCandidate(null)}>
+                      Not now
+                    </Button>
+                    <Button size="sm" onClick={() => handleRestoreSession(restoreCandidate.id)}>
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            )}
+
             <ImageUploader
               onImageUpload={handleImageUpload}
               disabled={isProcessing}
             />
+            <div className="flex items-center justify-center gap-3 mt-4">
+              <span className="text-sm text-gray-500 dark:text-gray-400">Continuing someone&apos;s work?</span>
+              <OpenProjectButton onOpenProject={handleOpenProject} disabled={isProcessing} />
+            </div>
             
             {/* Features Overview */}
             <Card className="mt-8 p-6">
@@ -261,72 +978,113 @@ export function ImageEditor() {
           </div>
         ) : (
           /* Editor State */
-          <div className="flex gap-6">
-            {/* Left Sidebar - AI Tools */}
-            <div className="flex-shrink-0">
-              <AIToolsSidebar
-                onProcessImage={handleProcessImage}
-                isProcessing={isProcessing}
-                hasImage={!!currentImageUrl}
-              />
-            </div>
-            
-            {/* Main Canvas Area */}
-            <div className="flex-1 min-w-0">
-              <ImageCanvas
-                imageUrl={currentImageUrl}
-                originalImage={originalImageUrl}
-                isProcessing={isProcessing}
-                className="w-full"
-              />
+          <>
+            <DocumentFilmstrip
+              documents={filmstripDocuments}
+              activeId={activeDocumentId}
+              onSelect={handleSelectDocument}
+              onClose={handleCloseDocument}
+              onAdd={(files) => importImages({ files, urls: [] })}
+              onBatch={() => setBatch({
+                files: documents.map((doc) => (doc.id === activeDocumentId && currentFile ? currentFile : doc.file)),
+                recipe: null
+              })}
+              disabled={isProcessing}
+            />
+            <div className="flex gap-6">
+              {/* Left Sidebar - AI Tools */}
+              <div className="flex-shrink-0">
+                <AIToolsSidebar
+                  onProcessImage={handleProcessImage}
+                  onCancel={handleCancelProcessing}
+                  isProcessing={isProcessing}
+                  hasImage={!!currentImageUrl}
+                  mask={mask}
+                />
+              </div>
               
-              {/* Edit History */}
-              {editHistory.length > 0 && (
-                <Card className="mt-4 p-4">
-                  <h3 className="text-sm font-medium mb-3">Edit History</h3>
-                  <div className="flex flex-wrap gap-2">
-                    <Button
-                      variant={currentHistoryIndex === -1 ? "default" : "outline"}
-                      size="sm"
-                      onClick={() => {
-                        setCurrentHistoryIndex(-1);
-                        setCurrentImageUrl(originalImageUrl);
-                      }}
-                      disabled={isProcessing}
-                    >
-                      Original
-                    </Button>
-                    {editHistory.map((edit, index) => (
-                      <Button
-                        key={edit.timestamp}
-                        variant={currentHistoryIndex === index ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => {
-                          setCurrentHistoryIndex(index);
-                          setCurrentImageUrl(edit.imageUrl);
-                        }}
-                        disabled={isProcessing}
-                      >
-                        {edit.operation.replace('-', ' ')}
-                      </Button>
-                    ))}
-                  </div>
-                </Card>
-              )}
-            </div>
-            
-            {/* Right Sidebar - Export */}
-            <div className="flex-shrink-0">
-              <ExportPanel
-                imageData={currentImageUrl}
-                originalImageName={currentFile?.name}
-                isProcessing={isProcessing}
-              />
+              {/* Main Canvas Area */}
+              <div className="flex-1 min-w-0">
+                <WorkingSizeNotice
+                  originalUrl={originalImageUrl}
+                  imageUrl={currentImageUrl}
+                  workingSize={workingSize}
+                  onWorkingSizeChange={handleWorkingSizeChange}
+                  disabled={isProcessing}
+                />
+                <ImageCanvas
+                  imageUrl={currentImageUrl}
+                  compareSources={compareSources}
+                  isProcessing={isProcessing}
+                  onCancelProcessing={handleCancelProcessing}
+                  variants={pendingVariants?.images ?? currentEntry?.variants}
+                  selectedVariant={pendingVariants?.selected ?? currentEntry?.selectedVariant}
+                  onSelectVariant={handleSelectVariant}
+                  onCommitVariant={pendingVariants ? handleCommitVariant : undefined}
+                  onDiscardVariants={pendingVariants ? handleDiscardVariants : undefined}
+                  onMaskChange={setMask}
+                  onApplyTransform={handleProcessImage}
+                  className="w-full"
+                />
+                
+                {/* Edit History */}
+                {editHistory.length > 0 && (
+                  <HistoryTree
+                    entries={editHistory}
+                    originalImageUrl={originalImageUrl}
+                    currentId={currentEntryId}
+                    tipId={branchTipId}
+                    onSelect={goToEntry}
+                    onRenameCheckpoint={handleRenameCheckpoint}
+                    onDeleteBranch={handleDeleteBranch}
+                    disabled={isProcessing}
+                  />
+                )}
+              </div>
+              
+              {/* Right Sidebar - Export */}
+              <div className="flex-shrink-0">
+                <ExportPanel
+                  imageData={currentImageUrl}
+                  originalImageName={currentFile?.name}
+                  sourceFile={currentFile}
+                  defaultFormat={defaultExportFormat(sourceFormat)}
+                  isProcessing={isProcessing}
+                />
+                <ImageInfoPanel file={currentFile} sourceFormat={sourceFormat} />
+              </div>
             </div>
-          </div>
+          </>
         )}
       </div>
 
+      <SessionManager
+        open={isSessionManagerOpen}
+        onOpenChange={setIsSessionManagerOpen}
+        currentSessionId={session?.id ?? null}
+        onRestore={handleRestoreSession}
+        onDeleted={handleSessionsDeleted}
+      />
+
+      <TiffPagePicker
+        file={pendingTiffs[0] ?? null}
+        onOpen={handleOpenTiffPages}
+        onCancel={() => setPendingTiffs((pending) => pending.slice(1))}
+      />
+
+      <RecipeDialog
+        open={isRecipeDialogOpen}
+        onOpenChange={setIsRecipeDialogOpen}
+        historyPath={getPath(editHistory, currentEntryId)}
+        currentImageUrl={pendingVariants ? '' : currentImageUrl}
+        imageName={currentFile?.name}
+        onApplied={handleRecipeApplied}
+        onApplyToBatch={(recipe) => {
+          setIsRecipeDialogOpen(false);
+          setBatch({ files: [], recipe });
+        }}
+      />
+
       {/* Footer */}
       <footer className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 mt-12">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
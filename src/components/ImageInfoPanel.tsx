@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { FORMAT_LABELS, NATIVE_FORMATS, type SourceFormat } from '@/lib/formats';
+import { formatFileSize } from '@/lib/imageUtils';
+import { readImageMetadata, type GpsPosition, type ImageMetadata } from '@/lib/metadata';
+
+interface ImageInfoPanelProps {
+  file: File | null; // The document's original image, which holds its metadata
+  sourceFormat?: SourceFormat;
+}
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(5)}° ${value < 0 ? negative : positive}`;
+
+const formatGps = ({ latitude, longitude, altitude }: GpsPosition) =>
+  [
+    formatCoordinate(latitude, 'N', 'S'),
+    formatCoordinate(longitude, 'E', 'W'),
+    altitude !== undefined && `${Math.round(altitude)} m`
+  ].filter(Boolean).join(', ');
+
+export function ImageInfoPanel({ file, sourceFormat }: ImageInfoPanelProps) {
+  const [metadata, setMetadata] = useState<{ file: File; value: ImageMetadata } | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    file.arrayBuffer()
+      .then((buffer) => {
+        if (!cancelled) setMetadata({ file, value: readImageMetadata(new Uint8Array(buffer)) });
+      })
+      .catch((error) => console.error('Failed to read image metadata:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  if (!file) return null;
+
+  // Ignore a result left over from the previous file while the new one is read
+  const info = metadata?.file === file ? metadata.value : null;
+  const rows: Array<[string, React.ReactNode]> = [
+    ['File', file.name],
+    ['Size', formatFileSize(file.size)]
+  ];
+  if (sourceFormat) {
+    rows.push(['Format', NATIVE_FORMATS.includes(sourceFormat)
+      ? FORMAT_LABELS[sourceFormat]
+      : `${FORMAT_LABELS[sourceFormat]}, converted to PNG`]);
+  }
+
+  if (info) {
+    const fields: Array<[string, React.ReactNode | undefined]> = [
+      ['Camera', info.camera],
+      ['Lens', info.lens],
+      ['Taken', info.dateTaken],
+      ['Exposure', info.exposure],
+      ['GPS', info.gps && (
+        <a
+          href={`https://www.openstreetmap.org/?mlat=${info.gps.latitude}&mlon=${info.gps.longitude}#map=15/${info.gps.latitude}/${info.gps.longitude}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {formatGps(info.gps)}
+        </a>
+      )],
+      ['Location', info.location],
+      ['Title', info.title],
+      ['Description', info.description],
+      ['Author', info.author],
+      ['Copyright', info.copyright],
+      ['Keywords', info.keywords?.join(', ')],
+      ['Software', info.software]
+    ];
+    rows.push(...fields.filter((field): field is [string, React.ReactNode] => Boolean(field[1])));
+  }
+
+  return (
+    <Card className="w-80 mt-4">
+      <div className="p-4 border-b">
+        <h3 className="text-lg font-semibold">Image Info</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {!info
+            ? 'Reading metadata...'
+            : info.sources.length > 0
+              ? `From ${info.sources.join(', ')} metadata of the original`
+              : 'The original has no EXIF, IPTC or XMP metadata'}
+        </p>
+      </div>
+
+      <dl className="p-4 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-sm">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+            <dd className="font-medium break-words min-w-0">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </Card>
+  );
+}
@@ -1,40 +1,64 @@
 'use client';
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { validateImageFile, formatFileSize } from '@/lib/imageUtils';
+import { Input } from '@/components/ui/input';
+import { validateImageFile, formatFileSize, MAX_UPLOAD_BYTES } from '@/lib/imageUtils';
+import { importImageFromUrl } from '@/lib/imageImport';
+import { FORMAT_LABELS, INPUT_ACCEPT, SOURCE_FORMATS } from '@/lib/formats';
 
 interface ImageUploaderProps {
-  onImageUpload: (file: File) => void;
+  onImageUpload: (files: File[]) => void; // Every valid file of a drop or pick
   disabled?: boolean;
   currentImage?: string;
 }
 
 export function ImageUploader({ onImageUpload, disabled, currentImage }: ImageUploaderProps) {
+  const [importUrl, setImportUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      const validation = validateImageFile(file);
-      
-      if (validation.valid) {
-        onImageUpload(file);
-      } else {
-        alert(validation.error);
-      }
+    if (acceptedFiles.length === 0) return;
+
+    const valid = acceptedFiles.filter((file) => validateImageFile(file).valid);
+    if (valid.length < acceptedFiles.length) {
+      alert(acceptedFiles.length === 1
+        ? validateImageFile(acceptedFiles[0]).error
+        : `${acceptedFiles.length - valid.length} of the files are not supported images and were skipped.`);
+    }
+    if (valid.length > 0) {
+      onImageUpload(valid);
     }
   }, [onImageUpload]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.gif']
-    },
-    multiple: false,
+    accept: INPUT_ACCEPT,
+    multiple: true,
     disabled
   });
 
+  const handleImportUrl = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const url = importUrl.trim();
+    if (!url) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const file = await importImageFromUrl(url);
+      setImportUrl('');
+      onImageUpload([file]);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to import the image');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <Card className="w-full">
       <div
@@ -78,11 +102,14 @@ export function ImageUploader({ onImageUpload, disabled, currentImage }: ImageUp
               
               <div>
                 <p className="text-lg font-medium text-gray-900 dark:text-gray-100">
-                  {isDragActive ? 'Drop your image here' : 'Upload an image to start editing'}
+                  {isDragActive ? 'Drop your images here' : 'Upload an image to start editing'}
                 </p>
                 <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                   Drag and drop an image file, or click to browse
                 </p>
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                  Several images open side by side. You can also paste an image with Ctrl+V or drag one in from another tab.
+                </p>
               </div>
               
               <div className="flex flex-col sm:flex-row gap-2 justify-center items-center">
@@ -102,11 +129,40 @@ export function ImageUploader({ onImageUpload, disabled, currentImage }: ImageUp
           )}
           
           <div className="text-xs text-gray-400 dark:text-gray-500 space-y-1">
-            <p>Supported formats: JPEG, PNG, WebP, GIF</p>
-            <p>Maximum file size: 10MB</p>
+            <p>Supported formats: {SOURCE_FORMATS.map((format) => FORMAT_LABELS[format]).join(', ')}</p>
+            <p>Maximum file size: {formatFileSize(MAX_UPLOAD_BYTES)}</p>
           </div>
         </div>
       </div>
+
+      {!currentImage && (
+        <form onSubmit={handleImportUrl} className="px-6 space-y-2">
+          <label htmlFor="import-url" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Import from URL
+          </label>
+          <div className="flex gap-2">
+            <Input
+              id="import-url"
+              type="url"
+              inputMode="url"
+              placeholder="https://example.com/photo.jpg"
+              value={importUrl}
+              onChange={(e) => {
+                setImportUrl(e.target.value);
+                setImportError(null);
+              }}
+              disabled={disabled || isImporting}
+              aria-invalid={importError ? true : undefined}
+            />
+            <Button type="submit" variant="outline" disabled={disabled || isImporting || !importUrl.trim()}>
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+          {importError && (
+            <p className="text-xs text-red-600 dark:text-red-400">{importError}</p>
+          )}
+        </form>
+      )}
     </Card>
   );
 }
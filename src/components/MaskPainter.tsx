@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import { blobToBase64, type ImageDimensions } from '@/lib/imageUtils';
+
+export type MaskTool = 'brush' | 'eraser';
+
+interface MaskPainterProps {
+  // Full resolution of the image being edited; the mask is painted at this size
+  imageSize: ImageDimensions;
+  tool: MaskTool;
+  brushSize: number; // Screen pixels
+  feather: number; // Screen pixels
+  onChange: (mask: string | null) => void;
+  disabled?: boolean;
+}
+
+const PREVIEW_COLOR = 'rgb(239, 68, 68)';
+
+/**
+ * Render painted strokes as a black and white PNG: white where the image may change
+ */
+const exportMask = (strokes: HTMLCanvasElement, featherPx: number): Promise<string> => {
+  const { width, height } = strokes;
+
+  const white = document.createElement('canvas');
+  white.width = width;
+  white.height = height;
+  const whiteCtx = white.getContext('2d');
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outputCtx = output.getContext('2d');
+
+  if (!whiteCtx || !outputCtx) {
+    return Promise.reject(new Error('Canvas context not available'));
+  }
+
+  // Recolour the preview strokes to white, keeping their coverage
+  whiteCtx.drawImage(strokes, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#fff';
+  whiteCtx.fillRect(0, 0, width, height);
+
+  outputCtx.fillStyle = '#000';
+  outputCtx.fillRect(0, 0, width, height);
+  if (featherPx > 0) {
+    outputCtx.filter = `blur(${featherPx}px)`;
+  }
+  outputCtx.drawImage(white, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    output.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to encode mask'));
+        return;
+      }
+      blobToBase64(blob).then(resolve, reject);
+    }, 'image/png');
+  });
+};
+
+/**
+ * Transparent overlay for painting an inpainting mask over the canvas.
+ * Strokes are kept at the image's full resolution so the mask lines up
+ * with the original pixels regardless of the display size.
+ */
+export function MaskPainter({
+  imageSize,
+  tool,
+  brushSize,
+  feather,
+  onChange,
+  disabled = false
+}: MaskPainterProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const hasPaintRef = useRef(false);
+
+  // Image pixels per screen pixel
+  const getScale = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    const rect = canvas.getBoundingClientRect();
+    return rect.width > 0 ? canvas.width / rect.width : 1;
+  };
+
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const scale = getScale();
+    return {
+      x: (event.clientX - rect.left) * scale,
+      y: (event.clientY - rect.top) * scale
+    };
+  };
+
+  const paintSegment = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = PREVIEW_COLOR;
+    ctx.lineWidth = brushSize * getScale();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const emitMask = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasPaintRef.current) return;
+
+    exportMask(canvas, feather * getScale())
+      .then(onChange)
+      .catch((error) => console.error('Failed to export mask:', error));
+  }, [feather, onChange]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const point = toImagePoint(event);
+    lastPointRef.current = point;
+    hasPaintRef.current = true;
+    paintSegment(point, point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toImagePoint(event);
+    paintSegment(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    emitMask();
+  };
+
+  // Feathering is applied on export, so a new feather amount needs a fresh mask
+  useEffect(() => {
+    emitMask();
+  }, [emitMask]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={imageSize.width}
+      height={imageSize.height}
+      className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair"
+      style={{
+        touchAction: 'none',
+        filter: feather > 0 ? `blur(${feather}px)` : undefined
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { PROJECT_FILE_EXTENSION } from '@/lib/project/manifest';
+
+interface OpenProjectButtonProps {
+  onOpenProject: (file: File) => void;
+  disabled?: boolean;
+}
+
+export function OpenProjectButton({ onOpenProject, disabled }: OpenProjectButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},.zip,application/zip`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Clear the input so the same file can be picked again
+          e.target.value = '';
+          if (file) onOpenProject(file);
+        }}
+      />
+      <Button variant="outline" onClick={() => inputRef.current?.click()} disabled={disabled}>
+        Open project
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { RecipeStepEditor } from './RecipeStepEditor';
+import type { EditHistory } from '@/lib/history';
+import { validateImageFile } from '@/lib/imageUtils';
+import { INPUT_ACCEPT_ATTRIBUTE } from '@/lib/formats';
+import { prepareImageFile, type DecodedImage } from '@/lib/formats/codecs';
+import {
+  RECIPE_FILE_EXTENSION,
+  RecipeError,
+  buildRecipe,
+  createRecipe,
+  parseRecipe,
+  validateRecipeStep,
+  type Recipe,
+  type RecipeStep
+} from '@/lib/recipes/recipe';
+import { RecipeReplayError, replayRecipe, type ReplayStepResult } from '@/lib/recipes/replay';
+
+interface EditableStep {
+  step: RecipeStep;
+  enabled: boolean;
+}
+
+interface StepRun {
+  stepIndex: number; // Index into the enabled steps
+  message?: string;
+  failed?: boolean;
+}
+
+export interface RecipeUpload extends DecodedImage {
+  imageUrl: string;
+}
+
+interface RecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  historyPath: EditHistory[]; // Edits leading to the shown image
+  currentImageUrl: string;
+  imageName?: string;
+  onApplied: (results: ReplayStepResult[], upload?: RecipeUpload) => void;
+  onApplyToBatch: (recipe: Recipe) => void;
+}
+
+const baseName = (name: string) => name.replace(/\.[^/.]+$/, '') || 'image';
+
+const fileSlug = (name: string) => name.trim().toLowerCase().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'recipe';
+
+// Local results of a replay that is not kept are not shown anywhere
+const revokeResults = (results: ReplayStepResult[]) => {
+  results
+    .flatMap((result) => [result.imageUrl, ...(result.variants ?? [])])
+    .filter((url) => url.startsWith('blob:'))
+    .forEach((url) => URL.revokeObjectURL(url));
+};
+
+export function RecipeDialog({
+  open,
+  onOpenChange,
+  historyPath,
+  currentImageUrl,
+  imageName,
+  onApplied,
+  onApplyToBatch
+}: RecipeDialogProps) {
+  const [name, setName] = useState('');
+  const [steps, setSteps] = useState<EditableStep[]>([]);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [run, setRun] = useState<StepRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  // Leaving the dialog stops whatever is still replaying
+  useEffect(() => {
+    if (!open) abortControllerRef.current?.abort();
+  }, [open]);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const activeSteps = steps.filter((item) => item.enabled).map((item) => item.step);
+  const isValid = activeSteps.length > 0 && activeSteps.every((step) => validateRecipeStep(step) === null);
+
+  const loadRecipe = (recipe: Recipe, skipped = 0) => {
+    setName(recipe.name);
+    setSteps(recipe.steps.map((step) => ({ step, enabled: true })));
+    setSkippedCount(skipped);
+    setRun(null);
+  };
+
+  const loadFromHistory = () => {
+    const { recipe, skipped } = createRecipe(`${baseName(imageName ?? 'image')} recipe`, historyPath);
+    loadRecipe(recipe, skipped.length);
+  };
+
+  const loadFromFile = async (file: File) => {
+    try {
+      loadRecipe(parseRecipe(await file.text()));
+    } catch (error) {
+      console.error('Failed to load recipe:', error);
+      alert(error instanceof RecipeError ? `Could not load the recipe: ${error.message}` : 'Failed to read the recipe file.');
+    }
+  };
+
+  const saveRecipe = () => {
+    const recipe = buildRecipe(name, activeSteps);
+    const json = JSON.stringify(recipe, null, 2);
+    saveAs(new Blob([json], { type: 'application/json' }), `${fileSlug(recipe.name)}${RECIPE_FILE_EXTENSION}`);
+  };
+
+  const stepStatus = (enabledIndex: number): 'running' | 'done' | 'failed' | undefined => {
+    if (!run) return undefined;
+    if (enabledIndex < run.stepIndex) return 'done';
+    if (enabledIndex === run.stepIndex) return run.failed ? 'failed' : 'running';
+    return undefined;
+  };
+
+  // Replay into the editor, either onto the shown image or onto a freshly chosen one
+  const applyToEditor = async (upload?: RecipeUpload) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setRun({ stepIndex: 0 });
+
+    try {
+      const results = await replayRecipe(
+        upload?.imageUrl ?? currentImageUrl,
+        activeSteps,
+        (progress) => setRun(progress),
+        controller.signal
+      );
+      setRun({ stepIndex: activeSteps.length });
+      onApplied(results, upload);
+      onOpenChange(false);
+    } catch (error) {
+      if (!(error instanceof RecipeReplayError)) throw error;
+
+      const { completed, cancelled } = error;
+      setRun(cancelled ? null : { stepIndex: error.stepIndex, failed: true });
+      if (!cancelled && completed.length === 0) {
+        alert(error.message);
+      }
+      const keep = completed.length > 0 && !cancelled &&
+        confirm(`${error.message}\n\nKeep the ${completed.length} ${completed.length === 1 ? 'step' : 'steps'} that finished?`);
+      if (keep) {
+        onApplied(completed, upload);
+      } else {
+        revokeResults(completed);
+        if (upload) URL.revokeObjectURL(upload.imageUrl);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const applyToUpload = async (file: File) => {
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      alert(validation.error || 'Invalid file');
+      return;
+    }
+    let decoded: DecodedImage;
+    try {
+      // Multi-page TIFFs use their first page here
+      decoded = await prepareImageFile(file);
+    } catch (error) {
+      console.error('Failed to decode image:', error);
+      alert(error instanceof Error ? error.message : 'Failed to open the image');
+      return;
+    }
+    applyToEditor({ ...decoded, imageUrl: URL.createObjectURL(decoded.file) });
+  };
+
+  const pickFile = (input: React.RefObject<HTMLInputElement | null>) => input.current?.click();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recipes</DialogTitle>
+          <DialogDescription>
+            A recipe keeps the steps of an edit and their settings, so they can be replayed on other images.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={recipeInputRef}
+          type="file"
+          accept={`${RECIPE_FILE_EXTENSION},.json,application/json`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) loadFromFile(file);
+          }}
+        />
+        <input
+          ref={uploadInputRef}
+          type="file"
+          accept={INPUT_ACCEPT_ATTRIBUTE}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) applyToUpload(file);
+          }}
+        />
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={loadFromHistory} disabled={isRunning || historyPath.length === 0}>
+            Use current edits
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => pickFile(recipeInputRef)} disabled={isRunning}>
+            Load recipe file
+          </Button>
+        </div>
+
+        {steps.length > 0 && (
+          <div className="space-y-3">
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Recipe name" disabled={isRunning} />
+            {skippedCount > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {skippedCount} {skippedCount === 1 ? 'edit was' : 'edits were'} left out because{' '}
+                {skippedCount === 1 ? 'it depends' : 'they depend'} on a mask painted on this image.
+              </p>
+            )}
+
+            <ul className="divide-y">
+              {steps.map((item, index) => {
+                const enabledIndex = steps.slice(0, index).filter((previous) => previous.enabled).length;
+                return (
+                  <RecipeStepEditor
+                    key={index}
+                    index={index}
+                    step={item.step}
+                    enabled={item.enabled}
+                    status={item.enabled ? stepStatus(enabledIndex) : undefined}
+                    message={run?.message}
+                    onChange={(step) => setSteps(steps.map((other, i) => (i === index ? { ...other, step } : other)))}
+                    onToggle={(enabled) => setSteps(steps.map((other, i) => (i === index ? { ...other, enabled } : other)))}
+                    disabled={isRunning}
+                  />
+                );
+              })}
+            </ul>
+
+            <div className="flex flex-wrap gap-2 justify-end">
+              <Button variant="outline" size="sm" onClick={saveRecipe} disabled={isRunning || !isValid}>
+                Save recipe
+              </Button>
+              {currentImageUrl && (
+                <Button size="sm" onClick={() => applyToEditor()} disabled={isRunning || !isValid}>
+                  Apply to current image
+                </Button>
+              )}
+              <Button size="sm" onClick={() => pickFile(uploadInputRef)} disabled={isRunning || !isValid}>
+                Apply to new image…
+              </Button>
+              <Button size="sm" onClick={() => onApplyToBatch(buildRecipe(name, activeSteps))} disabled={isRunning || !isValid}>
+                Apply to batch…
+              </Button>
+              {isRunning && (
+                <Button variant="outline" size="sm" onClick={() => abortControllerRef.current?.abort()}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+      </DialogContent>
+    </Dialog>
+  );
+}
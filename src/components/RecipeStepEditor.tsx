@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { validateRecipeStep, type RecipeStep } from '@/lib/recipes/recipe';
+
+type ParameterValue = string | number;
+
+interface ParameterField {
+  path: string[];
+  value: ParameterValue;
+}
+
+// Every editable value in a step's parameters, including nested ones such as adjustments.brightness
+const collectFields = (value: unknown, path: string[] = []): ParameterField[] => {
+  if (typeof value === 'string' || typeof value === 'number') {
+    return [{ path, value }];
+  }
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, child]) => collectFields(child, [...path, key]));
+  }
+  return [];
+};
+
+const setIn = (target: Record<string, unknown>, [key, ...rest]: string[], value: ParameterValue): Record<string, unknown> => ({
+  ...target,
+  [key]: rest.length === 0 ? value : setIn((target[key] ?? {}) as Record<string, unknown>, rest, value)
+});
+
+const fieldLabel = (path: string[]) =>
+  path.map((key) => key.replace(/([A-Z])/g, ' $1').toLowerCase()).join(' › ');
+
+interface RecipeStepEditorProps {
+  index: number;
+  step: RecipeStep;
+  enabled: boolean;
+  status?: 'running' | 'done' | 'failed';
+  message?: string;
+  onChange: (step: RecipeStep) => void;
+  onToggle: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+export function RecipeStepEditor({
+  index,
+  step,
+  enabled,
+  status,
+  message,
+  onChange,
+  onToggle,
+  disabled
+}: RecipeStepEditorProps) {
+  const fields = collectFields(step.parameters);
+  const error = enabled ? validateRecipeStep(step) : null;
+
+  const updateField = (path: string[], raw: string, previous: ParameterValue) => {
+    // Keep numbers numeric; an unparsable entry is left for validation to report
+    const value = typeof previous === 'number' ? (raw.trim() === '' ? Number.NaN : Number(raw)) : raw;
+    onChange({ ...step, parameters: setIn(step.parameters ?? {}, path, value) as RecipeStep['parameters'] });
+  };
+
+  return (
+    <li className={`py-2 ${enabled ? '' : 'opacity-50'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Checkbox checked={enabled} onCheckedChange={(checked) => onToggle(checked === true)} disabled={disabled} />
+          {index + 1}. {step.operation.replace('-', ' ')}
+        </label>
+        {status && (
+          <span
+            className={`text-xs ${
+              status === 'failed'
+                ? 'text-red-600 dark:text-red-400'
+                : status === 'done'
+                  ? 'text-green-600 dark:text-green-400'
+                  : 'text-blue-600 dark:text-blue-400'
+            }`}
+          >
+            {status === 'running' ? message || 'Running…' : status === 'done' ? 'Done' : 'Failed'}
+          </span>
+        )}
+      </div>
+
+      {enabled && fields.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 mt-2 pl-6">
+          {fields.map(({ path, value }) => (
+            <label key={path.join('.')} className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+              <span>{fieldLabel(path)}</span>
+              <Input
+                type={typeof value === 'number' ? 'number' : 'text'}
+                value={typeof value === 'number' && Number.isNaN(value) ? '' : value}
+                onChange={(e) => updateField(path, e.target.value, value)}
+                disabled={disabled}
+                className="h-8"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400 mt-1 pl-6">{error}</p>}
+    </li>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { formatFileSize } from '@/lib/imageUtils';
+import { sessionStore } from '@/lib/sessions/sessionStore';
+import type { SessionSummary, StorageQuota } from '@/lib/sessions/types';
+
+interface SessionManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentSessionId: string | null;
+  onRestore: (id: string) => void;
+  onDeleted: (ids: string[]) => void;
+}
+
+export function SessionManager({
+  open,
+  onOpenChange,
+  currentSessionId,
+  onRestore,
+  onDeleted
+}: SessionManagerProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [quota, setQuota] = useState<StorageQuota | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, estimate] = await Promise.all([sessionStore.list(), sessionStore.getQuota()]);
+      setSessions(list);
+      setQuota(estimate);
+    } catch (error) {
+      console.error('Failed to read saved sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const runAndRefresh = async (action: () => Promise<void>, deletedIds: string[]) => {
+    setIsBusy(true);
+    try {
+      await action();
+      onDeleted(deletedIds);
+    } catch (error) {
+      console.error('Failed to delete saved sessions:', error);
+      alert('Failed to delete saved sessions. Please try again.');
+    } finally {
+      setIsBusy(false);
+      refresh();
+    }
+  };
+
+  const deleteSession = (id: string) => runAndRefresh(() => sessionStore.delete(id), [id]);
+
+  const deleteAll = () => {
+    if (!confirm('Delete every saved session? This cannot be undone.')) return;
+    runAndRefresh(() => sessionStore.clear(), sessions.map((session) => session.id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Saved sessions</DialogTitle>
+          <DialogDescription>
+            Sessions are saved automatically in this browser while you edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {quota && (
+          <div className="space-y-1">
+            <Progress value={(quota.usage / quota.quota) * 100} />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatFileSize(quota.usage)} of {formatFileSize(quota.quota)} browser storage used
+            </p>
+          </div>
+        )}
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">No saved sessions</p>
+        ) : (
+          <ul className="divide-y max-h-80 overflow-y-auto">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {session.name}
+                    {session.id === currentSessionId && (
+                      <span className="ml-2 text-xs font-normal text-blue-600 dark:text-blue-400">Open now</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {session.editCount} {session.editCount === 1 ? 'edit' : 'edits'} · {formatFileSize(session.bytes)} ·{' '}
+                    {new Date(session.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRestore(session.id)}
+                    disabled={isBusy || session.id === currentSessionId}
+                  >
+                    Open
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => deleteSession(session.id)}
+                    disabled={isBusy}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {sessions.length > 1 && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={deleteAll} disabled={isBusy}>
+              Delete all
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { readTiffPages, type TiffPage } from '@/lib/formats/codecs';
+
+interface TiffPagePickerProps {
+  file: File | null; // The multi-page TIFF waiting to be opened; closed when null
+  onOpen: (file: File, pages: number[]) => void;
+  onCancel: () => void;
+}
+
+export function TiffPagePicker({ file, onOpen, onCancel }: TiffPagePickerProps) {
+  const [pages, setPages] = useState<{ file: File; list: TiffPage[] } | null>(null);
+  const [selected, setSelected] = useState<number[]>([0]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setSelected([0]);
+    setError(null);
+    readTiffPages(file)
+      .then((list) => {
+        if (!cancelled) setPages({ file, list });
+      })
+      .catch((readError) => {
+        console.error('Failed to read TIFF pages:', readError);
+        if (!cancelled) setError('The pages of this TIFF could not be read.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Ignore the pages of the previous file while the next one is read
+  const list = pages && pages.file === file ? pages.list : null;
+
+  const toggle = (index: number) =>
+    setSelected((current) => (current.includes(index)
+      ? current.filter((page) => page !== index)
+      : [...current, index].sort((a, b) => a - b)));
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Choose pages</DialogTitle>
+          <DialogDescription>
+            {file?.name} has {list ? list.length : 'several'} pages. Each page you choose opens as an image of its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : !list ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Reading pages...</p>
+        ) : (
+          <ul className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+            {list.map((page) => (
+              <li key={page.index}>
+                <button
+                  type="button"
+                  onClick={() => toggle(page.index)}
+                  aria-pressed={selected.includes(page.index)}
+                  className={`block w-full rounded border-2 overflow-hidden transition-colors ${
+                    selected.includes(page.index)
+                      ? 'border-blue-600'
+                      : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                  }`}
+                >
+                  <img
+                    src={page.thumbnailUrl}
+                    alt={`Page ${page.index + 1}`}
+                    className="w-full h-28 object-contain bg-gray-100 dark:bg-gray-800"
+                  />
+                </button>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 text-center">
+                  Page {page.index + 1} · {page.width}×{page.height}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSelected(list?.map((page) => page.index) ?? [])}
+            disabled={!list}
+          >
+            Select all
+          </Button>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => file && onOpen(file, selected)}
+              disabled={!list || selected.length === 0}
+            >
+              Open {selected.length === 1 ? 'page' : `${selected.length} pages`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
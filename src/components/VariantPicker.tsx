@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious
+} from '@/components/ui/carousel';
+
+interface VariantPickerProps {
+  variants: string[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  // Present while the variants are fresh results that are not yet in the history
+  onCommit?: () => void;
+  onDiscard?: () => void;
+  disabled?: boolean;
+}
+
+export function VariantPicker({
+  variants,
+  selectedIndex,
+  onSelect,
+  onCommit,
+  onDiscard,
+  disabled = false
+}: VariantPickerProps) {
+  const isPending = !!onCommit;
+
+  return (
+    <div className="p-4 border-t">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <span className="text-sm font-medium">
+            {isPending ? 'Choose a variant' : 'Variants'}
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">
+            {selectedIndex + 1} of {variants.length}
+          </span>
+        </div>
+        {isPending && (
+          <div className="flex items-center space-x-2">
+            {onDiscard && (
+              <Button variant="outline" size="sm" onClick={onDiscard} disabled={disabled}>
+                Discard
+              </Button>
+            )}
+            <Button size="sm" onClick={onCommit} disabled={disabled}>
+              Use this variant
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Carousel opts={{ align: 'start' }} className="mx-10">
+        <CarouselContent>
+          {variants.map((variant, index) => (
+            <CarouselItem key={index} className="basis-1/2 md:basis-1/3 lg:basis-1/4">
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                disabled={disabled}
+                className={`block w-full rounded border-2 overflow-hidden transition-colors ${
+                  index === selectedIndex
+                    ? 'border-blue-600'
+                    : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                <img
+                  src={variant}
+                  alt={`Variant ${index + 1}`}
+                  className="w-full h-24 object-contain bg-gray-100 dark:bg-gray-800"
+                />
+              </button>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious />
+        <CarouselNext />
+      </Carousel>
+    </div>
+  );
+}
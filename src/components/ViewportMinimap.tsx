@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import type { ImageDimensions } from '@/lib/imageUtils';
+import { getVisibleRect, type ViewState } from '@/lib/viewport';
+
+interface ViewportMinimapProps {
+  image: HTMLImageElement;
+  imageSize: ImageDimensions;
+  view: ViewState;
+  viewportSize: ImageDimensions;
+  // Image coordinates the user wants centred
+  onNavigate: (imageX: number, imageY: number) => void;
+}
+
+const MINIMAP_SIZE = 160;
+
+/**
+ * Thumbnail of the whole image with the visible region outlined; click or drag to move around
+ */
+export function ViewportMinimap({ image, imageSize, view, viewportSize, onNavigate }: ViewportMinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const thumbScale = MINIMAP_SIZE / Math.max(imageSize.width, imageSize.height);
+  const width = Math.round(imageSize.width * thumbScale);
+  const height = Math.round(imageSize.height * thumbScale);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+  }, [image, width, height]);
+
+  const visible = getVisibleRect(view, imageSize, viewportSize);
+
+  const navigate = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onNavigate(
+      ((event.clientX - rect.left) / rect.width) * imageSize.width,
+      ((event.clientY - rect.top) / rect.height) * imageSize.height
+    );
+  };
+
+  return (
+    <div
+      className="absolute bottom-2 right-2 z-[5] bg-black/70 p-1 rounded shadow cursor-pointer"
+      style={{ touchAction: 'none' }}
+      onPointerDown={(event) => {
+        event.stopPropagation();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        isDraggingRef.current = true;
+        navigate(event);
+      }}
+      onPointerMove={(event) => isDraggingRef.current && navigate(event)}
+      onPointerUp={() => { isDraggingRef.current = false; }}
+      onPointerCancel={() => { isDraggingRef.current = false; }}
+    >
+      <div className="relative" style={{ width, height }}>
+        <canvas ref={canvasRef} className="block" style={{ width, height }} />
+        <div
+          className="absolute border-2 border-blue-400 pointer-events-none"
+          style={{
+            left: visible.x * thumbScale,
+            top: visible.y * thumbScale,
+            width: visible.width * thumbScale,
+            height: visible.height * thumbScale
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { formatFileSize, imageUrlToBlob, loadImage, type ImageDimensions } from '@/lib/imageUtils';
+import {
+  exceedsWorkingSize,
+  formatDimensions,
+  WORKING_SIZE_OPTIONS,
+  workingDimensions,
+  type WorkingSize
+} from '@/lib/workingSize';
+import { getMaxImageBytes } from '@/lib/workingSize/workingCopy';
+
+interface WorkingSizeNoticeProps {
+  originalUrl: string;  // The document's original, kept at full resolution
+  imageUrl: string;     // The image the next edit starts from
+  workingSize: WorkingSize;
+  onWorkingSizeChange: (size: WorkingSize) => void;
+  disabled?: boolean;
+}
+
+const FULL_SIZE = 'full';
+
+const sizeLabel = (size: WorkingSize) => (size === null ? 'Full size' : `${size} px`);
+
+const readDimensions = async (url: string): Promise<ImageDimensions> => {
+  const img = await loadImage(url);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+export function WorkingSizeNotice({
+  originalUrl,
+  imageUrl,
+  workingSize,
+  onWorkingSizeChange,
+  disabled = false
+}: WorkingSizeNoticeProps) {
+  const [dimensions, setDimensions] = useState<{
+    originalUrl: string;
+    imageUrl: string;
+    original: ImageDimensions;
+    current: ImageDimensions;
+    currentBytes: number;
+    maxBytes?: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!originalUrl || !imageUrl) return;
+    let cancelled = false;
+    Promise.all([
+      readDimensions(originalUrl),
+      readDimensions(imageUrl),
+      imageUrlToBlob(imageUrl).then((blob) => blob.size),
+      getMaxImageBytes()
+    ])
+      .then(([original, current, currentBytes, maxBytes]) => {
+        if (!cancelled) setDimensions({ originalUrl, imageUrl, original, current, currentBytes, maxBytes });
+      })
+      .catch((error) => console.error('Failed to read image dimensions:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [originalUrl, imageUrl]);
+
+  // Ignore the sizes of the previous image while the next one loads
+  if (!dimensions || dimensions.originalUrl !== originalUrl || dimensions.imageUrl !== imageUrl) return null;
+
+  const { original, current, currentBytes, maxBytes } = dimensions;
+  const downscaled = exceedsWorkingSize(current, workingSize);
+  // Only reachable with Full size, or a working size larger than the image
+  const overLimit = !downscaled && maxBytes !== undefined && currentBytes > maxBytes;
+  const changed = original.width !== current.width || original.height !== current.height;
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-x-4 gap-y-2 mb-3 px-3 py-2 rounded border text-sm ${
+        downscaled || overLimit
+          ? 'border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-950'
+          : 'border-gray-200 dark:border-gray-700'
+      }`}
+    >
+      <div className="flex-1 min-w-0 space-y-0.5">
+        <p>
+          <span className="text-gray-500 dark:text-gray-400">Original </span>
+          <span className="font-medium">{formatDimensions(original)}</span>
+          {changed && (
+            <>
+              <span className="text-gray-500 dark:text-gray-400"> · Current </span>
+              <span className="font-medium">{formatDimensions(current)}</span>
+            </>
+          )}
+          <span className="text-gray-500 dark:text-gray-400"> · AI edits use </span>
+          <span className="font-medium">
+            {downscaled
+              ? formatDimensions(workingDimensions(current, workingSize))
+              : overLimit ? 'a smaller copy' : 'the full image'}
+          </span>
+        </p>
+        {downscaled && (
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            AI edits get a scaled-down working copy and return results at that size.
+            The original keeps every pixel, and local adjustments run on the full image in tiles.
+          </p>
+        )}
+        {overLimit && (
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            At {formatFileSize(currentBytes)} the full image is over the server&apos;s {formatFileSize(maxBytes)} limit,
+            so AI edits get a copy scaled down to fit and return results at that size.
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-gray-500 dark:text-gray-400">AI working size</span>
+        <Select
+          value={workingSize === null ? FULL_SIZE : String(workingSize)}
+          onValueChange={(value) => onWorkingSizeChange(value === FULL_SIZE ? null : Number(value))}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-28 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WORKING_SIZE_OPTIONS.map((size) => (
+              <SelectItem key={size ?? FULL_SIZE} value={size === null ? FULL_SIZE : String(size)}>
+                {sizeLabel(size)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
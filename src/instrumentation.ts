@@ -0,0 +1,9 @@
+// Runs once when the server starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Fail fast on missing or invalid AI configuration instead of on the first request
+    const { getServerConfig } = await import('@/lib/config');
+    getServerConfig();
+  }
+}
@@ -1,90 +1,219 @@
 // AI Service for Image Processing
-// Using custom OpenRouter endpoint for AI-powered image editing
+// Delegates to the provider selected through configuration (see ./config)
+
+import 'server-only';
+import { getServerConfig, type ServerConfig } from './config';
+import type { AIOperation, EditFailureReason, EditParameters, ResultProvider } from './imageEditApi';
+import { createProvider, type AIProvider, type ProviderType } from './providers';
+import type { ProviderEditRequest, ProviderEditResult } from './providers/types';
+import { toImageUrl, type ChatUsage } from './providers/chatResponse';
+import { CircuitBreaker, ProviderError, toProviderError, withRetry, type RetryPolicy } from './resilience';
+import { persistResultImage } from './storage';
 
 interface AIServiceResponse {
   success: boolean;
-  data?: string; // Base64 encoded image or URL
+  data?: string; // Image URL or data URL of the first variant
+  images?: string[]; // All variants
+  text?: string; // Accompanying text from the provider, if any
+  usage?: ChatUsage;
   error?: string;
+  cancelled?: boolean;
+  failureReason?: EditFailureReason;
+  attempts?: number;
   processingTime?: number;
+  provider?: ResultProvider;
 }
 
 interface AIImageEditRequest {
   image: string; // Base64 encoded image
-  operation: 'background-removal' | 'style-transfer' | 'enhance' | 'object-removal' | 'artistic-filter';
-  parameters?: {
-    style?: string;
-    intensity?: number;
-    prompt?: string;
-    mask?: string; // For object removal
-  };
+  operation: AIOperation;
+  parameters?: EditParameters;
+}
+
+interface AIProviderCapabilities {
+  provider: ProviderType;
+  label: string;
+  model?: string;
+  supportedOperations: readonly AIOperation[];
+}
+
+interface AIImageServiceOptions {
+  requestTimeoutMs: number;
+  operationTimeoutsMs: Partial<Record<AIOperation, number>>;
+  retry: RetryPolicy;
+  circuitBreaker: CircuitBreaker;
+  // Turns a provider result URL into a long-lived one; results are returned as-is without it
+  persistImage?: (imageUrl: string, signal?: AbortSignal) => Promise<string>;
+}
+
+interface ProcessImageOptions {
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, reason: EditFailureReason, delayMs: number) => void;
 }
 
-class AIImageService {
-  private readonly endpoint = 'https://oi-server.onrender.com/chat/completions';
-  private readonly headers = {
-    'customerId': 'sijanbastola1@gmail.com',
-    'Content-Type': 'application/json',
-    'Authorization': 'Bearer xxx'
-  };
-  private readonly model = 'replicate/black-forest-labs/flux-1.1-pro';
+export class AIImageService {
+  constructor(
+    private readonly provider: AIProvider,
+    private readonly options: AIImageServiceOptions
+  ) {}
+
+  getCapabilities(): AIProviderCapabilities {
+    return {
+      provider: this.provider.type,
+      label: this.provider.label,
+      model: this.provider.model,
+      supportedOperations: this.provider.supportedOperations
+    };
+  }
+
+  supportsOperation(operation: AIOperation): boolean {
+    return this.provider.supportedOperations.includes(operation);
+  }
 
-  async processImage(request: AIImageEditRequest): Promise<AIServiceResponse> {
+  async processImage(
+    request: AIImageEditRequest,
+    { signal, onRetry }: ProcessImageOptions = {}
+  ): Promise<AIServiceResponse> {
     const startTime = Date.now();
+    const timeoutMs = this.getTimeout(request.operation);
+    let attempts = 0;
     
     try {
+      if (!this.supportsOperation(request.operation)) {
+        throw new ProviderError(
+          `Operation "${request.operation}" is not supported by the ${this.provider.label} provider`,
+          { reason: 'bad-request' }
+        );
+      }
+
       const prompt = this.buildPromptForOperation(request);
       
-      const payload = {
-        model: this.model,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: prompt },
-              { 
-                type: 'image_url', 
-                image_url: { 
-                  url: `data:image/jpeg;base64,${request.image}`
-                } 
-              }
-            ]
-          }
-        ]
-      };
+      const requested = request.parameters?.variants ?? 1;
+      const images: string[] = [];
+      let text: string | undefined;
+      let usage: ChatUsage | undefined;
 
-      const response = await fetch(this.endpoint, {
-        method: 'POST',
-        headers: this.headers,
-        body: JSON.stringify(payload)
-      });
+      // Providers may return fewer variants than asked for; top up with further calls
+      while (images.length < requested) {
+        const seed = request.parameters?.seed;
+        let result: ProviderEditResult;
+
+        try {
+          result = await this.runWithPolicy({
+            image: request.image,
+            operation: request.operation,
+            prompt,
+            parameters: {
+              ...request.parameters,
+              variants: requested - images.length,
+              seed: seed === undefined ? undefined : seed + images.length
+            }
+          }, timeoutMs, { signal, onRetry }, (attempt) => { attempts = Math.max(attempts, attempt); });
+        } catch (error) {
+          // Keep the variants we already have rather than failing the whole edit
+          if (images.length > 0 && !signal?.aborted) {
+            console.warn(`Returning ${images.length} of ${requested} variants:`, error);
+            break;
+          }
+          throw error;
+        }
 
-      if (!response.ok) {
-        throw new Error(`AI service error: ${response.status} ${response.statusText}`);
+        if (result.images.length === 0) break;
+        images.push(...result.images.map(toImageUrl));
+        text = text ?? result.text;
+        usage = usage ?? result.usage;
       }
 
-      const result = await response.json();
-      const processingTime = Date.now() - startTime;
+      // Provider URLs expire, so copy the results before handing them out
+      const persist = this.options.persistImage;
+      const results = persist
+        ? await Promise.all(images.slice(0, requested).map((image) => persist(image, signal)))
+        : images.slice(0, requested);
 
-      // Extract image URL from response
-      const imageUrl = this.extractImageFromResponse(result);
+      const processingTime = Date.now() - startTime;
       
       return {
         success: true,
-        data: imageUrl,
-        processingTime
+        data: results[0],
+        images: results,
+        text,
+        usage,
+        processingTime,
+        attempts,
+        provider: { type: this.provider.type, model: this.provider.model }
       };
 
     } catch (error) {
+      // A job stopped on the provider's side ends the same way as one the user cancelled
+      if (signal?.aborted || (error instanceof ProviderError && error.reason === 'cancelled')) {
+        return {
+          success: false,
+          error: 'Edit cancelled',
+          cancelled: true,
+          attempts,
+          processingTime: Date.now() - startTime
+        };
+      }
+
       console.error('AI service error:', error);
+      const providerError = toProviderError(error, timeoutMs);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        error: providerError.message,
+        failureReason: providerError.reason,
+        attempts,
         processingTime: Date.now() - startTime
       };
     }
   }
 
+  // One provider call under the timeout, retry and circuit-breaker policy
+  private runWithPolicy(
+    request: ProviderEditRequest,
+    timeoutMs: number,
+    { signal, onRetry }: ProcessImageOptions,
+    onAttempt: (attempt: number) => void
+  ): Promise<ProviderEditResult> {
+    return withRetry(async (attempt) => {
+      onAttempt(attempt);
+      return this.options.circuitBreaker.execute(async () => {
+        try {
+          return await this.provider.editImage({
+            ...request,
+            signal: this.withTimeout(timeoutMs, signal)
+          });
+        } catch (error) {
+          throw signal?.aborted ? error : toProviderError(error, timeoutMs);
+        }
+      });
+    }, {
+      policy: this.options.retry,
+      signal,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`AI provider attempt ${attempt} failed (${error.reason}), retrying in ${delayMs}ms`);
+        onRetry?.(attempt + 1, error.reason, delayMs);
+      }
+    });
+  }
+
+  private getTimeout(operation: AIOperation): number {
+    return this.options.operationTimeoutsMs[operation] ?? this.options.requestTimeoutMs;
+  }
+
+  // Abort an attempt when the caller cancels or its timeout elapses
+  private withTimeout(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+  }
+
   private buildPromptForOperation(request: AIImageEditRequest): string {
+    const prompt = this.buildOperationPrompt(request);
+    return request.parameters?.mask
+      ? `${prompt} A mask of the same size is provided: only change the areas that are white in the mask and keep everything under the black areas exactly as it is.`
+      : prompt;
+  }
+
+  private buildOperationPrompt(request: AIImageEditRequest): string {
     switch (request.operation) {
       case 'background-removal':
         return 'Remove the background from this image, making it transparent while keeping the main subject intact and sharp. Output a high-quality image with clean edges.';
@@ -97,9 +226,13 @@ class AIImageService {
         return 'Enhance this image by improving clarity, sharpness, color saturation, and overall quality. Upscale if necessary while maintaining natural appearance and removing any noise or artifacts.';
       
       case 'object-removal':
-        const objectPrompt = request.parameters?.prompt || 'unwanted object';
+        const objectPrompt = request.parameters?.prompt || (request.parameters?.mask ? 'the masked object' : 'unwanted object');
         return `Remove ${objectPrompt} from this image and seamlessly fill in the background. Ensure the removal looks natural and the background blends perfectly without any artifacts.`;
       
+      case 'inpaint':
+        const fill = request.parameters?.prompt || 'content that matches the surrounding image';
+        return `Repaint the masked region of this image with ${fill}. Match the lighting, perspective and texture of the rest of the image so the edit blends in seamlessly.`;
+      
       case 'artistic-filter':
         const filter = request.parameters?.style || 'watercolor';
         return `Apply a ${filter} artistic filter to this image. Transform it into a beautiful artistic representation while preserving the main elements and composition.`;
@@ -109,22 +242,6 @@ class AIImageService {
     }
   }
 
-  private extractImageFromResponse(response: any): string {
-    // Handle different response formats from AI service
-    if (response.choices && response.choices[0] && response.choices[0].message) {
-      const content = response.choices[0].message.content;
-      
-      // Look for image URLs in the response
-      const urlMatch = content.match(/(https?:\/\/[^\s]+\.(?:jpg|jpeg|png|webp|gif))/i);
-      if (urlMatch) {
-        return urlMatch[1];
-      }
-    }
-    
-    // If no URL found, return the content as-is (might be base64)
-    return response.choices?.[0]?.message?.content || '';
-  }
-
   // Background removal using AI
   async removeBackground(imageBase64: string): Promise<AIServiceResponse> {
     return this.processImage({
@@ -150,12 +267,21 @@ class AIImageService {
     });
   }
 
-  // Object removal
-  async removeObject(imageBase64: string, objectDescription: string): Promise<AIServiceResponse> {
+  // Object removal, optionally limited to a painted mask
+  async removeObject(imageBase64: string, objectDescription: string, maskBase64?: string): Promise<AIServiceResponse> {
     return this.processImage({
       image: imageBase64,
       operation: 'object-removal',
-      parameters: { prompt: objectDescription }
+      parameters: { prompt: objectDescription, mask: maskBase64 }
+    });
+  }
+
+  // Inpainting inside a mask
+  async inpaint(imageBase64: string, maskBase64: string, prompt?: string): Promise<AIServiceResponse> {
+    return this.processImage({
+      image: imageBase64,
+      operation: 'inpaint',
+      parameters: { prompt, mask: maskBase64 }
     });
   }
 
@@ -169,5 +295,19 @@ class AIImageService {
   }
 }
 
-export const aiImageService = new AIImageService();
-export type { AIServiceResponse, AIImageEditRequest };
\ No newline at end of file
+/**
+ * Build a service for the configured provider, with its own circuit breaker
+ */
+export const createAIImageService = (
+  config: ServerConfig,
+  persistImage?: AIImageServiceOptions['persistImage']
+): AIImageService => new AIImageService(createProvider(config.provider), {
+  requestTimeoutMs: config.requestTimeoutMs,
+  operationTimeoutsMs: config.operationTimeoutsMs,
+  retry: config.retry,
+  circuitBreaker: new CircuitBreaker(config.circuitBreaker),
+  persistImage
+});
+
+export const aiImageService = createAIImageService(getServerConfig(), persistResultImage);
+export type { AIServiceResponse, AIImageEditRequest, AIProviderCapabilities, AIOperation, ProcessImageOptions };
\ No newline at end of file
@@ -0,0 +1,78 @@
+// Naming and packing batch outputs for download
+
+import JSZip from 'jszip';
+import type { BatchItem } from './queue';
+
+export const DEFAULT_NAMING_TEMPLATE = '{name}-{operation}';
+
+export const NAMING_TOKENS = ['{name}', '{index}', '{operation}', '{date}'] as const;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export interface NamingContext {
+  name: string; // Source file name
+  index: number; // Zero-based position in the batch
+  total: number;
+  operation: string;
+  date?: Date;
+}
+
+const sanitize = (value: string) => value.replace(/[\\/:*?"<>|]+/g, '-').trim();
+
+/**
+ * Fill in a naming template, without the extension. Unknown tokens are left as typed.
+ */
+export const applyNamingTemplate = (template: string, context: NamingContext): string => {
+  const { name, index, total, operation, date = new Date() } = context;
+  const values: Record<string, string> = {
+    name: name.replace(/\.[^/.]+$/, ''),
+    // Zero-padded so the files sort in batch order
+    index: String(index + 1).padStart(String(total).length, '0'),
+    operation: operation.toLowerCase().replace(/\s+/g, '-'),
+    date: date.toISOString().slice(0, 10)
+  };
+
+  const filled = template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token);
+  return sanitize(filled) || values.name || 'image';
+};
+
+/**
+ * Download every finished item and pack them into one zip
+ */
+export const createBatchArchive = async (
+  items: BatchItem[],
+  template: string,
+  operation: string
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Set<string>();
+  const total = items.reduce((max, item) => Math.max(max, item.index + 1), 0);
+
+  for (const item of items) {
+    if (item.status !== 'succeeded' || !item.resultUrl) continue;
+
+    const response = await fetch(item.resultUrl);
+    if (!response.ok) {
+      throw new Error(`Could not download the result for ${item.file.name}; it may have expired`);
+    }
+    const blob = await response.blob();
+
+    const base = applyNamingTemplate(template, { name: item.file.name, index: item.index, total, operation });
+    const extension = EXTENSIONS[blob.type] ?? 'png';
+    // Templates without {name} or {index} can collide; number the repeats
+    let fileName = `${base}.${extension}`;
+    for (let copy = 2; used.has(fileName.toLowerCase()); copy++) {
+      fileName = `${base}-${copy}.${extension}`;
+    }
+    used.add(fileName.toLowerCase());
+
+    zip.file(fileName, blob);
+  }
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
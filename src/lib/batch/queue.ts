@@ -0,0 +1,161 @@
+// Browser-side queue for running the same edit over many images
+
+import type { JobStatus } from '../jobs/types';
+
+export interface BatchProgress {
+  step: number; // Zero-based step being run
+  totalSteps: number;
+  message?: string;
+}
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  index: number; // Position in the batch, kept stable for output naming
+  status: JobStatus;
+  progress?: BatchProgress;
+  resultUrl?: string;
+  error?: string;
+  attempts: number;
+}
+
+export type BatchTask = (
+  file: File,
+  onProgress: (progress: BatchProgress) => void,
+  signal: AbortSignal
+) => Promise<string>;
+
+type BatchListener = (items: BatchItem[]) => void;
+
+/**
+ * Runs a task over queued files with a bounded number running at once.
+ * Nothing runs until start() supplies the task.
+ */
+export class BatchQueue {
+  private items: BatchItem[] = [];
+  private readonly pending: string[] = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly listeners = new Set<BatchListener>();
+  private task: BatchTask | null = null;
+  private nextIndex = 0;
+
+  constructor(private maxConcurrent: number) {}
+
+  subscribe(listener: BatchListener): () => void {
+    this.listeners.add(listener);
+    listener(this.items);
+    return () => this.listeners.delete(listener);
+  }
+
+  add(files: File[]) {
+    const added = files.map((file): BatchItem => ({
+      id: crypto.randomUUID(),
+      file,
+      index: this.nextIndex++,
+      status: 'queued',
+      attempts: 0
+    }));
+    this.items = [...this.items, ...added];
+    this.pending.push(...added.map((item) => item.id));
+    this.notify();
+    this.drain();
+  }
+
+  /**
+   * Run queued items with the given task. Items that already started keep their task.
+   */
+  start(task: BatchTask) {
+    this.task = task;
+    this.drain();
+  }
+
+  setConcurrency(maxConcurrent: number) {
+    this.maxConcurrent = maxConcurrent;
+    this.drain();
+  }
+
+  /**
+   * Put a failed or cancelled item back in the queue
+   */
+  retry(id: string) {
+    const item = this.items.find((entry) => entry.id === id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+
+    this.update(id, { status: 'queued', error: undefined, progress: undefined });
+    this.pending.push(id);
+    this.drain();
+  }
+
+  /**
+   * Cancel an item. Queued items are dropped immediately; running ones abort their edit.
+   */
+  cancel(id: string) {
+    const pendingIndex = this.pending.indexOf(id);
+    if (pendingIndex !== -1) {
+      this.pending.splice(pendingIndex, 1);
+      this.update(id, { status: 'cancelled', progress: undefined });
+      return;
+    }
+    // run() records the cancelled state once the task unwinds
+    this.controllers.get(id)?.abort();
+  }
+
+  cancelAll() {
+    [...this.pending, ...this.controllers.keys()].forEach((id) => this.cancel(id));
+  }
+
+  remove(id: string) {
+    this.cancel(id);
+    const item = this.items.find((entry) => entry.id === id);
+    if (item?.resultUrl?.startsWith('blob:')) {
+      URL.revokeObjectURL(item.resultUrl);
+    }
+    this.items = this.items.filter((entry) => entry.id !== id);
+    this.notify();
+  }
+
+  clear() {
+    [...this.items].forEach((item) => this.remove(item.id));
+  }
+
+  private drain() {
+    while (this.task && this.controllers.size < this.maxConcurrent && this.pending.length > 0) {
+      this.run(this.pending.shift()!, this.task);
+    }
+  }
+
+  private async run(id: string, task: BatchTask) {
+    const item = this.items.find((entry) => entry.id === id);
+    if (!item) return;
+
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.update(id, { status: 'running', attempts: item.attempts + 1 });
+
+    try {
+      const resultUrl = await task(item.file, (progress) => this.update(id, { progress }), controller.signal);
+      if (!this.items.some((entry) => entry.id === id)) {
+        // Removed while running; nothing will show the result
+        if (resultUrl.startsWith('blob:')) URL.revokeObjectURL(resultUrl);
+        return;
+      }
+      this.update(id, { status: 'succeeded', resultUrl, progress: undefined });
+    } catch (error) {
+      this.update(id, controller.signal.aborted
+        ? { status: 'cancelled', progress: undefined }
+        : { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      this.controllers.delete(id);
+      this.drain();
+    }
+  }
+
+  private update(id: string, update: Partial<BatchItem>) {
+    this.items = this.items.map((item) => (item.id === id ? { ...item, ...update } : item));
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener(this.items));
+  }
+}
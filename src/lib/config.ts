@@ -0,0 +1,203 @@
+// Server-side configuration for the AI service
+// Reads provider settings and secrets from environment variables. This module
+// must never be imported from client components.
+
+import 'server-only';
+import { z } from 'zod';
+import { AI_OPERATIONS, isAIOperation, type AIOperation } from './imageEditApi';
+import type { ProviderConfig } from './providers';
+import type { RetryPolicy } from './resilience';
+
+export interface ServerConfig {
+  provider: ProviderConfig;
+  requestTimeoutMs: number;
+  operationTimeoutsMs: Partial<Record<AIOperation, number>>;
+  retry: RetryPolicy;
+  circuitBreaker: {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+  };
+  maxImageBytes: number;
+  maxConcurrentJobs: number;
+  jobRetentionMs: number;
+  assets: {
+    directory: string;
+    maxBytes: number;
+    fetchTimeoutMs: number;
+    retentionMs: number;
+    maxTotalBytes: number;
+  };
+}
+
+// Parses "enhance=60000,style-transfer=90000" into per-operation timeouts
+const operationTimeoutsSchema = z.string().optional().transform((value, ctx) => {
+  const timeouts: Partial<Record<AIOperation, number>> = {};
+  if (!value) return timeouts;
+
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [operation, ms] = entry.split('=').map((part) => part.trim());
+    const timeout = Number(ms);
+
+    if (!isAIOperation(operation)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown operation "${operation}", expected one of ${AI_OPERATIONS.join(', ')}`
+      });
+    } else if (!Number.isInteger(timeout) || timeout <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Timeout for "${operation}" must be a positive integer`
+      });
+    } else {
+      timeouts[operation] = timeout;
+    }
+  }
+
+  return timeouts;
+});
+
+const envSchema = z.object({
+  AI_PROVIDER: z.enum(['openai-chat', 'replicate', 'http', 'mock']).default('mock'),
+  AI_ENDPOINT: z.string().url().optional(),
+  AI_MODEL: z.string().min(1).optional(),
+  AI_API_KEY: z.string().min(1).optional(),
+  AI_CUSTOMER_ID: z.string().min(1).optional(),
+  AI_REQUEST_TIMEOUT_MS: z.coerce.number().int().positive().default(120_000),
+  AI_OPERATION_TIMEOUTS_MS: operationTimeoutsSchema,
+  AI_MAX_RETRIES: z.coerce.number().int().nonnegative().default(2),
+  AI_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().default(500),
+  AI_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().default(10_000),
+  AI_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  AI_CIRCUIT_RESET_MS: z.coerce.number().int().positive().default(30_000),
+  AI_MAX_IMAGE_BYTES: z.coerce.number().int().positive().default(10 * 1024 * 1024),
+  AI_MAX_CONCURRENT_JOBS: z.coerce.number().int().positive().default(2),
+  AI_JOB_RETENTION_MS: z.coerce.number().int().positive().default(60 * 60 * 1000),
+  AI_REPLICATE_POLL_INTERVAL_MS: z.coerce.number().int().positive().optional(),
+  AI_MOCK_DELAY_MS: z.coerce.number().int().nonnegative().optional(),
+  ASSET_STORAGE_DIR: z.string().min(1).default('.data/assets'),
+  ASSET_MAX_BYTES: z.coerce.number().int().positive().default(25 * 1024 * 1024),
+  ASSET_FETCH_TIMEOUT_MS: z.coerce.number().int().positive().default(30_000),
+  ASSET_RETENTION_MS: z.coerce.number().int().positive().default(7 * 24 * 60 * 60 * 1000),
+  ASSET_MAX_TOTAL_BYTES: z.coerce.number().int().positive().default(1024 * 1024 * 1024)
+}).superRefine((env, ctx) => {
+  const require = (key: keyof typeof env) => {
+    if (!env[key]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: `Required when AI_PROVIDER is "${env.AI_PROVIDER}"`
+      });
+    }
+  };
+
+  switch (env.AI_PROVIDER) {
+    case 'openai-chat':
+      require('AI_ENDPOINT');
+      require('AI_MODEL');
+      require('AI_API_KEY');
+      break;
+    case 'replicate':
+      require('AI_MODEL');
+      require('AI_API_KEY');
+      break;
+    case 'http':
+      require('AI_ENDPOINT');
+      break;
+  }
+});
+
+type Env = z.infer<typeof envSchema>;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const toProviderConfig = (env: Env): ProviderConfig => {
+  const authorization: Record<string, string> = env.AI_API_KEY ? { 'Authorization': `Bearer ${env.AI_API_KEY}` } : {};
+
+  switch (env.AI_PROVIDER) {
+    case 'openai-chat':
+      return {
+        type: 'openai-chat',
+        endpoint: env.AI_ENDPOINT!,
+        model: env.AI_MODEL!,
+        headers: {
+          ...authorization,
+          ...(env.AI_CUSTOMER_ID ? { 'customerId': env.AI_CUSTOMER_ID } : {})
+        }
+      };
+    case 'replicate':
+      return {
+        type: 'replicate',
+        endpoint: env.AI_ENDPOINT || 'https://api.replicate.com/v1',
+        model: env.AI_MODEL!,
+        apiToken: env.AI_API_KEY!,
+        pollInterval: env.AI_REPLICATE_POLL_INTERVAL_MS
+      };
+    case 'http':
+      return {
+        type: 'http',
+        endpoint: env.AI_ENDPOINT!,
+        headers: authorization
+      };
+    case 'mock':
+      return {
+        type: 'mock',
+        delay: env.AI_MOCK_DELAY_MS
+      };
+  }
+};
+
+/**
+ * Parse and validate configuration from an environment object
+ */
+export const loadServerConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const result = envSchema.safeParse(env);
+
+  if (!result.success) {
+    const details = result.error.issues
+      .map((issue) => `  - ${issue.path.join('.')}: ${issue.message}`)
+      .join('\n');
+    throw new ConfigError(`Invalid AI service configuration:\n${details}`);
+  }
+
+  return {
+    provider: toProviderConfig(result.data),
+    requestTimeoutMs: result.data.AI_REQUEST_TIMEOUT_MS,
+    operationTimeoutsMs: result.data.AI_OPERATION_TIMEOUTS_MS,
+    retry: {
+      maxRetries: result.data.AI_MAX_RETRIES,
+      baseDelayMs: result.data.AI_RETRY_BASE_DELAY_MS,
+      maxDelayMs: result.data.AI_RETRY_MAX_DELAY_MS
+    },
+    circuitBreaker: {
+      failureThreshold: result.data.AI_CIRCUIT_FAILURE_THRESHOLD,
+      resetTimeoutMs: result.data.AI_CIRCUIT_RESET_MS
+    },
+    maxImageBytes: result.data.AI_MAX_IMAGE_BYTES,
+    maxConcurrentJobs: result.data.AI_MAX_CONCURRENT_JOBS,
+    jobRetentionMs: result.data.AI_JOB_RETENTION_MS,
+    assets: {
+      directory: result.data.ASSET_STORAGE_DIR,
+      maxBytes: result.data.ASSET_MAX_BYTES,
+      fetchTimeoutMs: result.data.ASSET_FETCH_TIMEOUT_MS,
+      retentionMs: result.data.ASSET_RETENTION_MS,
+      maxTotalBytes: result.data.ASSET_MAX_TOTAL_BYTES
+    }
+  };
+};
+
+let cachedConfig: ServerConfig | null = null;
+
+/**
+ * Get the validated server configuration, loading it on first use
+ */
+export const getServerConfig = (): ServerConfig => {
+  if (!cachedConfig) {
+    cachedConfig = loadServerConfig();
+  }
+  return cachedConfig;
+};
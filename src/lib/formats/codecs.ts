@@ -0,0 +1,249 @@
+// Browser side of format support: decoding HEIC, AVIF, TIFF and BMP into PNG files on
+// import, and encoding TIFF on export. The WASM and TIFF decoders load only when needed.
+
+import type { IFD } from 'utif2';
+import {
+  readHeifMetadataBlocks,
+  readTiffMetadataBlocks,
+  uprightBlocks,
+  writeMetadataBlocks,
+  type MetadataBlocks
+} from '../metadata';
+import { normalizeOrientation } from '../metadata/orientation';
+import {
+  declaredSourceFormat,
+  detectSourceFormat,
+  FORMAT_LABELS,
+  NATIVE_FORMATS,
+  type SourceFormat
+} from './index';
+
+export interface DecodedImage {
+  file: File;             // Ready for the editor: the original, or a PNG conversion of it
+  sourceFormat: SourceFormat;
+}
+
+export interface TiffPage {
+  index: number;
+  width: number;
+  height: number;
+  thumbnailUrl: string;   // A small PNG data URL
+}
+
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
+
+const THUMBNAIL_SIZE = 160;
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '') || 'image';
+
+const pixelsToCanvas = (rgba: Uint8ClampedArray, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+  return canvas;
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), 'image/png');
+  });
+
+const readSourceFormat = async (file: File): Promise<SourceFormat | null> =>
+  detectSourceFormat(new Uint8Array(await file.slice(0, 64).arrayBuffer())) ?? declaredSourceFormat(file);
+
+const decodeHeic = async (file: File): Promise<HTMLCanvasElement> => {
+  const { default: libheif } = await import('libheif-js/wasm-bundle');
+  const images = new libheif.HeifDecoder().decode(new Uint8Array(await file.arrayBuffer()));
+  try {
+    const [image] = images;
+    if (!image) {
+      throw new ImageDecodeError('The HEIC file contains no image');
+    }
+    const width = image.get_width();
+    const height = image.get_height();
+    const pixels = await new Promise<ImageData>((resolve, reject) => {
+      image.display(new ImageData(width, height), (result) =>
+        result ? resolve(result) : reject(new ImageDecodeError('Failed to decode the HEIC image'))
+      );
+    });
+    return pixelsToCanvas(pixels.data, width, height);
+  } finally {
+    images.forEach((image) => image.free());
+  }
+};
+
+// AVIF and BMP decode natively in current browsers; going through a bitmap avoids
+// handing AVIF to AI providers that only take JPEG, PNG, WebP and GIF
+const decodeWithBrowser = async (file: File, format: SourceFormat): Promise<HTMLCanvasElement> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new ImageDecodeError(`This browser cannot decode ${FORMAT_LABELS[format]} images`);
+  }
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Full-resolution pages, skipping the reduced-size previews some writers add
+const tiffPages = (ifds: IFD[]) =>
+  ifds.filter((ifd) => {
+    const subfileType = ifd.t254 as number[] | undefined;
+    return ifd.t256 !== undefined && !((subfileType?.[0] ?? 0) & 1);
+  });
+
+const decodeTiffPage = async (buffer: ArrayBuffer, page: number) => {
+  const UTIF = await import('utif2');
+  const ifds = UTIF.decode(buffer);
+  const pages = tiffPages(ifds);
+  const ifd = pages[page];
+  if (!ifd) {
+    throw new ImageDecodeError(pages.length === 0 ? 'The TIFF file contains no image' : `The TIFF file has no page ${page + 1}`);
+  }
+  UTIF.decodeImage(buffer, ifd);
+  const rgba = UTIF.toRGBA8(ifd);
+  return pixelsToCanvas(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height);
+};
+
+// Metadata of the original to write into its PNG conversion, so the info panel and
+// export still have it
+const readConvertedMetadata = async (file: File, format: SourceFormat, page: number): Promise<MetadataBlocks> => {
+  switch (format) {
+    case 'heic':
+    case 'avif':
+      // Decoders apply HEIF's own rotation and mirroring, so the pixels come out upright
+      return uprightBlocks(readHeifMetadataBlocks(new Uint8Array(await file.arrayBuffer())));
+    case 'tiff':
+      // The tags describe the first page; TIFF pixels are stored as they are, and
+      // prepareImageFile turns them upright from the orientation carried over here
+      return page === 0 ? readTiffMetadataBlocks(new Uint8Array(await file.arrayBuffer())) : {};
+    default:
+      return {};
+  }
+};
+
+/**
+ * Turn an uploaded file into one the editor can work on. JPEG, PNG, WebP and GIF are
+ * returned as they are; other formats become a PNG carrying the original's EXIF and
+ * XMP. TIFF files open the given page.
+ */
+export const decodeImageFile = async (file: File, page = 0): Promise<DecodedImage> => {
+  const sourceFormat = await readSourceFormat(file);
+  if (!sourceFormat) {
+    throw new ImageDecodeError('Unrecognised image format');
+  }
+  if (NATIVE_FORMATS.includes(sourceFormat)) {
+    return { file, sourceFormat };
+  }
+
+  let canvas: HTMLCanvasElement;
+  let name = `${baseName(file.name)}.png`;
+  switch (sourceFormat) {
+    case 'heic':
+      canvas = await decodeHeic(file);
+      break;
+    case 'tiff': {
+      canvas = await decodeTiffPage(await file.arrayBuffer(), page);
+      if (page > 0) name = `${baseName(file.name)}-page-${page + 1}.png`;
+      break;
+    }
+    default:
+      canvas = await decodeWithBrowser(file, sourceFormat);
+  }
+
+  const png = new Uint8Array(await (await canvasToPng(canvas)).arrayBuffer());
+  const metadata = await readConvertedMetadata(file, sourceFormat, page).catch((error) => {
+    console.warn('Failed to read the original image metadata:', error);
+    return {};
+  });
+  return {
+    file: new File([writeMetadataBlocks(png, metadata)], name, { type: 'image/png', lastModified: file.lastModified }),
+    sourceFormat
+  };
+};
+
+/**
+ * Decode an upload and store its pixels upright: what every way of opening an image goes through
+ */
+export const prepareImageFile = async (file: File, page = 0): Promise<DecodedImage> => {
+  const decoded = await decodeImageFile(file, page);
+  // Phone photos often rely on the EXIF orientation tag; store them upright instead
+  const upright = await normalizeOrientation(decoded.file).catch((error) => {
+    console.error('Failed to apply image orientation:', error);
+    return decoded.file;
+  });
+  return { ...decoded, file: upright };
+};
+
+/**
+ * How many pages a file has: the full-size images in a TIFF, 1 for anything else
+ */
+export const countImagePages = async (file: File): Promise<number> => {
+  if (await readSourceFormat(file) !== 'tiff') return 1;
+  const UTIF = await import('utif2');
+  return tiffPages(UTIF.decode(await file.arrayBuffer())).length;
+};
+
+/**
+ * The pages of a TIFF file with a thumbnail of each, for choosing which to open.
+ * Files in other formats have no pages. Pages are decoded one at a time and each
+ * full-size decode is dropped as soon as its thumbnail is drawn, so a long scan
+ * never holds more than one page in memory.
+ */
+export const readTiffPages = async (file: File): Promise<TiffPage[]> => {
+  if (await readSourceFormat(file) !== 'tiff') return [];
+
+  const UTIF = await import('utif2');
+  const buffer = await file.arrayBuffer();
+  const pages: TiffPage[] = [];
+
+  for (const [index, directory] of tiffPages(UTIF.decode(buffer)).entries()) {
+    // Decoding stores the pixels on the IFD, so decode a copy that goes out of scope with this page
+    const ifd = { ...directory };
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+    const page = pixelsToCanvas(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height);
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(ifd.width, ifd.height));
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = Math.max(1, Math.round(ifd.width * scale));
+    thumbnail.height = Math.max(1, Math.round(ifd.height * scale));
+    thumbnail.getContext('2d')?.drawImage(page, 0, 0, thumbnail.width, thumbnail.height);
+    // Shrinking the canvas frees its pixels now rather than whenever it is collected
+    page.width = 0;
+    page.height = 0;
+
+    pages.push({ index, width: ifd.width, height: ifd.height, thumbnailUrl: thumbnail.toDataURL('image/png') });
+  }
+
+  return pages;
+};
+
+/**
+ * Encode RGBA pixels as an uncompressed TIFF
+ */
+export const encodeTiff = async (rgba: Uint8ClampedArray, width: number, height: number): Promise<Uint8Array> => {
+  const UTIF = await import('utif2');
+  return new Uint8Array(UTIF.encodeImage(new Uint8Array(rgba.buffer, rgba.byteOffset, rgba.byteLength), width, height));
+};
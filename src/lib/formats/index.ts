@@ -0,0 +1,161 @@
+// Input formats the editor accepts, told apart by their leading bytes.
+// JPEG, PNG, WebP and GIF are used as they are; the rest are converted to PNG on import.
+
+export const SOURCE_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'heic', 'avif', 'tiff', 'bmp'] as const;
+
+export type SourceFormat = typeof SOURCE_FORMATS[number];
+
+// Formats every part of the editor and the AI providers can take directly
+export const NATIVE_FORMATS: SourceFormat[] = ['jpeg', 'png', 'webp', 'gif'];
+
+export const FORMAT_LABELS: Record<SourceFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  gif: 'GIF',
+  heic: 'HEIC',
+  avif: 'AVIF',
+  tiff: 'TIFF',
+  bmp: 'BMP'
+};
+
+export const INPUT_MIME_TYPES: Record<SourceFormat, string[]> = {
+  jpeg: ['image/jpeg', 'image/jpg'],
+  png: ['image/png'],
+  webp: ['image/webp'],
+  gif: ['image/gif'],
+  heic: ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'],
+  avif: ['image/avif'],
+  tiff: ['image/tiff'],
+  bmp: ['image/bmp', 'image/x-ms-bmp']
+};
+
+export const INPUT_EXTENSIONS: Record<SourceFormat, string[]> = {
+  jpeg: ['.jpeg', '.jpg'],
+  png: ['.png'],
+  webp: ['.webp'],
+  gif: ['.gif'],
+  heic: ['.heic', '.heif'],
+  avif: ['.avif'],
+  tiff: ['.tif', '.tiff'],
+  bmp: ['.bmp']
+};
+
+// Brands in the ftyp box of HEIF files; AVIF is HEIF with AV1 inside
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs'];
+const AVIF_BRANDS = ['avif', 'avis'];
+// Generic brands, where the compatible brands tell the two apart
+const HEIF_BRANDS = ['mif1', 'msf1'];
+
+// Sizes of the BMP info header versions, checked so that any file starting with "BM" does not pass
+const BMP_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+const ascii = (data: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...Array.from(data.subarray(offset, offset + length)));
+
+const detectHeifFamily = (data: Uint8Array): SourceFormat | null => {
+  if (data.length < 16 || ascii(data, 4, 4) !== 'ftyp') return null;
+  const boxSize = Math.min(((data[0] << 24) | (data[1] << 16) | (data[2] << 8) | data[3]) >>> 0, data.length);
+  const major = ascii(data, 8, 4);
+  const compatible: string[] = [];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    compatible.push(ascii(data, offset, 4));
+  }
+
+  if (AVIF_BRANDS.includes(major)) return 'avif';
+  if (HEIC_BRANDS.includes(major)) return 'heic';
+  if (!HEIF_BRANDS.includes(major) && !compatible.some((brand) => HEIF_BRANDS.includes(brand))) return null;
+  return compatible.some((brand) => AVIF_BRANDS.includes(brand)) ? 'avif' : 'heic';
+};
+
+/**
+ * Identify an image format from the start of a file (the first 64 bytes are plenty)
+ */
+export const detectSourceFormat = (data: Uint8Array): SourceFormat | null => {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (ascii(data, 0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(data, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(data, 0, 4) === 'II*\0' || ascii(data, 0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(data, 0, 2) === 'BM' && BMP_HEADER_SIZES.includes(data[14] | (data[15] << 8))) return 'bmp';
+  return detectHeifFamily(data);
+};
+
+/**
+ * The format a file claims to be, from its MIME type or, when browsers leave that
+ * empty (HEIC often), its extension
+ */
+export const declaredSourceFormat = (file: { type: string; name?: string }): SourceFormat | null => {
+  const type = file.type.toLowerCase();
+  const extension = file.name?.toLowerCase().match(/\.[^.]+$/)?.[0];
+  return SOURCE_FORMATS.find((format) =>
+    (type && INPUT_MIME_TYPES[format].includes(type)) || (!type && extension && INPUT_EXTENSIONS[format].includes(extension))
+  ) ?? null;
+};
+
+/**
+ * The dropzone filter, by MIME type pattern and extension
+ */
+export const INPUT_ACCEPT: Record<string, string[]> = {
+  'image/*': SOURCE_FORMATS.flatMap((format) => INPUT_EXTENSIONS[format])
+};
+
+// The same for a plain file input; the extensions catch files the OS gives no image type
+export const INPUT_ACCEPT_ATTRIBUTE = ['image/*', ...INPUT_ACCEPT['image/*']].join(',');
+
+export const EXPORT_FORMATS = ['png', 'jpg', 'webp', 'tiff', 'bmp'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// The browser cannot write HEIC or AVIF, so those default to the nearest format it can
+const DEFAULT_EXPORT_FORMATS: Record<SourceFormat, ExportFormat> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  gif: 'png',
+  heic: 'jpg',
+  avif: 'webp',
+  tiff: 'tiff',
+  bmp: 'bmp'
+};
+
+export const defaultExportFormat = (source: SourceFormat | undefined): ExportFormat =>
+  source ? DEFAULT_EXPORT_FORMATS[source] : 'png';
+
+/**
+ * Encode RGBA pixels as a 24-bit BMP. BMP has no widely read alpha channel, so
+ * transparent pixels are flattened onto white.
+ */
+export const encodeBmp = (rgba: Uint8ClampedArray | Uint8Array, width: number, height: number): Uint8Array => {
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const headerSize = 14 + 40;
+  const output = new Uint8Array(headerSize + rowSize * height);
+  const view = new DataView(output.buffer);
+
+  // File header
+  output.set([0x42, 0x4d], 0);
+  view.setUint32(2, output.length, true);
+  view.setUint32(10, headerSize, true);
+  // BITMAPINFOHEADER, bottom-up rows
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 24, true);
+  view.setUint32(34, rowSize * height, true);
+  view.setInt32(38, 2835, true); // 72 DPI
+  view.setInt32(42, 2835, true);
+
+  for (let y = 0; y < height; y++) {
+    const row = headerSize + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const alpha = rgba[source + 3] / 255;
+      const target = row + x * 3;
+      output[target] = Math.round(rgba[source + 2] * alpha + 255 * (1 - alpha));
+      output[target + 1] = Math.round(rgba[source + 1] * alpha + 255 * (1 - alpha));
+      output[target + 2] = Math.round(rgba[source] * alpha + 255 * (1 - alpha));
+    }
+  }
+  return output;
+};
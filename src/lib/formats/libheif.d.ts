@@ -0,0 +1,17 @@
+// The parts of libheif-js the HEIC decoder uses; the package ships no types of its own
+
+declare module 'libheif-js/wasm-bundle' {
+  interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    display(imageData: ImageData, callback: (result: ImageData | null) => void): void;
+    free(): void;
+  }
+
+  const libheif: {
+    HeifDecoder: new () => {
+      decode(buffer: ArrayBuffer | Uint8Array): HeifImage[];
+    };
+  };
+  export default libheif;
+}
@@ -0,0 +1,99 @@
+// Edit history as a tree: every edit records the state it was applied to, so
+// editing after an undo starts a new branch instead of discarding the old one.
+// The original upload is the implicit root and is represented by a null id.
+
+import type { ResultProvider } from './imageEditApi';
+import type { ProcessParameters } from './processing/types';
+
+export interface EditHistory {
+  id: string;
+  parentId: string | null; // Entry this edit was applied to; null for the original upload
+  imageUrl: string;
+  operation: string;
+  parameters?: ProcessParameters; // As sent with the edit, so it can be reproduced
+  provider?: ResultProvider; // Backend and model that produced the image; 'local' for in-browser edits
+  timestamp: number;
+  variants?: string[]; // All candidates from a multi-output edit; imageUrl is the chosen one
+  selectedVariant?: number;
+  checkpoint?: string; // User-given name marking this state as worth coming back to
+}
+
+/**
+ * Direct children of an entry (or of the original when parentId is null), oldest first
+ */
+export const getChildren = (entries: EditHistory[], parentId: string | null): EditHistory[] =>
+  entries
+    .filter((entry) => entry.parentId === parentId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Entries from the first edit down to the given one; empty for the original
+ */
+export const getPath = (entries: EditHistory[], id: string | null): EditHistory[] => {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const path: EditHistory[] = [];
+  let entry = id ? byId.get(id) : undefined;
+
+  while (entry) {
+    path.unshift(entry);
+    entry = entry.parentId ? byId.get(entry.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Ids of an entry and everything edited from it
+ */
+export const getDescendantIds = (entries: EditHistory[], id: string): Set<string> => {
+  const ids = new Set([id]);
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const entry of entries) {
+      if (entry.parentId === parentId && !ids.has(entry.id)) {
+        ids.add(entry.id);
+        queue.push(entry.id);
+      }
+    }
+  }
+  return ids;
+};
+
+/**
+ * Follow the most recent edit at every fork to find where a branch currently ends
+ */
+export const getBranchTip = (entries: EditHistory[], id: string | null): string | null => {
+  let tip = id;
+  for (let children = getChildren(entries, tip); children.length > 0; children = getChildren(entries, tip)) {
+    tip = children[children.length - 1].id;
+  }
+  return tip;
+};
+
+/**
+ * Whether `ancestorId` lies on the path to `id`; the original is everyone's ancestor
+ */
+export const isAncestor = (entries: EditHistory[], ancestorId: string | null, id: string | null): boolean =>
+  ancestorId === null || getPath(entries, id).some((entry) => entry.id === ancestorId);
+
+/**
+ * The next state when redoing from `currentId` towards the active branch's tip
+ */
+export const getRedoTarget = (
+  entries: EditHistory[],
+  currentId: string | null,
+  tipId: string | null
+): EditHistory | undefined => {
+  const path = getPath(entries, tipId);
+  const index = currentId === null ? -1 : path.findIndex((entry) => entry.id === currentId);
+  return index === -1 && currentId !== null ? undefined : path[index + 1];
+};
+
+/**
+ * Remove an entry together with every branch that grew from it
+ */
+export const deleteBranch = (entries: EditHistory[], id: string): EditHistory[] => {
+  const removed = getDescendantIds(entries, id);
+  return entries.filter((entry) => !removed.has(entry.id));
+};
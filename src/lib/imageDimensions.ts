@@ -0,0 +1,91 @@
+// Read image dimensions from file headers without decoding pixels
+// Works on raw bytes so it runs the same on the server and in the browser.
+
+import type { ImageDimensions } from './imageUtils';
+
+export type HeaderImageType = 'png' | 'jpeg' | 'gif' | 'webp';
+
+export interface ImageHeaderInfo extends ImageDimensions {
+  type: HeaderImageType;
+}
+
+const readUint16BE = (data: Uint8Array, offset: number) => (data[offset] << 8) | data[offset + 1];
+const readUint16LE = (data: Uint8Array, offset: number) => data[offset] | (data[offset + 1] << 8);
+const readUint24LE = (data: Uint8Array, offset: number) => readUint16LE(data, offset) | (data[offset + 2] << 16);
+const readUint32BE = (data: Uint8Array, offset: number) =>
+  ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+
+const matches = (data: Uint8Array, offset: number, bytes: number[]) =>
+  bytes.every((byte, index) => data[offset + index] === byte);
+
+const readPng = (data: Uint8Array): ImageHeaderInfo | null => {
+  // The IHDR chunk always comes first, right after the 8-byte signature
+  if (data.length < 24 || !matches(data, 12, [0x49, 0x48, 0x44, 0x52])) return null;
+  return { type: 'png', width: readUint32BE(data, 16), height: readUint32BE(data, 20) };
+};
+
+const readJpeg = (data: Uint8Array): ImageHeaderInfo | null => {
+  let offset = 2;
+
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+
+    const marker = data[offset + 1];
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+
+    // Start-of-frame markers carry the dimensions (C4, C8 and CC are not frames)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { type: 'jpeg', height: readUint16BE(data, offset + 5), width: readUint16BE(data, offset + 7) };
+    }
+
+    offset += 2 + readUint16BE(data, offset + 2);
+  }
+
+  return null;
+};
+
+const readGif = (data: Uint8Array): ImageHeaderInfo | null => {
+  if (data.length < 10) return null;
+  return { type: 'gif', width: readUint16LE(data, 6), height: readUint16LE(data, 8) };
+};
+
+const readWebp = (data: Uint8Array): ImageHeaderInfo | null => {
+  if (data.length < 30) return null;
+
+  // Lossy
+  if (matches(data, 12, [0x56, 0x50, 0x38, 0x20])) {
+    return { type: 'webp', width: readUint16LE(data, 26) & 0x3fff, height: readUint16LE(data, 28) & 0x3fff };
+  }
+
+  // Lossless: 14-bit width and height packed after the 0x2f signature byte
+  if (matches(data, 12, [0x56, 0x50, 0x38, 0x4c])) {
+    const bits = data[21] | (data[22] << 8) | (data[23] << 16) | (data[24] << 24);
+    return { type: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+
+  // Extended
+  if (matches(data, 12, [0x56, 0x50, 0x38, 0x58])) {
+    return { type: 'webp', width: readUint24LE(data, 24) + 1, height: readUint24LE(data, 27) + 1 };
+  }
+
+  return null;
+};
+
+/**
+ * Read the type and pixel dimensions of a PNG, JPEG, GIF or WebP image
+ */
+export const readImageHeader = (data: Uint8Array): ImageHeaderInfo | null => {
+  if (matches(data, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return readPng(data);
+  if (matches(data, 0, [0xff, 0xd8])) return readJpeg(data);
+  if (matches(data, 0, [0x47, 0x49, 0x46, 0x38])) return readGif(data);
+  if (matches(data, 0, [0x52, 0x49, 0x46, 0x46]) && matches(data, 8, [0x57, 0x45, 0x42, 0x50])) return readWebp(data);
+  return null;
+};
@@ -0,0 +1,127 @@
+// Request and response contracts for /api/image-edit
+// Shared by the API route and the browser client, so keep this free of server-only imports.
+
+import { z } from 'zod';
+
+export const AI_OPERATIONS = [
+  'background-removal',
+  'style-transfer',
+  'enhance',
+  'object-removal',
+  'artistic-filter',
+  'inpaint'
+] as const;
+
+export type AIOperation = typeof AI_OPERATIONS[number];
+
+// Operations the UI can request; custom edits run on the generic enhance pipeline
+export const EDIT_OPERATIONS = [...AI_OPERATIONS, 'custom-edit'] as const;
+
+export type EditOperation = typeof EDIT_OPERATIONS[number];
+
+export const isAIOperation = (value: unknown): value is AIOperation =>
+  typeof value === 'string' && (AI_OPERATIONS as readonly string[]).includes(value);
+
+// Why a provider call failed, so the UI can tell "provider down" apart from "bad input"
+export const EDIT_FAILURE_REASONS = [
+  'bad-request',
+  'rate-limited',
+  'upstream-unavailable',
+  'network',
+  'timeout',
+  'circuit-open',
+  'invalid-response',
+  'refused',
+  'no-image',
+  'provider-failed',
+  'cancelled',
+  'unknown'
+] as const;
+
+export type EditFailureReason = typeof EDIT_FAILURE_REASONS[number];
+
+export const MAX_VARIANTS = 4;
+
+export const editParametersSchema = z.object({
+  style: z.string().optional(),
+  intensity: z.number().optional(),
+  prompt: z.string().optional(),
+  mask: z.string().optional(), // Base64 PNG, white where the image may change; same size as the image
+  variants: z.number().int().min(1).max(MAX_VARIANTS).optional(),
+  seed: z.number().int().nonnegative().optional()
+});
+
+export type EditParameters = z.infer<typeof editParametersSchema>;
+
+export const imageEditRequestSchema = z.object({
+  image: z.string({ required_error: 'Missing required field: image', invalid_type_error: 'Image must be a base64 string' })
+    .min(1, 'Missing required field: image'),
+  operation: z.enum(EDIT_OPERATIONS, { required_error: 'Missing required field: operation' }),
+  parameters: editParametersSchema.optional()
+}).superRefine((request, ctx) => {
+  // A painted mask says what to remove on its own, so the description becomes optional
+  if (request.operation === 'object-removal' && !request.parameters?.prompt?.trim() && !request.parameters?.mask) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['parameters', 'prompt'],
+      message: 'Object description or mask is required for object removal'
+    });
+  }
+  if (request.operation === 'inpaint' && !request.parameters?.mask) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['parameters', 'mask'],
+      message: 'A mask is required for inpainting'
+    });
+  }
+  if (request.operation === 'custom-edit' && !request.parameters?.prompt?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['parameters', 'prompt'],
+      message: 'A prompt is required for custom edits'
+    });
+  }
+});
+
+export type ImageEditRequest = z.infer<typeof imageEditRequestSchema>;
+
+// Which backend produced a result, recorded with each edit in the history
+export interface ResultProvider {
+  type: string;
+  model?: string;
+}
+
+export interface ImageEditSuccessResponse {
+  success: true;
+  imageUrl: string; // First variant, kept for single-output callers
+  images: string[];
+  processingTime?: number;
+  attempts?: number;
+  operation: EditOperation;
+  provider?: ResultProvider;
+}
+
+export interface ImageEditErrorResponse {
+  success: false;
+  error: string;
+  cancelled?: boolean;
+  failureReason?: EditFailureReason;
+  attempts?: number;
+  details?: string;
+  operation?: string;
+}
+
+export type ImageEditResponse = ImageEditSuccessResponse | ImageEditErrorResponse;
+
+export interface ImageEditCapabilities {
+  message: string;
+  version: string;
+  provider: {
+    type: string;
+    label: string;
+    model?: string;
+  };
+  supportedOperations: AIOperation[];
+  maxImageBytes: number; // Largest image accepted with an edit
+  usage: Record<string, unknown>;
+}
@@ -0,0 +1,237 @@
+// Browser client for the image edit API
+// Provider credentials and limits live on the server; the UI only talks to /api/image-edit and /api/jobs.
+
+import type {
+  ImageEditCapabilities,
+  ImageEditRequest,
+  ImageEditResponse
+} from './imageEditApi';
+import {
+  JOB_STATUSES,
+  isTerminalJobStatus,
+  type CreateJobResponse,
+  type JobSnapshot
+} from './jobs/types';
+import { sleep } from './providers/utils';
+
+const POLL_INTERVAL = 1500;
+
+type JobUpdateHandler = (job: JobSnapshot) => void;
+
+class ImageEditClient {
+  constructor(
+    private readonly baseUrl: string = '/api/image-edit',
+    private readonly jobsUrl: string = '/api/jobs'
+  ) {}
+
+  async editImage(request: ImageEditRequest, signal?: AbortSignal): Promise<ImageEditResponse> {
+    try {
+      const response = await fetch(this.baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal
+      });
+
+      return await this.readResponse(response);
+    } catch (error) {
+      if (signal?.aborted) {
+        return this.cancelledResponse(request);
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error',
+        operation: request.operation
+      };
+    }
+  }
+
+  /**
+   * Submit an edit as a background job and follow it until it finishes
+   */
+  async runJob(
+    request: ImageEditRequest,
+    onUpdate?: JobUpdateHandler,
+    signal?: AbortSignal
+  ): Promise<ImageEditResponse> {
+    let jobId: string | undefined;
+
+    try {
+      const response = await fetch(this.jobsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal
+      });
+
+      if (!response.ok) {
+        return await this.readResponse(response);
+      }
+
+      const { job }: CreateJobResponse = await response.json();
+      jobId = job.id;
+      onUpdate?.(job);
+
+      const finished = await this.watchJob(job.id, onUpdate, signal);
+
+      if (finished.status === 'succeeded' && finished.result) {
+        return {
+          success: true,
+          imageUrl: finished.result.imageUrl,
+          images: finished.result.images,
+          processingTime: finished.result.processingTime,
+          attempts: finished.attempts,
+          operation: finished.operation,
+          provider: finished.result.provider
+        };
+      }
+
+      if (finished.status === 'cancelled') {
+        return this.cancelledResponse(request);
+      }
+
+      return {
+        success: false,
+        error: finished.error || 'Processing failed',
+        failureReason: finished.failureReason,
+        attempts: finished.attempts,
+        operation: finished.operation
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        if (jobId) {
+          this.cancelJob(jobId).catch((cancelError) => console.warn('Failed to cancel job:', cancelError));
+        }
+        return this.cancelledResponse(request);
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error',
+        operation: request.operation
+      };
+    }
+  }
+
+  async getJob(id: string, signal?: AbortSignal): Promise<JobSnapshot> {
+    const response = await fetch(`${this.jobsUrl}/${id}`, { cache: 'no-store', signal });
+    if (!response.ok) {
+      throw new Error(`Failed to load job: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async cancelJob(id: string): Promise<JobSnapshot> {
+    const response = await fetch(`${this.jobsUrl}/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`Failed to cancel job: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Follow a job over Server-Sent Events, falling back to polling if the stream drops
+   */
+  watchJob(id: string, onUpdate?: JobUpdateHandler, signal?: AbortSignal): Promise<JobSnapshot> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      if (typeof EventSource === 'undefined') {
+        this.pollJob(id, onUpdate, signal).then(resolve, reject);
+        return;
+      }
+
+      const source = new EventSource(`${this.jobsUrl}/${id}/events`);
+
+      const onAbort = () => {
+        source.close();
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Polling picks up where the stream left off
+      const fallBackToPolling = () => {
+        source.close();
+        signal?.removeEventListener('abort', onAbort);
+        this.pollJob(id, onUpdate, signal).then(resolve, reject);
+      };
+
+      const handleEvent = (event: MessageEvent<string>) => {
+        let job: JobSnapshot;
+        try {
+          job = JSON.parse(event.data);
+        } catch (error) {
+          console.warn('Malformed job event, polling instead:', error);
+          fallBackToPolling();
+          return;
+        }
+        onUpdate?.(job);
+        if (isTerminalJobStatus(job.status)) {
+          source.close();
+          signal?.removeEventListener('abort', onAbort);
+          resolve(job);
+        }
+      };
+
+      JOB_STATUSES.forEach((status) => source.addEventListener(status, handleEvent));
+
+      source.onerror = fallBackToPolling;
+    });
+  }
+
+  async getCapabilities(): Promise<ImageEditCapabilities> {
+    const response = await fetch(this.baseUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load capabilities: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  private async pollJob(id: string, onUpdate?: JobUpdateHandler, signal?: AbortSignal): Promise<JobSnapshot> {
+    let lastUpdatedAt: number | undefined;
+
+    while (true) {
+      signal?.throwIfAborted();
+      const job = await this.getJob(id, signal);
+      // Progress and retry messages change within a status, so report every new update
+      if (job.updatedAt !== lastUpdatedAt) {
+        lastUpdatedAt = job.updatedAt;
+        onUpdate?.(job);
+      }
+      if (isTerminalJobStatus(job.status)) {
+        return job;
+      }
+      await sleep(POLL_INTERVAL, signal);
+    }
+  }
+
+  private cancelledResponse(request: ImageEditRequest): ImageEditResponse {
+    return {
+      success: false,
+      error: 'Edit cancelled',
+      cancelled: true,
+      operation: request.operation
+    };
+  }
+
+  private async readResponse(response: Response): Promise<ImageEditResponse> {
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('application/json')) {
+      return {
+        success: false,
+        error: `Unexpected response from server: ${response.status} ${response.statusText}`
+      };
+    }
+
+    const body: ImageEditResponse = await response.json();
+    if (!response.ok && body.success !== false) {
+      return { success: false, error: `Request failed: ${response.status} ${response.statusText}` };
+    }
+    return body;
+  }
+}
+
+export const imageEditClient = new ImageEditClient();
+export type { ImageEditClient };
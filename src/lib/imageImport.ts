@@ -0,0 +1,97 @@
+// Reading images out of drops and pastes: files from the desktop or clipboard,
+// or links and <img> tags dragged over from another browser tab.
+
+import { declaredSourceFormat } from './formats';
+import { fileNameFromUrl, type UrlImportResponse } from './urlImportApi';
+
+export interface ImagePayload {
+  files: File[];
+  urls: string[];
+}
+
+const IMAGE_URL_PATTERN = /^(https?:\/\/\S+\.(?:jpe?g|png|webp|gif|heic|heif|avif|tiff?|bmp)(?:[?#]\S*)?|data:image\/[\w.+-]+;base64,\S+)$/i;
+
+const isImportableUrl = (url: string) => /^(https?:|data:image\/)/i.test(url);
+
+/**
+ * Everything in a drop or paste that could be an image. Must be called while the
+ * event is being handled; browsers empty the data afterwards.
+ */
+export const readImagePayload = (data: DataTransfer): ImagePayload => {
+  // HEIC files often arrive without a type, so a known extension counts too
+  const files = Array.from(data.files).filter((file) => file.type.startsWith('image/') || declaredSourceFormat(file));
+  if (files.length > 0) {
+    return { files, urls: [] };
+  }
+
+  const urls: string[] = [];
+
+  // A dragged image inside a link carries the link in text/uri-list, so prefer the <img> itself
+  const html = data.getData('text/html');
+  if (html) {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('img[src]').forEach((img) => urls.push(img.getAttribute('src') ?? ''));
+  }
+
+  if (urls.length === 0) {
+    urls.push(...data.getData('text/uri-list')
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#')));
+  }
+
+  // Plain text only counts when it is clearly an image link, so pasting a sentence does nothing
+  const text = data.getData('text/plain').trim();
+  if (urls.length === 0 && IMAGE_URL_PATTERN.test(text)) {
+    urls.push(text);
+  }
+
+  return { files: [], urls: [...new Set(urls.filter(isImportableUrl))] };
+};
+
+/**
+ * Have the server download an image link and store it as a same-origin asset,
+ * so links work whatever the other site's CORS rules are
+ */
+export const importImageFromUrl = async (url: string, signal?: AbortSignal): Promise<File> => {
+  const response = await fetch('/api/import-url', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+    signal
+  });
+
+  let result: UrlImportResponse;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error(`Could not import the image: ${response.status} ${response.statusText}`);
+  }
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  const asset = await fetch(result.imageUrl, { signal });
+  if (!asset.ok) {
+    throw new Error(`Could not import the image: ${asset.status} ${asset.statusText}`);
+  }
+  const blob = await asset.blob();
+  return new File([blob], result.fileName, { type: result.contentType });
+};
+
+/**
+ * Turn an image URL into a File. Data URLs are decoded in the browser; web links
+ * go through the server import.
+ */
+export const fetchImageFile = async (url: string, signal?: AbortSignal): Promise<File> => {
+  if (!url.startsWith('data:')) {
+    return importImageFromUrl(url, signal);
+  }
+
+  const response = await fetch(url, { signal });
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) {
+    throw new Error('The link does not point to an image');
+  }
+  return new File([blob], fileNameFromUrl(url, blob.type), { type: blob.type });
+};
@@ -1,5 +1,7 @@
 // Image processing utilities for the AI image editor
 
+import { declaredSourceFormat, FORMAT_LABELS, SOURCE_FORMATS } from './formats';
+
 export interface ImageDimensions {
   width: number;
   height: number;
@@ -29,6 +31,88 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * Convert Blob to base64 string
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = () => reject(new Error('Failed to read image data'));
+  });
+};
+
+/**
+ * Re-encode an image blob as PNG through a canvas
+ */
+const reencodeAsPng = (blob: Blob): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(blob);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas context not available'));
+        return;
+      }
+
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      ctx.drawImage(img, 0, 0);
+      canvas.toBlob(
+        (png) => (png ? resolve(png) : reject(new Error('Failed to create blob'))),
+        'image/png'
+      );
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = url;
+  });
+};
+
+/**
+ * Load any displayable image URL (data, blob or remote) as a blob.
+ * Formats the AI service does not accept are re-encoded as PNG.
+ */
+export const imageUrlToBlob = async (imageUrl: string, signal?: AbortSignal): Promise<Blob> => {
+  let response: Response;
+  try {
+    response = await fetch(imageUrl, { signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error('Could not download the current image. The result link may have expired.');
+  }
+
+  if (!response.ok) {
+    throw new Error(`Could not download the current image: ${response.status} ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  const supported = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+  return supported.includes(blob.type) ? blob : reencodeAsPng(blob);
+};
+
+/**
+ * Load any displayable image URL (data, blob or remote) as base64, like imageUrlToBlob
+ */
+export const imageUrlToBase64 = async (imageUrl: string, signal?: AbortSignal): Promise<string> => {
+  if (/^data:image\/(?:jpeg|png|webp|gif);base64,/.test(imageUrl)) {
+    return imageUrl.split(',')[1];
+  }
+  return blobToBase64(await imageUrlToBlob(imageUrl, signal));
+};
+
 /**
  * Get image dimensions from file
  */
@@ -55,10 +139,10 @@ export const getImageDimensions = (file: File): Promise<ImageDimensions> => {
 };
 
 /**
- * Resize image while maintaining aspect ratio
+ * Resize image while maintaining aspect ratio. Images that fit are re-encoded at their own size.
  */
 export const resizeImage = (
-  file: File, 
+  image: Blob, 
   maxWidth: number, 
   maxHeight: number, 
   quality: number = 0.9
@@ -67,7 +151,7 @@ export const resizeImage = (
     const img = new Image();
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
-    const url = URL.createObjectURL(file);
+    const url = URL.createObjectURL(image);
     
     img.onload = () => {
       URL.revokeObjectURL(url);
@@ -85,10 +169,10 @@ export const resizeImage = (
         
         if (width > height) {
           width = maxWidth;
-          height = width / aspectRatio;
+          height = Math.max(1, Math.round(width / aspectRatio));
         } else {
           height = maxHeight;
-          width = height * aspectRatio;
+          width = Math.max(1, Math.round(height * aspectRatio));
         }
       }
       
@@ -97,6 +181,7 @@ export const resizeImage = (
       canvas.height = height;
       
       // Draw and compress image
+      ctx.imageSmoothingQuality = 'high';
       ctx.drawImage(img, 0, 0, width, height);
       
       canvas.toBlob(
@@ -115,13 +200,13 @@ export const resizeImage = (
               base64,
               dimensions: { width, height },
               fileSize: blob.size,
-              format: file.type
+              format: blob.type
             });
           };
           reader.onerror = () => reject(new Error('Failed to read blob'));
           reader.readAsDataURL(blob);
         },
-        file.type,
+        image.type,
         quality
       );
     };
@@ -135,24 +220,30 @@ export const resizeImage = (
   });
 };
 
+// Large photos are fine: the original stays in the browser, and AI edits get a working copy
+export const MAX_UPLOAD_BYTES = 100 * 1024 * 1024; // 100MB
+
+const SUPPORTED_FORMAT_NAMES = SOURCE_FORMATS.map((format) => FORMAT_LABELS[format]);
+
 /**
- * Validate image file
+ * Validate image file. Also used by the server for images imported from a URL.
+ * Browsers often leave the type of HEIC files empty, so the extension counts then.
  */
-export const validateImageFile = (file: File): { valid: boolean; error?: string } => {
-  const maxSize = 10 * 1024 * 1024; // 10MB
-  const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
-  
-  if (!allowedTypes.includes(file.type)) {
+export const validateImageFile = (
+  file: Pick<File, 'type' | 'size'> & { name?: string },
+  maxBytes: number = MAX_UPLOAD_BYTES
+): { valid: boolean; error?: string } => {
+  if (!declaredSourceFormat(file)) {
     return {
       valid: false,
-      error: 'Please upload a valid image file (JPEG, PNG, WebP, or GIF)'
+      error: `Please upload a valid image file (${SUPPORTED_FORMAT_NAMES.slice(0, -1).join(', ')} or ${SUPPORTED_FORMAT_NAMES.at(-1)})`
     };
   }
   
-  if (file.size > maxSize) {
+  if (file.size > maxBytes) {
     return {
       valid: false,
-      error: 'Image size must be less than 10MB'
+      error: `Image size must be less than ${formatFileSize(maxBytes)}`
     };
   }
   
@@ -192,32 +283,36 @@ export const downloadImage = (base64: string, filename: string, format: string =
 };
 
 /**
- * Create canvas from image
+ * Load an image element, allowing canvas reads for CORS-enabled sources
  */
-export const createCanvasFromImage = (imageUrl: string): Promise<HTMLCanvasElement> => {
+export const loadImage = (imageUrl: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    img.onload = () => {
-      if (!ctx) {
-        reject(new Error('Canvas context not available'));
-        return;
-      }
-      
-      canvas.width = img.naturalWidth;
-      canvas.height = img.naturalHeight;
-      ctx.drawImage(img, 0, 0);
-      resolve(canvas);
-    };
-    
+    img.onload = () => resolve(img);
     img.onerror = () => reject(new Error('Failed to load image'));
     img.crossOrigin = 'anonymous';
     img.src = imageUrl;
   });
 };
 
+/**
+ * Create canvas from image
+ */
+export const createCanvasFromImage = async (imageUrl: string): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(imageUrl);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
 /**
  * Format file size for display
  */
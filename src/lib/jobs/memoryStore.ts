@@ -0,0 +1,85 @@
+// In-memory job store for single-process deployments and local development
+
+import { toJobSnapshot, isTerminalJobStatus, type JobListener, type JobRecord, type JobStore, type JobUpdate } from './types';
+import type { ImageEditRequest } from '@/lib/imageEditApi';
+
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+export class InMemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, JobRecord>();
+  private readonly listeners = new Map<string, Set<JobListener>>();
+
+  constructor(private readonly retentionMs: number = DEFAULT_RETENTION_MS) {
+    // Expire finished jobs on a quiet server too; the timer must not keep the process alive
+    setInterval(() => this.pruneExpired(), Math.min(retentionMs, PRUNE_INTERVAL_MS)).unref();
+  }
+
+  async create(request: ImageEditRequest): Promise<JobRecord> {
+    this.pruneExpired();
+
+    const now = Date.now();
+    const job: JobRecord = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      message: 'Waiting for an available worker...',
+      operation: request.operation,
+      parameters: request.parameters,
+      request,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    return this.jobs.get(id) ?? null;
+  }
+
+  async update(id: string, update: JobUpdate): Promise<JobRecord> {
+    const existing = this.jobs.get(id);
+    if (!existing) {
+      throw new Error(`Job ${id} not found`);
+    }
+
+    const job: JobRecord = { ...existing, ...update, updatedAt: Date.now() };
+    if (isTerminalJobStatus(job.status)) {
+      // The request holds the base64 image and mask; nothing reads them after the job ends
+      job.request = undefined;
+      if (job.parameters?.mask) {
+        job.parameters = { ...job.parameters, mask: undefined };
+      }
+    }
+    this.jobs.set(id, job);
+
+    const snapshot = toJobSnapshot(job);
+    this.listeners.get(id)?.forEach((listener) => listener(snapshot));
+
+    return job;
+  }
+
+  subscribe(id: string, listener: JobListener): () => void {
+    const listeners = this.listeners.get(id) ?? new Set<JobListener>();
+    listeners.add(listener);
+    this.listeners.set(id, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(id);
+      }
+    };
+  }
+
+  private pruneExpired() {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (isTerminalJobStatus(job.status) && job.updatedAt < cutoff) {
+        this.jobs.delete(id);
+        this.listeners.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+// Background execution of image edit jobs
+
+import 'server-only';
+import { aiImageService } from '@/lib/aiService';
+import { getServerConfig } from '@/lib/config';
+import { isAIOperation, type ImageEditRequest } from '@/lib/imageEditApi';
+import { InMemoryJobStore } from './memoryStore';
+import { isTerminalJobStatus, type JobRecord, type JobStore } from './types';
+
+/**
+ * Runs queued jobs against the AI service with a bounded number of concurrent provider calls
+ */
+export class JobRunner {
+  private readonly pending: string[] = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private active = 0;
+
+  constructor(
+    readonly store: JobStore,
+    private readonly maxConcurrent: number
+  ) {}
+
+  async submit(request: ImageEditRequest): Promise<JobRecord> {
+    const job = await this.store.create(request);
+    this.pending.push(job.id);
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are dropped immediately; running jobs abort their provider call.
+   */
+  async cancel(id: string): Promise<JobRecord | null> {
+    const job = await this.store.get(id);
+    if (!job || isTerminalJobStatus(job.status)) {
+      return job;
+    }
+
+    const pendingIndex = this.pending.indexOf(id);
+    if (pendingIndex !== -1) {
+      this.pending.splice(pendingIndex, 1);
+      return this.store.update(id, { status: 'cancelled', message: 'Cancelled' });
+    }
+
+    // run() records the cancelled state once the provider call unwinds
+    this.controllers.get(id)?.abort();
+    return job;
+  }
+
+  private drain() {
+    while (this.active < this.maxConcurrent && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      this.active++;
+
+      // Registered before anything awaits, so a cancel always finds the job in pending or here
+      const controller = new AbortController();
+      this.controllers.set(id, controller);
+
+      this.run(id, controller)
+        .catch((error) => console.error(`Job ${id} crashed:`, error))
+        .finally(() => {
+          this.controllers.delete(id);
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private async run(id: string, controller: AbortController) {
+    const job = await this.store.get(id);
+    if (!job?.request) return;
+
+    // Cancelled while the job was being read
+    if (controller.signal.aborted) {
+      await this.store.update(id, { status: 'cancelled', message: 'Cancelled' });
+      return;
+    }
+
+    const { image, operation, parameters } = job.request;
+
+    try {
+      await this.store.update(id, {
+        status: 'running',
+        message: `Processing ${operation.replace('-', ' ')}...`
+      });
+
+      // Custom edits fall back to the generic enhance pipeline
+      const result = await aiImageService.processImage({
+        image,
+        operation: isAIOperation(operation) ? operation : 'enhance',
+        parameters
+      }, {
+        signal: controller.signal,
+        onRetry: (attempt, reason) => {
+          this.store.update(id, {
+            message: `Provider ${reason === 'rate-limited' ? 'is busy' : 'failed'}, retrying (attempt ${attempt})...`,
+            attempts: attempt
+          }).catch((error) => console.error(`Failed to update job ${id}:`, error));
+        }
+      });
+
+      if (result.cancelled) {
+        await this.store.update(id, { status: 'cancelled', message: 'Cancelled' });
+      } else if (result.success && result.data) {
+        await this.store.update(id, {
+          status: 'succeeded',
+          message: `${operation.replace('-', ' ')} completed`,
+          result: {
+            imageUrl: result.data,
+            images: result.images ?? [result.data],
+            processingTime: result.processingTime,
+            provider: result.provider
+          },
+          attempts: result.attempts
+        });
+      } else {
+        await this.store.update(id, {
+          status: 'failed',
+          message: 'Processing failed',
+          error: result.error || 'Processing failed',
+          failureReason: result.failureReason,
+          attempts: result.attempts
+        });
+      }
+    } catch (error) {
+      await this.store.update(id, {
+        status: 'failed',
+        message: 'Processing failed',
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  }
+}
+
+// Route handlers can be bundled separately, so keep a single runner per server process
+const globalForJobs = globalThis as typeof globalThis & { jobRunner?: JobRunner };
+
+const createJobRunner = (): JobRunner => {
+  const config = getServerConfig();
+  return new JobRunner(new InMemoryJobStore(config.jobRetentionMs), config.maxConcurrentJobs);
+};
+
+export const jobRunner = globalForJobs.jobRunner ?? (globalForJobs.jobRunner = createJobRunner());
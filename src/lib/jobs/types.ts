@@ -0,0 +1,78 @@
+// Job contracts shared by the job routes and the browser client
+
+import type {
+  EditFailureReason,
+  EditOperation,
+  EditParameters,
+  ImageEditRequest,
+  ResultProvider
+} from '@/lib/imageEditApi';
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export interface JobResult {
+  imageUrl: string;
+  images: string[];
+  processingTime?: number;
+  provider?: ResultProvider;
+}
+
+/**
+ * Public view of a job, as returned by GET /api/jobs/:id and streamed over SSE
+ */
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  operation: EditOperation;
+  parameters?: EditParameters;
+  message?: string;
+  result?: JobResult;
+  error?: string;
+  failureReason?: EditFailureReason;
+  attempts?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobRecord extends JobSnapshot {
+  request?: ImageEditRequest; // Dropped once the job finishes, so the image and mask are not retained
+}
+
+export type JobUpdate = Partial<Pick<JobRecord, 'status' | 'message' | 'result' | 'error' | 'failureReason' | 'attempts'>>;
+
+export type JobListener = (job: JobSnapshot) => void;
+
+/**
+ * Persistence for jobs. Implementations must notify subscribers after every update.
+ */
+export interface JobStore {
+  create(request: ImageEditRequest): Promise<JobRecord>;
+  get(id: string): Promise<JobRecord | null>;
+  update(id: string, update: JobUpdate): Promise<JobRecord>;
+  subscribe(id: string, listener: JobListener): () => void;
+}
+
+export interface CreateJobResponse {
+  job: JobSnapshot;
+}
+
+export const toJobSnapshot = (job: JobRecord): JobSnapshot => ({
+  id: job.id,
+  status: job.status,
+  operation: job.operation,
+  parameters: job.parameters,
+  message: job.message,
+  result: job.result,
+  error: job.error,
+  failureReason: job.failureReason,
+  attempts: job.attempts,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt
+});
+
+export const isTerminalJobStatus = (status: JobStatus): boolean =>
+  TERMINAL_JOB_STATUSES.includes(status);
@@ -0,0 +1,329 @@
+// Finding and replacing metadata blocks inside JPEG, PNG and WebP files.
+// Other formats pass through untouched.
+
+import { buildPhotoshopIptc, readPhotoshopIptc } from './iptc';
+import type { MetadataBlocks } from './types';
+
+type ContainerFormat = 'jpeg' | 'png' | 'webp';
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// A JPEG segment carries at most this many bytes after its length field
+const MAX_SEGMENT_BYTES = 0xffff - 2;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+const encoder = new TextEncoder();
+
+const startsWith = (bytes: Uint8Array, prefix: ArrayLike<number>, offset = 0) => {
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[offset + i] !== prefix[i]) return false;
+  }
+  return true;
+};
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.byteLength;
+  }
+  return output;
+};
+
+export const detectContainer = (bytes: Uint8Array): ContainerFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (startsWith(bytes, PNG_SIGNATURE)) return 'png';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'webp';
+  return null;
+};
+
+// JPEG
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number; // Exclusive, including the marker and length
+}
+
+// Segments up to the start of the image data; everything from there on is returned as the tail
+const readJpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; tail: number } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.byteLength && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan, end of image
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return { segments, tail: Math.min(offset, bytes.byteLength) };
+};
+
+// Body of a segment after its marker and length
+const segmentBody = (bytes: Uint8Array, segment: JpegSegment) => bytes.subarray(segment.start + 4, segment.end);
+
+const isMetadataSegment = (bytes: Uint8Array, segment: JpegSegment): boolean => {
+  const body = segmentBody(bytes, segment);
+  if (segment.marker === 0xe1) {
+    return startsWith(body, EXIF_HEADER) || startsWith(body, ascii('http://ns.adobe.com/xap/1.0/'));
+  }
+  // APP13 Photoshop resources and comments; APP2 colour profiles are kept
+  return segment.marker === 0xed || segment.marker === 0xfe;
+};
+
+const readJpeg = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = {};
+  for (const segment of readJpegSegments(bytes).segments) {
+    const body = segmentBody(bytes, segment);
+    if (segment.marker === 0xe1 && startsWith(body, EXIF_HEADER)) {
+      blocks.exif ??= body.slice(EXIF_HEADER.length);
+    } else if (segment.marker === 0xe1 && startsWith(body, ascii(XMP_NAMESPACE))) {
+      blocks.xmp ??= utf8.decode(body.subarray(XMP_NAMESPACE.length));
+    } else if (segment.marker === 0xed) {
+      blocks.iptc ??= readPhotoshopIptc(body);
+    }
+  }
+  return blocks;
+};
+
+const jpegSegment = (marker: number, body: Uint8Array): Uint8Array | null => {
+  if (body.byteLength > MAX_SEGMENT_BYTES) return null;
+  const header = new Uint8Array([0xff, marker, (body.byteLength + 2) >> 8, (body.byteLength + 2) & 0xff]);
+  return concat([header, body]);
+};
+
+// Blocks too large for a single segment are dropped rather than split
+const writeJpeg = (bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array => {
+  const { segments, tail } = readJpegSegments(bytes);
+  const kept = segments.filter((segment) => !isMetadataSegment(bytes, segment));
+  // The JFIF header stays first, as some readers expect
+  const leading = kept.filter((segment) => segment.marker === 0xe0);
+  const rest = kept.filter((segment) => segment.marker !== 0xe0);
+
+  const added = [
+    blocks.exif && jpegSegment(0xe1, concat([new Uint8Array(EXIF_HEADER), blocks.exif])),
+    blocks.xmp && jpegSegment(0xe1, concat([encoder.encode(XMP_NAMESPACE), encoder.encode(blocks.xmp)])),
+    blocks.iptc && jpegSegment(0xed, buildPhotoshopIptc(blocks.iptc))
+  ].filter((segment): segment is Uint8Array => Boolean(segment));
+
+  return concat([
+    bytes.subarray(0, 2),
+    ...leading.map((segment) => bytes.subarray(segment.start, segment.end)),
+    ...added,
+    ...rest.map((segment) => bytes.subarray(segment.start, segment.end)),
+    bytes.subarray(tail)
+  ]);
+};
+
+// PNG
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.byteLength; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface Chunk {
+  type: string;
+  start: number;
+  end: number; // Exclusive, including length, type, data and CRC or padding
+  data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.byteLength) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.byteLength) break;
+    chunks.push({ type, start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const output = new Uint8Array(12 + data.byteLength);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, data.byteLength);
+  output.set(ascii(type), 4);
+  output.set(data, 8);
+  view.setUint32(8 + data.byteLength, crc32(output.subarray(4, 8 + data.byteLength)));
+  return output;
+};
+
+// Text chunks hold comments, XMP and raw profiles, so they all count as metadata
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+
+const readPng = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = {};
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type === 'eXIf') {
+      blocks.exif ??= chunk.data.slice();
+    } else if (chunk.type === 'iTXt' && startsWith(chunk.data, [...ascii(PNG_XMP_KEYWORD), 0])) {
+      // keyword\0 compression flag, method, language\0, translated keyword\0, text
+      let offset = PNG_XMP_KEYWORD.length + 1;
+      const compressed = chunk.data[offset] === 1;
+      offset += 2;
+      offset = chunk.data.indexOf(0, offset) + 1;
+      offset = chunk.data.indexOf(0, offset) + 1;
+      if (!compressed && offset > 0) blocks.xmp ??= utf8.decode(chunk.data.subarray(offset));
+    }
+  }
+  return blocks;
+};
+
+// PNG has no standard place for IPTC, so it is not written
+const writePng = (bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  const added = [
+    blocks.exif && pngChunk('eXIf', blocks.exif),
+    blocks.xmp && pngChunk('iTXt', concat([encoder.encode(PNG_XMP_KEYWORD), new Uint8Array(5), encoder.encode(blocks.xmp)]))
+  ].filter((chunk): chunk is Uint8Array => Boolean(chunk));
+
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of chunks) {
+    if (PNG_METADATA_CHUNKS.includes(chunk.type)) continue;
+    parts.push(bytes.subarray(chunk.start, chunk.end));
+    // Metadata goes straight after the header, well before the image data
+    if (chunk.type === 'IHDR') parts.push(...added);
+  }
+  return concat(parts);
+};
+
+// WebP
+
+const readWebpChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.byteLength) {
+    const type = latin1.decode(bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    const end = offset + 8 + length + (length % 2);
+    if (offset + 8 + length > bytes.byteLength) break;
+    chunks.push({ type, start: offset, end: Math.min(end, bytes.byteLength), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+  }
+  return chunks;
+};
+
+const webpChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const output = new Uint8Array(8 + data.byteLength + (data.byteLength % 2));
+  output.set(ascii(type), 0);
+  new DataView(output.buffer).setUint32(4, data.byteLength, true);
+  output.set(data, 8);
+  return output;
+};
+
+const readWebp = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = {};
+  for (const chunk of readWebpChunks(bytes)) {
+    if (chunk.type === 'EXIF') {
+      // Some writers keep the JPEG-style prefix
+      blocks.exif ??= (startsWith(chunk.data, EXIF_HEADER) ? chunk.data.subarray(EXIF_HEADER.length) : chunk.data).slice();
+    } else if (chunk.type === 'XMP ') {
+      blocks.xmp ??= utf8.decode(chunk.data);
+    }
+  }
+  return blocks;
+};
+
+// Canvas size and alpha from the image data, for building a VP8X header
+const readWebpCanvas = (chunks: Chunk[]): { width: number; height: number; alpha: boolean } | null => {
+  for (const { type, data } of chunks) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (type === 'VP8 ' && data.byteLength >= 10) {
+      return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, alpha: false };
+    }
+    if (type === 'VP8L' && data.byteLength >= 5) {
+      const bits = view.getUint32(1, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: Boolean((bits >>> 28) & 1) };
+    }
+  }
+  return null;
+};
+
+const VP8X_FLAGS = { exif: 0x08, xmp: 0x04, alpha: 0x10 };
+
+// WebP has no place for IPTC either
+const writeWebp = (bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array => {
+  const chunks = readWebpChunks(bytes).filter((chunk) => chunk.type !== 'EXIF' && chunk.type !== 'XMP ');
+  let header = chunks.find((chunk) => chunk.type === 'VP8X')?.data.slice();
+
+  // Metadata needs the extended format; a simple file gets a VP8X header first
+  if (!header && (blocks.exif || blocks.xmp)) {
+    const canvas = readWebpCanvas(chunks);
+    if (!canvas) return bytes;
+    header = new Uint8Array(10);
+    header[0] = canvas.alpha ? VP8X_FLAGS.alpha : 0;
+    header.set([(canvas.width - 1) & 0xff, ((canvas.width - 1) >> 8) & 0xff, ((canvas.width - 1) >> 16) & 0xff], 4);
+    header.set([(canvas.height - 1) & 0xff, ((canvas.height - 1) >> 8) & 0xff, ((canvas.height - 1) >> 16) & 0xff], 7);
+  }
+  if (header) {
+    header[0] = (header[0] & ~(VP8X_FLAGS.exif | VP8X_FLAGS.xmp))
+      | (blocks.exif ? VP8X_FLAGS.exif : 0)
+      | (blocks.xmp ? VP8X_FLAGS.xmp : 0);
+  }
+
+  const body = concat([
+    ...(header ? [webpChunk('VP8X', header)] : []),
+    ...chunks.filter((chunk) => chunk.type !== 'VP8X').map((chunk) => bytes.subarray(chunk.start, chunk.end)),
+    ...(blocks.exif ? [webpChunk('EXIF', blocks.exif)] : []),
+    ...(blocks.xmp ? [webpChunk('XMP ', encoder.encode(blocks.xmp))] : [])
+  ]);
+
+  const riff = new Uint8Array(12);
+  riff.set(ascii('RIFF'), 0);
+  new DataView(riff.buffer).setUint32(4, body.byteLength + 4, true);
+  riff.set(ascii('WEBP'), 8);
+  return concat([riff, body]);
+};
+
+/**
+ * The EXIF, XMP and IPTC blocks of an image file
+ */
+export const readMetadataBlocks = (bytes: Uint8Array): MetadataBlocks => {
+  switch (detectContainer(bytes)) {
+    case 'jpeg': return readJpeg(bytes);
+    case 'png': return readPng(bytes);
+    case 'webp': return readWebp(bytes);
+    default: return {};
+  }
+};
+
+/**
+ * Replace all metadata in an image file with the given blocks. Pass no blocks to strip it.
+ * Colour profiles are kept, since they affect how the pixels look.
+ */
+export const writeMetadataBlocks = (bytes: Uint8Array, blocks: MetadataBlocks = {}): Uint8Array => {
+  switch (detectContainer(bytes)) {
+    case 'jpeg': return writeJpeg(bytes, blocks);
+    case 'png': return writePng(bytes, blocks);
+    case 'webp': return writeWebp(bytes, blocks);
+    default: return bytes;
+  }
+};
@@ -0,0 +1,113 @@
+// Metadata carried over from HEIF, AVIF and TIFF files when they are converted to PNG
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTiff, readNumber, readString, TAGS, writeTiff, type TiffData } from './exif';
+import { readHeifMetadataBlocks, readTiffMetadataBlocks } from './converted';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+const concat = (...parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.byteLength;
+  }
+  return output;
+};
+
+const uint = (value: number, size: 2 | 4) => {
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  if (size === 2) view.setUint16(0, value);
+  else view.setUint32(0, value);
+  return bytes;
+};
+
+const box = (type: string, ...content: Uint8Array[]) => {
+  const body = concat(...content);
+  return concat(uint(8 + body.byteLength, 4), text(type), body);
+};
+
+// Version and flags, then the content
+const fullBox = (type: string, version: number, ...content: Uint8Array[]) =>
+  box(type, new Uint8Array([version, 0, 0, 0]), ...content);
+
+const ascii = (tag: number, value: string) => ({ tag, type: 2, count: value.length + 1, data: text(`${value}\0`) });
+
+const short = (tag: number, value: number) => ({ tag, type: 3, count: 1, data: uint(value, 2) });
+
+const EXIF: TiffData = {
+  littleEndian: false,
+  ifd0: [ascii(TAGS.make, 'Apple'), ascii(TAGS.model, 'iPhone 15'), short(TAGS.orientation, 6)],
+  exif: [ascii(TAGS.dateTimeOriginal, '2024:05:01 12:00:00')],
+  gps: [ascii(TAGS.gpsLatitudeRef, 'N')],
+  interop: []
+};
+
+const XMP = '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF/></x:xmpmeta>';
+
+// A HEIF with the Exif item in the file's mdat and the XMP item in the meta box's idat
+const heif = (exifPayload: Uint8Array) => {
+  const ftyp = box('ftyp', text('heic'), uint(0, 4), text('mif1heic'));
+  const iinf = fullBox('iinf', 0, uint(2, 2),
+    fullBox('infe', 2, uint(1, 2), uint(0, 2), text('Exif'), text('\0')),
+    fullBox('infe', 2, uint(2, 2), uint(0, 2), text('mime'), text('XMP\0application/rdf+xml\0'))
+  );
+  const iloc = (exifOffset: number) => fullBox('iloc', 1, uint(0x4400, 2), uint(2, 2),
+    uint(1, 2), uint(0, 2), uint(0, 2), uint(1, 2), uint(exifOffset, 4), uint(exifPayload.byteLength, 4),
+    uint(2, 2), uint(1, 2), uint(0, 2), uint(1, 2), uint(0, 4), uint(XMP.length, 4)
+  );
+  const meta = (exifOffset: number) => fullBox('meta', 0, iinf, iloc(exifOffset), box('idat', text(XMP)));
+
+  // The mdat content starts after the ftyp, the meta box and its own header
+  const exifOffset = ftyp.byteLength + meta(0).byteLength + 8;
+  return concat(ftyp, meta(exifOffset), box('mdat', exifPayload));
+};
+
+describe('readHeifMetadataBlocks', () => {
+  it('reads the Exif item from the file and the XMP item from idat', () => {
+    const exif = writeTiff(EXIF);
+    // The payload's first four bytes give the offset of the TIFF header past them
+    const blocks = readHeifMetadataBlocks(heif(concat(uint(6, 4), text('Exif\0\0'), exif)));
+
+    assert.deepEqual(blocks.exif, exif);
+    assert.equal(blocks.xmp, XMP);
+    const tiff = parseTiff(blocks.exif!)!;
+    assert.equal(readString(tiff.ifd0, TAGS.model), 'iPhone 15');
+    assert.equal(readString(tiff.exif, TAGS.dateTimeOriginal), '2024:05:01 12:00:00');
+  });
+
+  it('returns nothing for a file without a meta box or with a truncated one', () => {
+    assert.deepEqual(readHeifMetadataBlocks(box('ftyp', text('avif'))), {});
+    const file = heif(concat(uint(0, 4), writeTiff(EXIF)));
+    assert.doesNotThrow(() => readHeifMetadataBlocks(file.subarray(0, 60)));
+  });
+});
+
+describe('readTiffMetadataBlocks', () => {
+  it('keeps the tags describing the photo and drops the pixel layout', () => {
+    const file = writeTiff({
+      ...EXIF,
+      ifd0: [
+        ...EXIF.ifd0,
+        { tag: 0x0100, type: 3, count: 1, data: uint(640, 2) }, // ImageWidth
+        { tag: 0x0111, type: 4, count: 1, data: uint(4096, 4) }, // StripOffsets
+        { tag: 0x02bc, type: 1, count: XMP.length, data: text(XMP) } // XMP
+      ]
+    });
+
+    const blocks = readTiffMetadataBlocks(file);
+    const tiff = parseTiff(blocks.exif!)!;
+
+    assert.deepEqual(tiff.ifd0.map((entry) => entry.tag).sort(), [TAGS.make, TAGS.model, TAGS.orientation].sort());
+    assert.equal(readNumber(tiff, tiff.ifd0, TAGS.orientation), 6);
+    assert.equal(tiff.gps.length, 1);
+    assert.equal(blocks.xmp, XMP);
+  });
+
+  it('returns nothing for bytes that are not a TIFF', () => {
+    assert.deepEqual(readTiffMetadataBlocks(text('not a tiff')), {});
+  });
+});
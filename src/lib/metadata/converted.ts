@@ -0,0 +1,232 @@
+// Reading metadata from the formats that are converted to PNG on import, so it can be
+// written into the converted file: Exif and XMP items in HEIF and AVIF, and the
+// descriptive tags of a TIFF file.
+
+import { parseTiff, TAGS, writeTiff, type TiffData } from './exif';
+import type { MetadataBlocks } from './types';
+
+const XMP_CONTENT_TYPE = 'application/rdf+xml';
+const TIFF_XMP_TAG = 0x02bc;
+
+// The IFD0 tags that describe the photo rather than how the TIFF stores its pixels
+const TIFF_DESCRIPTIVE_TAGS: number[] = [
+  TAGS.description,
+  TAGS.make,
+  TAGS.model,
+  TAGS.orientation,
+  TAGS.software,
+  TAGS.dateTime,
+  TAGS.artist,
+  TAGS.copyright
+];
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+// HEIF and AVIF (ISO base media file format)
+
+interface Box {
+  type: string;
+  start: number; // Content, after the header
+  end: number;
+}
+
+// Unsigned big-endian integers of 0, 2, 4 or 8 bytes, as iloc sizes them
+const readUint = (view: DataView, offset: number, size: number): number => {
+  switch (size) {
+    case 0: return 0;
+    case 2: return view.getUint16(offset);
+    case 4: return view.getUint32(offset);
+    case 8: return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+    default: throw new RangeError(`Unsupported field size ${size}`);
+  }
+};
+
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = latin1.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 4, 4));
+    let header = 8;
+    if (size === 1) {
+      size = readUint(view, offset + 8, 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const readCString = (bytes: Uint8Array, offset: number): { value: string; next: number } => {
+  const end = bytes.indexOf(0, offset);
+  const stop = end === -1 ? bytes.byteLength : end;
+  return { value: utf8.decode(bytes.subarray(offset, stop)), next: stop + 1 };
+};
+
+// Item ids mapped to their type, and the content type of MIME items
+const readItemInfo = (bytes: Uint8Array, view: DataView, iinf: Box): Map<number, { type: string; contentType?: string }> => {
+  const items = new Map<number, { type: string; contentType?: string }>();
+  const entriesStart = iinf.start + 4 + (view.getUint8(iinf.start) === 0 ? 2 : 4);
+
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    const version = view.getUint8(infe.start);
+    if (infe.type !== 'infe' || version < 2) continue;
+
+    let offset = infe.start + 4;
+    const id = version === 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += (version === 2 ? 2 : 4) + 2; // Id and protection index
+    const type = latin1.decode(bytes.subarray(offset, offset + 4));
+    offset += 4;
+
+    let contentType: string | undefined;
+    if (type === 'mime') {
+      const name = readCString(bytes, offset);
+      contentType = readCString(bytes, name.next).value;
+    }
+    items.set(id, { type, contentType });
+  }
+  return items;
+};
+
+interface ItemLocation {
+  constructionMethod: number; // 0: file offsets, 1: offsets into the idat box
+  extents: Array<{ offset: number; length: number }>;
+}
+
+const readItemLocations = (view: DataView, iloc: Box): Map<number, ItemLocation> => {
+  const locations = new Map<number, ItemLocation>();
+  const version = view.getUint8(iloc.start);
+  let offset = iloc.start + 4;
+
+  const sizes = view.getUint16(offset);
+  offset += 2;
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version === 1 || version === 2 ? sizes & 0xf : 0;
+
+  const count = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < count; i++) {
+    const id = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0xf;
+      offset += 2;
+    }
+    offset += 2; // Data reference index
+    const baseOffset = readUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+    const extents: ItemLocation['extents'] = [];
+    for (let extent = 0; extent < extentCount; extent++) {
+      offset += indexSize;
+      const extentOffset = readUint(view, offset, offsetSize);
+      offset += offsetSize;
+      const length = readUint(view, offset, lengthSize);
+      offset += lengthSize;
+      extents.push({ offset: baseOffset + extentOffset, length });
+    }
+    locations.set(id, { constructionMethod, extents });
+  }
+  return locations;
+};
+
+const readItemData = (bytes: Uint8Array, location: ItemLocation, idat: Box | undefined): Uint8Array | null => {
+  const [origin, limit] = location.constructionMethod === 0
+    ? [0, bytes.byteLength]
+    : location.constructionMethod === 1 && idat ? [idat.start, idat.end] : [-1, -1];
+  if (origin < 0) return null;
+
+  const parts: Uint8Array[] = [];
+  for (const { offset, length } of location.extents) {
+    const start = origin + offset;
+    // A zero length runs to the end of the file or idat box
+    const end = length === 0 ? limit : start + length;
+    if (start > limit || end > limit) return null;
+    parts.push(bytes.subarray(start, end));
+  }
+
+  const data = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.byteLength;
+  }
+  return data;
+};
+
+/**
+ * The Exif and XMP items of a HEIF or AVIF file
+ */
+export const readHeifMetadataBlocks = (bytes: Uint8Array): MetadataBlocks => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blocks: MetadataBlocks = {};
+
+  try {
+    const meta = readBoxes(view, 0, bytes.byteLength).find((box) => box.type === 'meta');
+    if (!meta) return blocks;
+
+    // meta is a full box: version and flags come before its children
+    const children = readBoxes(view, meta.start + 4, meta.end);
+    const iinf = children.find((box) => box.type === 'iinf');
+    const iloc = children.find((box) => box.type === 'iloc');
+    if (!iinf || !iloc) return blocks;
+
+    const locations = readItemLocations(view, iloc);
+    const idat = children.find((box) => box.type === 'idat');
+
+    for (const [id, item] of readItemInfo(bytes, view, iinf)) {
+      const location = locations.get(id);
+      const data = location && readItemData(bytes, location, idat);
+      if (!data) continue;
+
+      if (item.type === 'Exif' && data.byteLength > 4) {
+        // The payload starts with the offset of the TIFF header, skipping any "Exif\0\0" prefix
+        const tiffStart = 4 + new DataView(data.buffer, data.byteOffset).getUint32(0);
+        if (tiffStart < data.byteLength) blocks.exif ??= data.slice(tiffStart);
+      } else if (item.type === 'mime' && item.contentType === XMP_CONTENT_TYPE) {
+        blocks.xmp ??= utf8.decode(data);
+      }
+    }
+  } catch {
+    // A truncated or malformed box; metadata is optional, so the image still opens
+  }
+
+  return blocks;
+};
+
+// TIFF
+
+/**
+ * The EXIF and XMP of a TIFF file's first image. Only the tags that describe the
+ * photo are kept, since the ones describing the TIFF's own pixel layout would be
+ * wrong for the converted image.
+ */
+export const readTiffMetadataBlocks = (bytes: Uint8Array): MetadataBlocks => {
+  const tiff = parseTiff(bytes);
+  if (!tiff) return {};
+
+  const xmp = tiff.ifd0.find((entry) => entry.tag === TIFF_XMP_TAG);
+  const descriptive: TiffData = {
+    ...tiff,
+    ifd0: tiff.ifd0.filter((entry) => TIFF_DESCRIPTIVE_TAGS.includes(entry.tag))
+  };
+  const hasExif = descriptive.ifd0.length + descriptive.exif.length + descriptive.gps.length > 0;
+
+  return {
+    exif: hasExif ? writeTiff(descriptive) : undefined,
+    xmp: xmp ? utf8.decode(xmp.data).replace(/\0+$/, '') : undefined
+  };
+};
@@ -0,0 +1,268 @@
+// Reading and rewriting the TIFF structure that holds EXIF data
+
+import type { GpsPosition } from './types';
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array; // Raw value bytes, in the structure's own byte order
+}
+
+/**
+ * The directories of an EXIF block. Pointer tags are left out and recreated on write.
+ */
+export interface TiffData {
+  littleEndian: boolean;
+  ifd0: TiffEntry[];
+  exif: TiffEntry[];
+  gps: TiffEntry[];
+  interop: TiffEntry[];
+}
+
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4
+};
+
+export const TAGS = {
+  orientation: 0x0112,
+  make: 0x010f,
+  model: 0x0110,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  description: 0x010e,
+  exifPointer: 0x8769,
+  gpsPointer: 0x8825,
+  interopPointer: 0xa005,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006
+} as const;
+
+const POINTER_TAGS: number[] = [TAGS.exifPointer, TAGS.gpsPointer, TAGS.interopPointer];
+
+const readIfd = (view: DataView, offset: number, littleEndian: boolean): { entries: TiffEntry[]; pointers: Map<number, number> } => {
+  const entries: TiffEntry[] = [];
+  const pointers = new Map<number, number>();
+  if (offset < 8 || offset + 2 > view.byteLength) return { entries, pointers };
+
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entryOffset, littleEndian);
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (size === 0) continue;
+
+    const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (POINTER_TAGS.includes(tag)) {
+      pointers.set(tag, view.getUint32(valueOffset, littleEndian));
+      continue;
+    }
+
+    entries.push({
+      tag,
+      type,
+      count: valueCount,
+      data: new Uint8Array(view.buffer, view.byteOffset + valueOffset, size).slice()
+    });
+  }
+  return { entries, pointers };
+};
+
+/**
+ * Parse an EXIF block. IFD1, which only holds the embedded thumbnail, is dropped;
+ * after an edit the thumbnail would show the unedited photo.
+ */
+export const parseTiff = (bytes: Uint8Array): TiffData | null => {
+  if (bytes.byteLength < 8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+  const exif = readIfd(view, ifd0.pointers.get(TAGS.exifPointer) ?? 0, littleEndian);
+  const gps = readIfd(view, ifd0.pointers.get(TAGS.gpsPointer) ?? 0, littleEndian);
+  const interop = readIfd(view, exif.pointers.get(TAGS.interopPointer) ?? 0, littleEndian);
+
+  return {
+    littleEndian,
+    ifd0: ifd0.entries,
+    exif: exif.entries,
+    gps: gps.entries,
+    interop: interop.entries
+  };
+};
+
+// Size of a directory and the values that do not fit inline
+const ifdSize = (entries: TiffEntry[]): number =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, entry) => sum + (entry.data.byteLength > 4 ? entry.data.byteLength + (entry.data.byteLength % 2) : 0), 0);
+
+// The offset is filled in once the layout is known
+const pointerEntry = (tag: number): TiffEntry => ({ tag, type: 4, count: 1, data: new Uint8Array(4) });
+
+/**
+ * Serialize directories back into an EXIF block, in the original byte order
+ */
+export const writeTiff = (tiff: TiffData): Uint8Array => {
+  const { littleEndian } = tiff;
+  const withPointer = (entries: TiffEntry[], tag: number, target: TiffEntry[]) =>
+    target.length > 0 ? [...entries, pointerEntry(tag)] : entries;
+
+  const exif = withPointer(tiff.exif, TAGS.interopPointer, tiff.interop);
+  const ifd0 = withPointer(withPointer(tiff.ifd0, TAGS.exifPointer, exif), TAGS.gpsPointer, tiff.gps);
+
+  // Lay the directories out one after another, then point at them
+  const directories = [
+    { pointer: 0, entries: ifd0 },
+    { pointer: TAGS.exifPointer, entries: exif },
+    { pointer: TAGS.interopPointer, entries: tiff.interop },
+    { pointer: TAGS.gpsPointer, entries: tiff.gps }
+  ].filter((directory) => directory.entries.length > 0);
+
+  const layout: Array<{ entries: TiffEntry[]; offset: number }> = [];
+  const pointerTargets = new Map<number, number>();
+  let offset = 8;
+  for (const { pointer, entries } of directories) {
+    layout.push({ entries: [...entries].sort((a, b) => a.tag - b.tag), offset });
+    pointerTargets.set(pointer, offset);
+    offset += ifdSize(entries);
+  }
+
+  const output = new Uint8Array(offset);
+  const view = new DataView(output.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, layout.length > 0 ? 8 : 0, littleEndian);
+
+  for (const { entries, offset: ifdOffset } of layout) {
+    view.setUint16(ifdOffset, entries.length, littleEndian);
+    let dataOffset = ifdOffset + 2 + entries.length * 12 + 4;
+
+    entries.forEach((entry, index) => {
+      const entryOffset = ifdOffset + 2 + index * 12;
+      view.setUint16(entryOffset, entry.tag, littleEndian);
+      view.setUint16(entryOffset + 2, entry.type, littleEndian);
+      view.setUint32(entryOffset + 4, entry.count, littleEndian);
+
+      if (POINTER_TAGS.includes(entry.tag)) {
+        view.setUint32(entryOffset + 8, pointerTargets.get(entry.tag) ?? 0, littleEndian);
+      } else if (entry.data.byteLength <= 4) {
+        output.set(entry.data, entryOffset + 8);
+      } else {
+        view.setUint32(entryOffset + 8, dataOffset, littleEndian);
+        output.set(entry.data, dataOffset);
+        dataOffset += entry.data.byteLength + (entry.data.byteLength % 2);
+      }
+    });
+    // Next IFD offset stays 0: there is no thumbnail directory
+  }
+
+  return output;
+};
+
+const readNumbers = (entry: TiffEntry, littleEndian: boolean): number[] => {
+  const view = new DataView(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength);
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    switch (entry.type) {
+      case 1: case 7: values.push(view.getUint8(i)); break;
+      case 6: values.push(view.getInt8(i)); break;
+      case 3: values.push(view.getUint16(i * 2, littleEndian)); break;
+      case 8: values.push(view.getInt16(i * 2, littleEndian)); break;
+      case 4: case 13: values.push(view.getUint32(i * 4, littleEndian)); break;
+      case 9: values.push(view.getInt32(i * 4, littleEndian)); break;
+      case 11: values.push(view.getFloat32(i * 4, littleEndian)); break;
+      case 12: values.push(view.getFloat64(i * 8, littleEndian)); break;
+      case 5: case 10: {
+        const read = entry.type === 5 ? 'getUint32' : 'getInt32';
+        const denominator = view[read](i * 8 + 4, littleEndian);
+        values.push(denominator === 0 ? 0 : view[read](i * 8, littleEndian) / denominator);
+        break;
+      }
+    }
+  }
+  return values;
+};
+
+const find = (entries: TiffEntry[], tag: number) => entries.find((entry) => entry.tag === tag);
+
+export const readNumber = (tiff: TiffData, entries: TiffEntry[], tag: number): number | undefined => {
+  const entry = find(entries, tag);
+  return entry ? readNumbers(entry, tiff.littleEndian)[0] : undefined;
+};
+
+export const readString = (entries: TiffEntry[], tag: number): string | undefined => {
+  const entry = find(entries, tag);
+  if (!entry || (entry.type !== 2 && entry.type !== 7)) return undefined;
+  const text = new TextDecoder().decode(entry.data).replace(/\0[\s\S]*$/, '').trim();
+  return text || undefined;
+};
+
+/**
+ * The GPS position from the GPS directory, if it has one
+ */
+export const readGps = (tiff: TiffData): GpsPosition | undefined => {
+  const latitude = find(tiff.gps, TAGS.gpsLatitude);
+  const longitude = find(tiff.gps, TAGS.gpsLongitude);
+  if (!latitude || !longitude) return undefined;
+
+  const toDegrees = (entry: TiffEntry) => {
+    const [degrees = 0, minutes = 0, seconds = 0] = readNumbers(entry, tiff.littleEndian);
+    return degrees + minutes / 60 + seconds / 3600;
+  };
+  const sign = (tag: number, negative: string) => (readString(tiff.gps, tag)?.toUpperCase() === negative ? -1 : 1);
+
+  const altitude = readNumber(tiff, tiff.gps, TAGS.gpsAltitude);
+  const belowSeaLevel = readNumber(tiff, tiff.gps, TAGS.gpsAltitudeRef) === 1;
+
+  return {
+    latitude: sign(TAGS.gpsLatitudeRef, 'S') * toDegrees(latitude),
+    longitude: sign(TAGS.gpsLongitudeRef, 'W') * toDegrees(longitude),
+    altitude: altitude === undefined ? undefined : belowSeaLevel ? -altitude : altitude
+  };
+};
+
+/**
+ * A copy with the orientation tag set, e.g. to 1 once the pixels are upright
+ */
+export const withOrientation = (tiff: TiffData, orientation: number): TiffData => {
+  const data = new Uint8Array(2);
+  new DataView(data.buffer).setUint16(0, orientation, tiff.littleEndian);
+  return {
+    ...tiff,
+    ifd0: [...tiff.ifd0.filter((entry) => entry.tag !== TAGS.orientation), { tag: TAGS.orientation, type: 3, count: 1, data }]
+  };
+};
+
+/**
+ * A copy without anything that describes the pixels of the original, for writing
+ * onto a different (edited) image
+ */
+export const withoutPixelDimensions = (tiff: TiffData): TiffData => ({
+  ...tiff,
+  exif: tiff.exif.filter((entry) => entry.tag !== TAGS.pixelXDimension && entry.tag !== TAGS.pixelYDimension)
+});
+
+export const withoutGps = (tiff: TiffData): TiffData => ({ ...tiff, gps: [] });
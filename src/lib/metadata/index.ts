@@ -0,0 +1,142 @@
+// Image metadata: reading EXIF, IPTC and XMP for display, and deciding what is written on export
+
+import { readMetadataBlocks, writeMetadataBlocks } from './containers';
+import {
+  parseTiff,
+  readGps,
+  readNumber,
+  readString,
+  TAGS,
+  withOrientation,
+  withoutGps,
+  withoutPixelDimensions,
+  writeTiff
+} from './exif';
+import { readIptc, removeIptcLocation } from './iptc';
+import { readXmp, removeXmpLocation, setXmpOrientation, type XmpFields } from './xmp';
+import type { ImageMetadata, MetadataBlocks, MetadataExportMode } from './types';
+
+const formatExposureTime = (seconds: number) =>
+  seconds >= 1 || seconds === 0 ? `${seconds} s` : `1/${Math.round(1 / seconds)} s`;
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS"
+const formatExifDate = (value: string | undefined) =>
+  value?.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3');
+
+/**
+ * The orientation recorded in an EXIF block, 1 when there is none
+ */
+export const readOrientation = (blocks: MetadataBlocks): number => {
+  const tiff = blocks.exif && parseTiff(blocks.exif);
+  const orientation = tiff ? readNumber(tiff, tiff.ifd0, TAGS.orientation) : undefined;
+  return orientation && orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+/**
+ * Summarise the metadata of an image file. EXIF wins over XMP, and XMP over IPTC.
+ */
+export const readImageMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const blocks = readMetadataBlocks(bytes);
+  const tiff = blocks.exif ? parseTiff(blocks.exif) : null;
+  const xmp = blocks.xmp ? readXmp(blocks.xmp) : null;
+  const iptc = blocks.iptc ? readIptc(blocks.iptc) : null;
+
+  const metadata: ImageMetadata = {
+    sources: [
+      ...(tiff ? ['EXIF' as const] : []),
+      ...(iptc ? ['IPTC' as const] : []),
+      ...(xmp ? ['XMP' as const] : [])
+    ],
+    orientation: readOrientation(blocks)
+  };
+
+  if (tiff) {
+    const make = readString(tiff.ifd0, TAGS.make);
+    const model = readString(tiff.ifd0, TAGS.model);
+    metadata.camera = model && make && !model.startsWith(make) ? `${make} ${model}` : model ?? make;
+    metadata.lens = readString(tiff.exif, TAGS.lensModel);
+    metadata.software = readString(tiff.ifd0, TAGS.software);
+    metadata.dateTaken = formatExifDate(readString(tiff.exif, TAGS.dateTimeOriginal) ?? readString(tiff.ifd0, TAGS.dateTime));
+    metadata.gps = readGps(tiff);
+    metadata.description = readString(tiff.ifd0, TAGS.description);
+    metadata.author = readString(tiff.ifd0, TAGS.artist);
+    metadata.copyright = readString(tiff.ifd0, TAGS.copyright);
+
+    const exposureTime = readNumber(tiff, tiff.exif, TAGS.exposureTime);
+    const fNumber = readNumber(tiff, tiff.exif, TAGS.fNumber);
+    const iso = readNumber(tiff, tiff.exif, TAGS.iso);
+    const focalLength = readNumber(tiff, tiff.exif, TAGS.focalLength);
+    const exposure = [
+      exposureTime !== undefined && formatExposureTime(exposureTime),
+      fNumber && `f/${Number(fNumber.toFixed(1))}`,
+      iso && `ISO ${iso}`,
+      focalLength && `${Number(focalLength.toFixed(1))} mm`
+    ].filter(Boolean);
+    metadata.exposure = exposure.length > 0 ? exposure.join(' · ') : undefined;
+  }
+
+  // IPTC fields are a subset of the XMP ones
+  const fallbacks: XmpFields[] = [xmp, iptc].filter((fields): fields is XmpFields => fields !== null);
+  for (const fields of fallbacks) {
+    metadata.camera ??= fields.camera;
+    metadata.lens ??= fields.lens;
+    metadata.software ??= fields.software;
+    metadata.dateTaken ??= fields.dateTaken;
+    metadata.gps ??= fields.gps;
+    metadata.location ??= fields.location;
+    metadata.title ??= fields.title;
+    metadata.description ??= fields.description;
+    metadata.author ??= fields.author;
+    metadata.copyright ??= fields.copyright;
+    if (!metadata.keywords && fields.keywords.length > 0) metadata.keywords = fields.keywords;
+  }
+
+  return metadata;
+};
+
+/**
+ * Blocks describing upright pixels, for writing after the orientation has been applied
+ */
+export const uprightBlocks = (blocks: MetadataBlocks): MetadataBlocks => {
+  const tiff = blocks.exif ? parseTiff(blocks.exif) : null;
+  return {
+    exif: tiff ? writeTiff(withOrientation(tiff, 1)) : undefined,
+    xmp: blocks.xmp && setXmpOrientation(blocks.xmp, 1),
+    iptc: blocks.iptc
+  };
+};
+
+/**
+ * Write the source image's metadata onto an exported image, as the export mode allows.
+ * The exported pixels are always upright and may have a different size from the source.
+ */
+export const applyExportMetadata = (
+  output: Uint8Array,
+  source: Uint8Array | null,
+  mode: MetadataExportMode
+): Uint8Array => {
+  if (mode === 'strip-all' || !source) {
+    return writeMetadataBlocks(output);
+  }
+
+  const blocks = readMetadataBlocks(source);
+  let tiff = blocks.exif ? parseTiff(blocks.exif) : null;
+  if (tiff) {
+    tiff = withoutPixelDimensions(withOrientation(tiff, 1));
+    if (mode === 'strip-location') tiff = withoutGps(tiff);
+  }
+
+  let xmp = blocks.xmp && setXmpOrientation(blocks.xmp, 1);
+  let iptc = blocks.iptc;
+  if (mode === 'strip-location') {
+    xmp = xmp && removeXmpLocation(xmp);
+    iptc = iptc && removeIptcLocation(iptc);
+  }
+
+  return writeMetadataBlocks(output, { exif: tiff ? writeTiff(tiff) : undefined, xmp, iptc });
+};
+
+export { detectContainer, readMetadataBlocks, writeMetadataBlocks } from './containers';
+export { readHeifMetadataBlocks, readTiffMetadataBlocks } from './converted';
+export { METADATA_EXPORT_MODES } from './types';
+export type { GpsPosition, ImageMetadata, MetadataBlocks, MetadataExportMode } from './types';
@@ -0,0 +1,168 @@
+// IPTC-IIM datasets, as stored in a JPEG's Photoshop (APP13) segment
+
+interface IptcDataset {
+  record: number;
+  dataset: number;
+  data: Uint8Array;
+}
+
+export interface IptcFields {
+  title?: string;
+  description?: string;
+  author?: string;
+  copyright?: string;
+  keywords: string[];
+  dateTaken?: string;
+  location?: string;
+}
+
+const DATASETS = {
+  codedCharacterSet: [1, 90],
+  objectName: [2, 5],
+  keywords: [2, 25],
+  dateCreated: [2, 55],
+  byline: [2, 80],
+  city: [2, 90],
+  sublocation: [2, 92],
+  provinceState: [2, 95],
+  countryCode: [2, 100],
+  countryName: [2, 101],
+  copyright: [2, 116],
+  caption: [2, 120]
+} as const;
+
+// Place names; GPS coordinates are never stored in IPTC
+const LOCATION_DATASETS = [
+  DATASETS.city,
+  DATASETS.sublocation,
+  DATASETS.provinceState,
+  DATASETS.countryCode,
+  DATASETS.countryName
+];
+
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IPTC_RESOURCE_ID = 0x0404;
+
+const parseDatasets = (bytes: Uint8Array): IptcDataset[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const datasets: IptcDataset[] = [];
+  let offset = 0;
+
+  while (offset + 5 <= bytes.byteLength && bytes[offset] === 0x1c) {
+    const record = bytes[offset + 1];
+    const dataset = bytes[offset + 2];
+    let size = view.getUint16(offset + 3);
+    offset += 5;
+
+    // Extended datasets give the width of their length field instead
+    if (size & 0x8000) {
+      const width = size & 0x7fff;
+      size = 0;
+      for (let i = 0; i < width; i++) size = size * 256 + bytes[offset + i];
+      offset += width;
+    }
+    if (offset + size > bytes.byteLength) break;
+
+    datasets.push({ record, dataset, data: bytes.slice(offset, offset + size) });
+    offset += size;
+  }
+  return datasets;
+};
+
+const is = (item: IptcDataset, [record, dataset]: readonly [number, number]) =>
+  item.record === record && item.dataset === dataset;
+
+/**
+ * Read the fields worth showing from IPTC datasets
+ */
+export const readIptc = (bytes: Uint8Array): IptcFields => {
+  const datasets = parseDatasets(bytes);
+  // ESC % G marks UTF-8; older files are Latin-1
+  const charset = datasets.find((item) => is(item, DATASETS.codedCharacterSet));
+  const decoder = new TextDecoder(charset && charset.data[0] === 0x1b && charset.data[2] === 0x47 ? 'utf-8' : 'latin1');
+
+  const all = (key: readonly [number, number]) =>
+    datasets.filter((item) => is(item, key)).map((item) => decoder.decode(item.data).trim()).filter(Boolean);
+  const first = (key: readonly [number, number]) => all(key)[0];
+
+  const date = first(DATASETS.dateCreated);
+  const places = [first(DATASETS.sublocation), first(DATASETS.city), first(DATASETS.provinceState), first(DATASETS.countryName)]
+    .filter(Boolean);
+
+  return {
+    title: first(DATASETS.objectName),
+    description: first(DATASETS.caption),
+    author: first(DATASETS.byline),
+    copyright: first(DATASETS.copyright),
+    keywords: all(DATASETS.keywords),
+    dateTaken: date && /^\d{8}$/.test(date) ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6)}` : date,
+    location: places.length > 0 ? places.join(', ') : undefined
+  };
+};
+
+/**
+ * A copy without place names
+ */
+export const removeIptcLocation = (bytes: Uint8Array): Uint8Array => {
+  const kept = parseDatasets(bytes).filter((item) => !LOCATION_DATASETS.some((key) => is(item, key)));
+  const output: number[] = [];
+  for (const { record, dataset, data } of kept) {
+    // Long values need the extended form with a four byte length
+    if (data.byteLength > 0x7fff) {
+      output.push(0x1c, record, dataset, 0x80, 0x04,
+        (data.byteLength >>> 24) & 0xff, (data.byteLength >>> 16) & 0xff, (data.byteLength >>> 8) & 0xff, data.byteLength & 0xff);
+    } else {
+      output.push(0x1c, record, dataset, data.byteLength >> 8, data.byteLength & 0xff);
+    }
+    output.push(...data);
+  }
+  return new Uint8Array(output);
+};
+
+/**
+ * The IPTC resource from the body of a Photoshop APP13 segment
+ */
+export const readPhotoshopIptc = (segment: Uint8Array): Uint8Array | undefined => {
+  const header = new TextDecoder('latin1').decode(segment.subarray(0, PHOTOSHOP_HEADER.length));
+  if (header !== PHOTOSHOP_HEADER) return undefined;
+
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  let offset = PHOTOSHOP_HEADER.length;
+
+  while (offset + 12 <= segment.byteLength) {
+    if (view.getUint32(offset) !== 0x3842494d) break; // "8BIM"
+    const id = view.getUint16(offset + 4);
+    // Pascal string name, padded to an even length including its length byte
+    const nameLength = segment[offset + 6];
+    offset += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (offset + 4 > segment.byteLength) break;
+
+    const size = view.getUint32(offset);
+    offset += 4;
+    if (offset + size > segment.byteLength) break;
+    if (id === IPTC_RESOURCE_ID) return segment.slice(offset, offset + size);
+    offset += size + (size % 2);
+  }
+  return undefined;
+};
+
+/**
+ * A Photoshop APP13 body holding only the IPTC resource. Other Photoshop resources,
+ * such as its own thumbnail, are not carried over.
+ */
+export const buildPhotoshopIptc = (iptc: Uint8Array): Uint8Array => {
+  const header = new TextEncoder().encode(PHOTOSHOP_HEADER);
+  const padding = iptc.byteLength % 2;
+  const output = new Uint8Array(header.byteLength + 12 + iptc.byteLength + padding);
+  const view = new DataView(output.buffer);
+
+  output.set(header, 0);
+  let offset = header.byteLength;
+  view.setUint32(offset, 0x3842494d);
+  view.setUint16(offset + 4, IPTC_RESOURCE_ID);
+  // Empty name: a zero length byte and one byte of padding
+  view.setUint32(offset + 8, iptc.byteLength);
+  offset += 12;
+  output.set(iptc, offset);
+  return output;
+};
@@ -0,0 +1,64 @@
+// Browser side of orientation handling: baking the EXIF orientation into the pixels
+// on import, so the preview, local edits and AI providers all see the same image.
+
+import { loadImage } from '../imageUtils';
+import { readMetadataBlocks, writeMetadataBlocks } from './containers';
+import { readOrientation, uprightBlocks } from './index';
+
+// Canvas transforms that turn stored pixels upright, per EXIF orientation
+const ORIENTATION_TRANSFORMS: Record<number, (width: number, height: number) => [number, number, number, number, number, number]> = {
+  2: (width) => [-1, 0, 0, 1, width, 0],
+  3: (width, height) => [-1, 0, 0, -1, width, height],
+  4: (_, height) => [1, 0, 0, -1, 0, height],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, height) => [0, 1, -1, 0, height, 0],
+  7: (width, height) => [0, -1, -1, 0, height, width],
+  8: (width) => [0, -1, 1, 0, 0, width]
+};
+
+const ENCODE_QUALITY = 0.95;
+
+/**
+ * Return the file with its pixels stored upright and its orientation reset to 1.
+ * Files that are already upright, or in formats without EXIF, are returned as they are.
+ * Metadata is carried over so it can still be shown and exported.
+ */
+export const normalizeOrientation = async (file: File): Promise<File> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const blocks = readMetadataBlocks(bytes);
+  const orientation = readOrientation(blocks);
+  if (orientation === 1) return file;
+
+  // Without metadata the browser decodes the pixels as stored, rather than rotating them itself
+  const storedUrl = URL.createObjectURL(new Blob([writeMetadataBlocks(bytes)], { type: file.type }));
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(storedUrl);
+  } finally {
+    URL.revokeObjectURL(storedUrl);
+  }
+
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const swapsSides = orientation >= 5;
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsSides ? height : width;
+  canvas.height = swapsSides ? width : height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  ctx.setTransform(...ORIENTATION_TRANSFORMS[orientation](width, height));
+  ctx.drawImage(img, 0, 0);
+
+  const encoded = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      file.type,
+      ENCODE_QUALITY
+    );
+  });
+
+  const upright = writeMetadataBlocks(new Uint8Array(await encoded.arrayBuffer()), uprightBlocks(blocks));
+  return new File([upright], file.name, { type: encoded.type, lastModified: file.lastModified });
+};
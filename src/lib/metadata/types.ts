@@ -0,0 +1,40 @@
+// Shapes of image metadata as read from files and written back on export
+
+/**
+ * The raw metadata blocks of an image file, independent of the container format
+ */
+export interface MetadataBlocks {
+  exif?: Uint8Array; // TIFF structure, starting at the byte order mark
+  xmp?: string; // XMP packet
+  iptc?: Uint8Array; // IPTC-IIM datasets
+}
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // Metres above sea level
+}
+
+/**
+ * The fields worth showing from EXIF, IPTC and XMP, merged across all three
+ */
+export interface ImageMetadata {
+  sources: Array<'EXIF' | 'IPTC' | 'XMP'>;
+  orientation: number; // EXIF orientation, 1 when the pixels are stored upright
+  camera?: string;
+  lens?: string;
+  dateTaken?: string;
+  exposure?: string;
+  software?: string;
+  gps?: GpsPosition;
+  location?: string; // Place names from IPTC or XMP
+  title?: string;
+  description?: string;
+  author?: string;
+  copyright?: string;
+  keywords?: string[];
+}
+
+export const METADATA_EXPORT_MODES = ['preserve', 'strip-location', 'strip-all'] as const;
+
+export type MetadataExportMode = typeof METADATA_EXPORT_MODES[number];
@@ -0,0 +1,110 @@
+// Reading and adjusting XMP packets. XMP is RDF/XML, but photo metadata only uses a
+// few shapes of it, so simple patterns are enough and avoid needing a DOM parser.
+
+import type { GpsPosition } from './types';
+
+export interface XmpFields {
+  camera?: string;
+  lens?: string;
+  dateTaken?: string;
+  software?: string;
+  gps?: GpsPosition;
+  location?: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  copyright?: string;
+  keywords: string[];
+}
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const escapeName = (name: string) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * All values of a property, whether written as an attribute, a simple element or an
+ * rdf:Alt/Bag/Seq list
+ */
+const readProperty = (xmp: string, name: string): string[] => {
+  const escaped = escapeName(name);
+
+  const attribute = new RegExp(`\\s${escaped}\\s*=\\s*(["'])([\\s\\S]*?)\\1`).exec(xmp);
+  if (attribute) return [decodeEntities(attribute[2]).trim()].filter(Boolean);
+
+  const element = new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`).exec(xmp);
+  if (!element) return [];
+
+  const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)].map((match) => match[1]);
+  return (items.length > 0 ? items : [element[1]])
+    .map((value) => decodeEntities(value.replace(/<[^>]+>/g, '')).trim())
+    .filter(Boolean);
+};
+
+const first = (xmp: string, ...names: string[]): string | undefined => {
+  for (const name of names) {
+    const [value] = readProperty(xmp, name);
+    if (value) return value;
+  }
+  return undefined;
+};
+
+// XMP writes coordinates as "DDD,MM,SSk" or "DDD,MM.mmk", with k one of N, S, E, W
+const parseCoordinate = (value: string | undefined): number | undefined => {
+  const match = value && /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i.exec(value.trim());
+  if (!match) return undefined;
+  const degrees = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+  return /[SW]/i.test(match[4]) ? -degrees : degrees;
+};
+
+export const readXmp = (xmp: string): XmpFields => {
+  const latitude = parseCoordinate(first(xmp, 'exif:GPSLatitude'));
+  const longitude = parseCoordinate(first(xmp, 'exif:GPSLongitude'));
+  const make = first(xmp, 'tiff:Make');
+  const model = first(xmp, 'tiff:Model');
+  const places = [
+    first(xmp, 'Iptc4xmpCore:Location'),
+    first(xmp, 'photoshop:City'),
+    first(xmp, 'photoshop:State'),
+    first(xmp, 'photoshop:Country')
+  ].filter(Boolean);
+
+  return {
+    camera: model && make && !model.startsWith(make) ? `${make} ${model}` : model ?? make,
+    lens: first(xmp, 'exifEX:LensModel', 'aux:Lens'),
+    dateTaken: first(xmp, 'exif:DateTimeOriginal', 'photoshop:DateCreated', 'xmp:CreateDate'),
+    software: first(xmp, 'xmp:CreatorTool'),
+    gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+    location: places.length > 0 ? places.join(', ') : undefined,
+    title: first(xmp, 'dc:title'),
+    description: first(xmp, 'dc:description'),
+    author: readProperty(xmp, 'dc:creator').join(', ') || undefined,
+    copyright: first(xmp, 'dc:rights'),
+    keywords: readProperty(xmp, 'dc:subject')
+  };
+};
+
+const LOCATION_PROPERTIES = /(?:exif:GPS\w+|Iptc4xmpCore:Location|photoshop:(?:City|State|Country)|Iptc4xmpExt:Location\w*)/.source;
+
+/**
+ * A copy without GPS properties or place names
+ */
+export const removeXmpLocation = (xmp: string): string =>
+  xmp
+    .replace(new RegExp(`\\s${LOCATION_PROPERTIES}\\s*=\\s*(["'])[\\s\\S]*?\\1`, 'g'), '')
+    .replace(new RegExp(`<(${LOCATION_PROPERTIES})(?:\\s[^>]*)?(?:/>|>[\\s\\S]*?</\\1>)`, 'g'), '');
+
+/**
+ * A copy with tiff:Orientation set, so readers that prefer XMP agree with EXIF
+ */
+export const setXmpOrientation = (xmp: string, orientation: number): string =>
+  xmp
+    .replace(/(\stiff:Orientation\s*=\s*)(["'])\d*\2/g, `$1$2${orientation}$2`)
+    .replace(/(<tiff:Orientation>)\s*\d*\s*(<\/tiff:Orientation>)/g, `$1${orientation}$2`);
@@ -0,0 +1,232 @@
+// Pixel functions for classic adjustments, on small hand-written buffers
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  adjustmentReach,
+  applyAdjustments,
+  applyColorMatrix,
+  applyVibrance,
+  buildToneCurve,
+  buildWhiteBalanceCurves,
+  convolve,
+  gaussianBlur,
+  gaussianKernel,
+  hueRotationMatrix,
+  sharpen
+} from './adjustments';
+import type { PixelBuffer } from './types';
+
+type Rgba = [number, number, number, number];
+
+// A single-row buffer holding the given pixels
+const pixels = (...values: Rgba[]): PixelBuffer => ({
+  width: values.length,
+  height: 1,
+  data: new Uint8ClampedArray(values.flat())
+});
+
+// A buffer of one colour
+const flat = (width: number, height: number, value: Rgba): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(Array.from({ length: width * height }, () => value).flat())
+});
+
+const at = (buffer: PixelBuffer, x: number, y: number): Rgba =>
+  Array.from(buffer.data.subarray((y * buffer.width + x) * 4, (y * buffer.width + x) * 4 + 4)) as Rgba;
+
+const chroma = ([r, g, b]: Rgba) => Math.max(r, g, b) - Math.min(r, g, b);
+
+const read = (buffer: PixelBuffer): Rgba[] =>
+  Array.from({ length: buffer.width * buffer.height }, (_, i) =>
+    Array.from(buffer.data.subarray(i * 4, i * 4 + 4)) as Rgba);
+
+const assertClose = (actual: number, expected: number, tolerance = 1) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+
+describe('applyAdjustments', () => {
+  it('leaves pixels unchanged at the default settings', () => {
+    const input = pixels([0, 0, 0, 255], [12, 128, 240, 100], [255, 255, 255, 0]);
+    assert.deepEqual(read(applyAdjustments(input, {})), read(input));
+  });
+
+  it('does not modify the input buffer', () => {
+    const input = pixels([100, 50, 200, 255]);
+    applyAdjustments(input, { brightness: 50, saturation: -100 });
+    assert.deepEqual(read(input), [[100, 50, 200, 255]]);
+  });
+
+  it('shifts every channel by the brightness and keeps alpha', () => {
+    // 20% of 255 is 51
+    assert.deepEqual(read(applyAdjustments(pixels([100, 50, 200, 128]), { brightness: 20 })), [[151, 101, 251, 128]]);
+    assert.deepEqual(read(applyAdjustments(pixels([100, 50, 200, 128]), { brightness: -20 })), [[49, 0, 149, 128]]);
+  });
+
+  it('clamps results to the 0-255 range', () => {
+    assert.deepEqual(read(applyAdjustments(pixels([250, 200, 5, 255]), { brightness: 100 })), [[255, 255, 255, 255]]);
+    assert.deepEqual(read(applyAdjustments(pixels([250, 60, 5, 255]), { brightness: -100 })), [[0, 0, 0, 255]]);
+    assert.deepEqual(read(applyAdjustments(pixels([20, 128, 235, 255]), { contrast: 100 })), [[0, 128, 255, 255]]);
+  });
+
+  it('spreads tones away from mid-grey with contrast and pulls them in without', () => {
+    const [[darkUp, midUp, lightUp]] = read(applyAdjustments(pixels([100, 128, 160, 255]), { contrast: 50 }));
+    assert.ok(darkUp < 100);
+    assert.equal(midUp, 128);
+    assert.ok(lightUp > 160);
+
+    const [[darkDown, midDown, lightDown]] = read(applyAdjustments(pixels([100, 128, 160, 255]), { contrast: -50 }));
+    assert.ok(darkDown > 100 && darkDown < 128);
+    assert.equal(midDown, 128);
+    assert.ok(lightDown < 160 && lightDown > 128);
+  });
+
+  it('turns colours to their luma at zero saturation', () => {
+    const [[r, g, b, a]] = read(applyAdjustments(pixels([200, 100, 50, 255]), { saturation: -100 }));
+    // Rec. 709: 0.2126 * 200 + 0.7152 * 100 + 0.0722 * 50
+    assertClose(r, 117.66);
+    assert.equal(g, r);
+    assert.equal(b, r);
+    assert.equal(a, 255);
+  });
+
+  it('pushes channels apart with more saturation and leaves greys alone', () => {
+    const [[r, g, b]] = read(applyAdjustments(pixels([200, 100, 50, 255]), { saturation: 50 }));
+    assert.ok(r > 200);
+    assert.ok(b < 50);
+    assert.ok(g < 117 && g > b);
+
+    assert.deepEqual(read(applyAdjustments(pixels([90, 90, 90, 255]), { saturation: 100 })), [[90, 90, 90, 255]]);
+  });
+
+  it('scales linear light by a power of two per stop of exposure', () => {
+    // sRGB 128 is 21.6% linear; doubled it is 43.2%, back in sRGB about 175.5
+    const [[brighter]] = read(applyAdjustments(pixels([128, 128, 128, 255]), { exposure: 1 }));
+    assertClose(brighter, 175.5);
+    // Halved, 10.8% linear is about 92.3
+    const [[darker]] = read(applyAdjustments(pixels([128, 128, 128, 255]), { exposure: -1 }));
+    assertClose(darker, 92.3);
+    // Black stays black, and white clips
+    assert.deepEqual(read(applyAdjustments(pixels([0, 0, 0, 255], [255, 255, 255, 255]), { exposure: 2 })), [
+      [0, 0, 0, 255],
+      [255, 255, 255, 255]
+    ]);
+  });
+
+  it('trades blue for red with temperature and leaves green alone', () => {
+    assert.deepEqual(read(applyAdjustments(pixels([100, 100, 100, 255]), { temperature: 40 })), [[120, 100, 80, 255]]);
+    assert.deepEqual(read(applyAdjustments(pixels([100, 100, 100, 255]), { temperature: -40 })), [[80, 100, 120, 255]]);
+    // Clamped rather than wrapped at the ends of the range
+    assert.deepEqual(read(applyAdjustments(pixels([250, 100, 10, 255]), { temperature: 100 })), [[255, 100, 0, 255]]);
+  });
+});
+
+describe('tone and colour', () => {
+  const NEUTRAL_TONE = { exposure: 0, brightness: 0, contrast: 0, gamma: 1 };
+
+  it('leaves every level unchanged at gamma 1', () => {
+    assert.deepEqual(Array.from(buildToneCurve(NEUTRAL_TONE)), Array.from({ length: 256 }, (_, i) => i));
+  });
+
+  it('lifts the midtones with gamma above 1 and keeps the end points', () => {
+    const curve = buildToneCurve({ ...NEUTRAL_TONE, gamma: 2 });
+    // 255 * (64 / 255) ^ (1 / 2)
+    assertClose(curve[64], 127.75);
+    assert.equal(curve[0], 0);
+    assert.equal(curve[255], 255);
+    assert.ok(buildToneCurve({ ...NEUTRAL_TONE, gamma: 0.5 })[128] < 128);
+  });
+
+  it('trades green for magenta with tint and leaves red and blue alone', () => {
+    const [red, green, blue] = buildWhiteBalanceCurves({ temperature: 0, tint: 40 });
+    assert.equal(red[100], 100);
+    assert.equal(green[100], 80);
+    assert.equal(blue[100], 100);
+    assert.deepEqual(read(applyAdjustments(pixels([100, 100, 100, 255]), { tint: -40 })), [[100, 120, 100, 255]]);
+  });
+
+  it('treats a full turn of hue as no change', () => {
+    const input = pixels([200, 100, 50, 255], [12, 240, 128, 90], [0, 0, 255, 255]);
+    assert.deepEqual(read(applyColorMatrix(pixels(...read(input)), hueRotationMatrix(360))), read(input));
+    assert.deepEqual(read(applyAdjustments(input, { hue: 360 })), read(input));
+  });
+
+  it('rotates colours around the grey axis', () => {
+    assert.deepEqual(read(applyAdjustments(pixels([90, 90, 90, 255]), { hue: 120 })), [[90, 90, 90, 255]]);
+
+    // Red moves towards green a third of the way round
+    const [[r, g]] = read(applyAdjustments(pixels([200, 50, 50, 255]), { hue: 120 }));
+    assert.ok(g > r);
+  });
+
+  it('lifts muted colours more than saturated ones with vibrance', () => {
+    const muted: Rgba = [120, 100, 100, 255];
+    const saturated: Rgba = [255, 0, 0, 255];
+    const [mutedAfter, saturatedAfter, greyAfter] = read(applyVibrance(pixels(muted, saturated, [80, 80, 80, 255]), 100));
+
+    assert.ok(chroma(mutedAfter) / chroma(muted) > 1.5);
+    assert.deepEqual(saturatedAfter, saturated);
+    assert.deepEqual(greyAfter, [80, 80, 80, 255]);
+  });
+});
+
+describe('convolution', () => {
+  it('builds normalised, symmetric Gaussian kernels', () => {
+    for (const radius of [0.5, 1, 2.5, 6]) {
+      const kernel = gaussianKernel(radius);
+      assert.equal(kernel.length, Math.ceil(radius) * 2 + 1);
+      assertClose(kernel.reduce((sum, weight) => sum + weight, 0), 1, 1e-6);
+      const half = Math.floor(kernel.length / 2);
+      for (let i = 0; i < half; i++) {
+        assertClose(kernel[i], kernel[kernel.length - 1 - i], 1e-7);
+        assert.ok(kernel[i] < kernel[i + 1]);
+      }
+    }
+  });
+
+  it('leaves pixels alone with an identity kernel and clamps at the edges', () => {
+    const input = pixels([10, 20, 30, 255], [200, 100, 0, 128], [40, 50, 60, 255]);
+    assert.deepEqual(read(convolve(input, [0, 0, 0, 0, 1, 0, 0, 0, 0], 3)), read(input));
+
+    // Each output is the mean of itself and its neighbours, with the edge pixel repeated
+    const box = new Array(9).fill(1 / 9);
+    const [first] = read(convolve(pixels([90, 90, 90, 255], [0, 0, 0, 255]), box, 3));
+    assert.deepEqual(first, [60, 60, 60, 255]);
+  });
+
+  it('leaves a flat field unchanged with blur and sharpen', () => {
+    const field = flat(5, 4, [120, 60, 200, 255]);
+    assert.deepEqual(read(gaussianBlur(field, 2.5)), read(field));
+    assert.deepEqual(read(sharpen(field, 80)), read(field));
+  });
+
+  it('spreads a bright point evenly with blur', () => {
+    const point = flat(7, 7, [0, 0, 0, 255]);
+    point.data.set([255, 255, 255, 255], (3 * 7 + 3) * 4);
+    const blurred = gaussianBlur(point, 1);
+
+    assert.ok(at(blurred, 3, 3)[0] < 255);
+    assert.ok(at(blurred, 2, 3)[0] > 0);
+    assert.deepEqual(at(blurred, 2, 3), at(blurred, 4, 3));
+    assert.deepEqual(at(blurred, 3, 2), at(blurred, 2, 3));
+    assert.ok(at(blurred, 2, 2)[0] < at(blurred, 2, 3)[0]);
+  });
+
+  it('deepens the contrast of an edge with sharpen', () => {
+    const edge = pixels([50, 50, 50, 255], [50, 50, 50, 255], [200, 200, 200, 255], [200, 200, 200, 255]);
+    const [outerDark, innerDark, innerLight, outerLight] = read(sharpen(edge, 100));
+
+    assert.deepEqual(outerDark, [50, 50, 50, 255]);
+    assert.deepEqual(innerDark, [0, 0, 0, 255]);
+    assert.deepEqual(innerLight, [255, 255, 255, 255]);
+    assert.deepEqual(outerLight, [200, 200, 200, 255]);
+  });
+
+  it('reports how far blur and sharpen read from each pixel', () => {
+    assert.equal(adjustmentReach({}), 0);
+    assert.equal(adjustmentReach({ brightness: 40, hue: 90 }), 0);
+    assert.equal(adjustmentReach({ sharpen: 10 }), 1);
+    assert.equal(adjustmentReach({ blur: 2.5 }), 3);
+    assert.equal(adjustmentReach({ blur: 2, sharpen: 1 }), 3);
+  });
+});
@@ -0,0 +1,343 @@
+// Pure pixel functions for classic adjustments
+// Everything here works on plain RGBA buffers with no DOM dependencies, so it
+// runs in a Web Worker, on the main thread, or in Node.
+
+import { DEFAULT_ADJUSTMENTS, type AdjustmentSettings, type PixelBuffer } from './types';
+
+type ChannelCurve = Uint8ClampedArray; // 256-entry lookup table
+type ColorMatrix = [number, number, number, number, number, number, number, number, number];
+
+// Rec. 709 luma weights
+const LUMA_R = 0.2126;
+const LUMA_G = 0.7152;
+const LUMA_B = 0.0722;
+
+export const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4)
+});
+
+export const clonePixelBuffer = (buffer: PixelBuffer): PixelBuffer => ({
+  width: buffer.width,
+  height: buffer.height,
+  data: new Uint8ClampedArray(buffer.data)
+});
+
+const srgbToLinear = (value: number): number => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+const linearToSrgb = (value: number): number => {
+  const v = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return v * 255;
+};
+
+/**
+ * Build the tone curve for exposure, brightness, contrast and gamma, in that order
+ */
+export const buildToneCurve = ({
+  exposure,
+  brightness,
+  contrast,
+  gamma
+}: Pick<AdjustmentSettings, 'exposure' | 'brightness' | 'contrast' | 'gamma'>): ChannelCurve => {
+  const curve = new Uint8ClampedArray(256);
+  const exposureGain = 2 ** exposure;
+  const offset = brightness * 2.55;
+  const c = contrast * 2.55;
+  const contrastFactor = (259 * (c + 255)) / (255 * (259 - c));
+
+  for (let i = 0; i < 256; i++) {
+    // Exposure scales light, so it is applied in linear space
+    let value = exposure === 0 ? i : linearToSrgb(srgbToLinear(i) * exposureGain);
+    value += offset;
+    value = contrastFactor * (value - 128) + 128;
+    value = 255 * Math.max(0, Math.min(1, value / 255)) ** (1 / gamma);
+    curve[i] = value;
+  }
+
+  return curve;
+};
+
+/**
+ * Per-channel offsets for white balance: temperature trades blue for red, tint trades green for magenta
+ */
+export const buildWhiteBalanceCurves = ({
+  temperature,
+  tint
+}: Pick<AdjustmentSettings, 'temperature' | 'tint'>): [ChannelCurve, ChannelCurve, ChannelCurve] => {
+  const shift = (amount: number) => {
+    const curve = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) curve[i] = i + amount;
+    return curve;
+  };
+
+  const warmth = temperature * 0.5;
+  return [shift(warmth), shift(-tint * 0.5), shift(-warmth)];
+};
+
+/**
+ * Apply one lookup table per colour channel; alpha is left alone
+ */
+export const applyCurves = (
+  buffer: PixelBuffer,
+  red: ChannelCurve,
+  green: ChannelCurve = red,
+  blue: ChannelCurve = red
+): PixelBuffer => {
+  const { data } = buffer;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]];
+    data[i + 1] = green[data[i + 1]];
+    data[i + 2] = blue[data[i + 2]];
+  }
+  return buffer;
+};
+
+const multiplyMatrices = (a: ColorMatrix, b: ColorMatrix): ColorMatrix => {
+  const result = new Array(9).fill(0) as ColorMatrix;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        result[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Saturation matrix; amount is -100 (greyscale) to 100 (double saturation)
+ */
+export const saturationMatrix = (amount: number): ColorMatrix => {
+  const s = 1 + amount / 100;
+  const r = (1 - s) * LUMA_R;
+  const g = (1 - s) * LUMA_G;
+  const b = (1 - s) * LUMA_B;
+  return [r + s, g, b, r, g + s, b, r, g, b + s];
+};
+
+/**
+ * Hue rotation matrix around the luma axis, as used by the CSS hue-rotate() filter
+ */
+export const hueRotationMatrix = (degrees: number): ColorMatrix => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    LUMA_R + cos * (1 - LUMA_R) - sin * LUMA_R,
+    LUMA_G - cos * LUMA_G - sin * LUMA_G,
+    LUMA_B - cos * LUMA_B + sin * (1 - LUMA_B),
+    LUMA_R - cos * LUMA_R + sin * 0.143,
+    LUMA_G + cos * (1 - LUMA_G) + sin * 0.14,
+    LUMA_B - cos * LUMA_B - sin * 0.283,
+    LUMA_R - cos * LUMA_R - sin * (1 - LUMA_R),
+    LUMA_G - cos * LUMA_G + sin * LUMA_G,
+    LUMA_B + cos * (1 - LUMA_B) + sin * LUMA_B
+  ];
+};
+
+export const applyColorMatrix = (buffer: PixelBuffer, matrix: ColorMatrix): PixelBuffer => {
+  const { data } = buffer;
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = matrix;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    data[i] = m0 * r + m1 * g + m2 * b;
+    data[i + 1] = m3 * r + m4 * g + m5 * b;
+    data[i + 2] = m6 * r + m7 * g + m8 * b;
+  }
+  return buffer;
+};
+
+/**
+ * Saturation boost that favours muted colours and leaves saturated ones mostly untouched
+ */
+export const applyVibrance = (buffer: PixelBuffer, amount: number): PixelBuffer => {
+  const { data } = buffer;
+  const strength = amount / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = (max - min) / 255;
+    const scale = 1 + strength * (1 - saturation);
+    const luma = LUMA_R * r + LUMA_G * g + LUMA_B * b;
+
+    data[i] = luma + (r - luma) * scale;
+    data[i + 1] = luma + (g - luma) * scale;
+    data[i + 2] = luma + (b - luma) * scale;
+  }
+
+  return buffer;
+};
+
+/**
+ * Convolve with a square kernel, clamping at the edges. Returns a new buffer.
+ */
+export const convolve = (buffer: PixelBuffer, kernel: ArrayLike<number>, size: number): PixelBuffer => {
+  const { width, height, data } = buffer;
+  const output = createPixelBuffer(width, height);
+  const half = Math.floor(size / 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+
+      for (let ky = 0; ky < size; ky++) {
+        const sy = Math.min(height - 1, Math.max(0, y + ky - half));
+        for (let kx = 0; kx < size; kx++) {
+          const sx = Math.min(width - 1, Math.max(0, x + kx - half));
+          const weight = kernel[ky * size + kx];
+          const offset = (sy * width + sx) * 4;
+          r += data[offset] * weight;
+          g += data[offset + 1] * weight;
+          b += data[offset + 2] * weight;
+        }
+      }
+
+      const offset = (y * width + x) * 4;
+      output.data[offset] = r;
+      output.data[offset + 1] = g;
+      output.data[offset + 2] = b;
+      output.data[offset + 3] = data[offset + 3];
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Normalised 1D Gaussian kernel covering about three standard deviations
+ */
+export const gaussianKernel = (radius: number): Float32Array => {
+  const sigma = Math.max(radius / 3, 0.5);
+  const size = Math.ceil(radius) * 2 + 1;
+  const kernel = new Float32Array(size);
+  const half = Math.floor(size / 2);
+  let sum = 0;
+
+  for (let i = 0; i < size; i++) {
+    const x = i - half;
+    kernel[i] = Math.exp(-(x * x) / (2 * sigma * sigma));
+    sum += kernel[i];
+  }
+
+  for (let i = 0; i < size; i++) kernel[i] /= sum;
+  return kernel;
+};
+
+// One pass of a separable convolution along rows or columns
+const convolveAxis = (buffer: PixelBuffer, kernel: Float32Array, horizontal: boolean): PixelBuffer => {
+  const { width, height, data } = buffer;
+  const output = createPixelBuffer(width, height);
+  const half = Math.floor(kernel.length / 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+
+      for (let k = 0; k < kernel.length; k++) {
+        const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k - half)) : x;
+        const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k - half));
+        const offset = (sy * width + sx) * 4;
+        const weight = kernel[k];
+        r += data[offset] * weight;
+        g += data[offset + 1] * weight;
+        b += data[offset + 2] * weight;
+        a += data[offset + 3] * weight;
+      }
+
+      const offset = (y * width + x) * 4;
+      output.data[offset] = r;
+      output.data[offset + 1] = g;
+      output.data[offset + 2] = b;
+      output.data[offset + 3] = a;
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Gaussian blur as two separable passes. Returns a new buffer.
+ */
+export const gaussianBlur = (buffer: PixelBuffer, radius: number): PixelBuffer => {
+  if (radius <= 0) return clonePixelBuffer(buffer);
+  const kernel = gaussianKernel(radius);
+  return convolveAxis(convolveAxis(buffer, kernel, true), kernel, false);
+};
+
+/**
+ * 3×3 sharpening kernel; amount is 0 to 100
+ */
+export const sharpenKernel = (amount: number): number[] => {
+  const a = amount / 100;
+  return [0, -a, 0, -a, 1 + 4 * a, -a, 0, -a, 0];
+};
+
+export const sharpen = (buffer: PixelBuffer, amount: number): PixelBuffer => {
+  if (amount <= 0) return clonePixelBuffer(buffer);
+  return convolve(buffer, sharpenKernel(amount), 3);
+};
+
+/**
+ * How many pixels away the blur and sharpen kernels read from, so a tile can be
+ * given enough of its neighbours
+ */
+export const adjustmentReach = (overrides: Partial<AdjustmentSettings>): number => {
+  const { blur, sharpen: amount } = { ...DEFAULT_ADJUSTMENTS, ...overrides };
+  return (blur > 0 ? Math.ceil(blur) : 0) + (amount > 0 ? 1 : 0);
+};
+
+/**
+ * True when the settings would leave every pixel unchanged
+ */
+export const isIdentityAdjustment = (settings: Partial<AdjustmentSettings>): boolean => {
+  return (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof AdjustmentSettings)[])
+    .every((key) => (settings[key] ?? DEFAULT_ADJUSTMENTS[key]) === DEFAULT_ADJUSTMENTS[key]);
+};
+
+/**
+ * Run the full adjustment pipeline: white balance and tone curves, colour
+ * matrix, vibrance, then blur and sharpen. The input buffer is not modified.
+ */
+export const applyAdjustments = (input: PixelBuffer, overrides: Partial<AdjustmentSettings>): PixelBuffer => {
+  const settings = { ...DEFAULT_ADJUSTMENTS, ...overrides };
+  let buffer = clonePixelBuffer(input);
+
+  // White balance first, then the shared tone curve, folded into one table per channel
+  const tone = buildToneCurve(settings);
+  const [red, green, blue] = buildWhiteBalanceCurves(settings);
+  const combine = (curve: ChannelCurve) => curve.map((value) => tone[value]);
+  applyCurves(buffer, combine(red), combine(green), combine(blue));
+
+  if (settings.hue !== 0 || settings.saturation !== 0) {
+    applyColorMatrix(buffer, multiplyMatrices(saturationMatrix(settings.saturation), hueRotationMatrix(settings.hue)));
+  }
+
+  if (settings.vibrance !== 0) {
+    applyVibrance(buffer, settings.vibrance);
+  }
+
+  if (settings.blur > 0) {
+    buffer = gaussianBlur(buffer, settings.blur);
+  }
+
+  if (settings.sharpen > 0) {
+    buffer = sharpen(buffer, settings.sharpen);
+  }
+
+  return buffer;
+};
@@ -0,0 +1,77 @@
+// Pixel difference between two renditions of the same image, for the comparison view
+// Like adjustments.ts this only touches plain RGBA buffers.
+
+import { createPixelBuffer } from './adjustments';
+import type { PixelBuffer } from './types';
+
+export interface DifferenceResult {
+  heatmap: PixelBuffer;
+  meanDifference: number; // 0..1, averaged over all pixels
+  changedRatio: number; // Share of pixels whose difference exceeds the threshold
+}
+
+// Channel difference below which a pixel counts as unchanged; absorbs re-encoding noise
+export const DIFFERENCE_THRESHOLD = 8;
+
+// Black → blue → red → yellow → white
+const HEAT_STOPS: [number, [number, number, number]][] = [
+  [0, [0, 0, 0]],
+  [0.25, [40, 40, 200]],
+  [0.5, [220, 40, 60]],
+  [0.75, [250, 200, 40]],
+  [1, [255, 255, 255]]
+];
+
+const buildHeatPalette = (): Uint8ClampedArray => {
+  const palette = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const t = i / 255;
+    const upper = HEAT_STOPS.findIndex(([stop]) => stop >= t);
+    const [endStop, end] = HEAT_STOPS[Math.max(upper, 1)];
+    const [startStop, start] = HEAT_STOPS[Math.max(upper, 1) - 1];
+    const local = (t - startStop) / (endStop - startStop);
+    for (let c = 0; c < 3; c++) {
+      palette[i * 3 + c] = start[c] + (end[c] - start[c]) * local;
+    }
+  }
+  return palette;
+};
+
+/**
+ * Heatmap of the largest per-channel difference at each pixel. Small differences are
+ * amplified so subtle edits stay visible; both buffers must have the same size.
+ */
+export const differenceHeatmap = (a: PixelBuffer, b: PixelBuffer, amplify: number = 4): DifferenceResult => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error('Buffers must have the same dimensions');
+  }
+
+  const palette = buildHeatPalette();
+  const heatmap = createPixelBuffer(a.width, a.height);
+  const out = heatmap.data;
+  let total = 0;
+  let changed = 0;
+
+  for (let i = 0; i < a.data.length; i += 4) {
+    const difference = Math.max(
+      Math.abs(a.data[i] - b.data[i]),
+      Math.abs(a.data[i + 1] - b.data[i + 1]),
+      Math.abs(a.data[i + 2] - b.data[i + 2])
+    );
+    total += difference;
+    if (difference > DIFFERENCE_THRESHOLD) changed++;
+
+    const level = Math.min(255, Math.round(difference * amplify)) * 3;
+    out[i] = palette[level];
+    out[i + 1] = palette[level + 1];
+    out[i + 2] = palette[level + 2];
+    out[i + 3] = 255;
+  }
+
+  const pixels = a.width * a.height;
+  return {
+    heatmap,
+    meanDifference: pixels > 0 ? total / pixels / 255 : 0,
+    changedRatio: pixels > 0 ? changed / pixels : 0
+  };
+};
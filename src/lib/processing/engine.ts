@@ -0,0 +1,251 @@
+// Browser side of the local processing engine
+// Pixel work runs in a Web Worker so large images do not block the UI, one tile
+// at a time so they do not run the browser out of memory.
+
+import { createCanvasFromImage, loadImage } from '../imageUtils';
+import { adjustmentReach, applyAdjustments, createPixelBuffer } from './adjustments';
+import { clampCropRect, rotatedSize, straightenedSize } from './geometry';
+import { createPngEncoder } from './png';
+import { cropPixelBuffer, pastePixelBuffer, planTiles, type Tile } from './tiles';
+import type {
+  AdjustmentSettings,
+  LocalOperation,
+  PixelBuffer,
+  ProcessParameters,
+  TransformParameters
+} from './types';
+import type { AdjustRequestMessage, AdjustResponseMessage } from './worker';
+
+const encodePng = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), 'image/png');
+  });
+};
+
+// Shrinking a canvas that is no longer needed frees its pixels straight away,
+// rather than whenever it is garbage collected
+const release = (canvas: HTMLCanvasElement) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
+// Draw a canvas onto a fresh one of the given size, with the context already centred.
+// The source canvas is released.
+const redraw = (
+  source: HTMLCanvasElement,
+  width: number,
+  height: number,
+  transform: (ctx: CanvasRenderingContext2D) => void
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(width / 2, height / 2);
+  transform(ctx);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  release(source);
+  return canvas;
+};
+
+interface PendingRequest {
+  resolve: (buffer: PixelBuffer) => void;
+  reject: (reason: unknown) => void;
+}
+
+class ProcessingEngine {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  /**
+   * Apply adjustments to raw pixels, off the main thread when workers are available
+   */
+  adjust(buffer: PixelBuffer, settings: Partial<AdjustmentSettings>, signal?: AbortSignal): Promise<PixelBuffer> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(applyAdjustments(buffer, settings));
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+
+      const onAbort = () => {
+        this.pending.delete(id);
+        reject(signal?.reason);
+        // A running worker cannot be interrupted, only replaced
+        this.resetWorker();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        }
+      });
+
+      // Copy the pixels so the caller's buffer survives the transfer
+      const data = new Uint8ClampedArray(buffer.data);
+      const message: AdjustRequestMessage = { id, width: buffer.width, height: buffer.height, data, settings };
+      worker.postMessage(message, [data.buffer]);
+    });
+  }
+
+  /**
+   * Load an image at full resolution, adjust it tile by tile and encode the result as PNG.
+   * Tiles are read from the decoded image, so finished tiles never feed into their neighbours,
+   * and each row of tiles is encoded as soon as it is done, so no full-size canvas is needed.
+   */
+  async adjustImage(imageUrl: string, settings: Partial<AdjustmentSettings>, signal?: AbortSignal): Promise<Blob> {
+    const img = await loadImage(imageUrl);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+    const tileCanvas = document.createElement('canvas');
+    const tileCtx = tileCanvas.getContext('2d', { willReadFrequently: true });
+    if (!tileCtx) {
+      throw new Error('Canvas context not available');
+    }
+
+    // planTiles goes row by row, so tiles sharing a top edge make up one strip of output
+    const rows = new Map<number, Tile[]>();
+    for (const tile of planTiles(width, height, adjustmentReach(settings))) {
+      rows.set(tile.target.y, [...(rows.get(tile.target.y) ?? []), tile]);
+    }
+
+    const encoder = createPngEncoder(width, height);
+    for (const tiles of rows.values()) {
+      const strip = createPixelBuffer(width, tiles[0].target.height);
+
+      for (const { source, target } of tiles) {
+        tileCanvas.width = source.width;
+        tileCanvas.height = source.height;
+        tileCtx.drawImage(img, source.x, source.y, source.width, source.height, 0, 0, source.width, source.height);
+
+        const result = await this.adjust(tileCtx.getImageData(0, 0, source.width, source.height), settings, signal);
+        const inner = cropPixelBuffer(result, {
+          x: target.x - source.x,
+          y: target.y - source.y,
+          width: target.width,
+          height: target.height
+        });
+        pastePixelBuffer(strip, inner, target.x, 0);
+      }
+
+      await encoder.writeRows(strip);
+    }
+
+    release(tileCanvas);
+    return encoder.finish();
+  }
+
+  /**
+   * Straighten, rotate, flip and crop an image at full resolution and encode the result as PNG
+   */
+  async transformImage(imageUrl: string, { straighten, rotate, flip, crop }: TransformParameters): Promise<Blob> {
+    let canvas = await createCanvasFromImage(imageUrl);
+
+    if (straighten) {
+      const size = straightenedSize(canvas, straighten);
+      canvas = redraw(canvas, size.width, size.height, (ctx) => ctx.rotate((straighten * Math.PI) / 180));
+    }
+
+    if (rotate) {
+      const size = rotatedSize(canvas, rotate);
+      canvas = redraw(canvas, size.width, size.height, (ctx) => ctx.rotate((rotate * Math.PI) / 180));
+    }
+
+    if (flip) {
+      canvas = redraw(canvas, canvas.width, canvas.height, (ctx) =>
+        flip === 'horizontal' ? ctx.scale(-1, 1) : ctx.scale(1, -1)
+      );
+    }
+
+    if (crop) {
+      // A crop replayed from a recipe may have been drawn on a larger image
+      const rect = clampCropRect(crop, canvas);
+      const source = canvas;
+      canvas = document.createElement('canvas');
+      canvas.width = rect.width;
+      canvas.height = rect.height;
+      canvas.getContext('2d')?.drawImage(
+        source,
+        rect.x, rect.y, rect.width, rect.height,
+        0, 0, rect.width, rect.height
+      );
+      release(source);
+    }
+
+    return encodePng(canvas);
+  }
+
+  /**
+   * Run any local operation on an image
+   */
+  applyLocalEdit(
+    imageUrl: string,
+    operation: LocalOperation,
+    parameters: ProcessParameters = {},
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    if (operation === 'adjust') {
+      return this.adjustImage(imageUrl, parameters.adjustments ?? {}, signal);
+    }
+    return this.transformImage(imageUrl, parameters.transform ?? {});
+  }
+
+  private getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') {
+      return null;
+    }
+
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./worker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<AdjustResponseMessage>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('Processing worker failed:', event.message);
+        this.resetWorker(new Error(event.message || 'Processing worker failed'));
+      };
+    }
+
+    return this.worker;
+  }
+
+  private handleMessage(message: AdjustResponseMessage) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    this.pending.delete(message.id);
+    if (message.ok) {
+      request.resolve({ width: message.width, height: message.height, data: message.data });
+    } else {
+      request.reject(new Error(message.error));
+    }
+  }
+
+  private resetWorker(reason: unknown = new Error('Processing was interrupted')) {
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const request of this.pending.values()) {
+      request.reject(reason);
+    }
+    this.pending.clear();
+  }
+}
+
+export const processingEngine = new ProcessingEngine();
+export type { ProcessingEngine };
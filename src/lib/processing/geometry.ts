@@ -0,0 +1,121 @@
+// Pure geometry for crop, rotate and straighten tools
+
+import type { ImageDimensions } from '../imageUtils';
+import type { CropRect } from './types';
+
+export type CropHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export const MIN_CROP_SIZE = 16;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Size of an image after a clockwise rotation by a multiple of 90°
+ */
+export const rotatedSize = ({ width, height }: ImageDimensions, degrees: number): ImageDimensions =>
+  degrees % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Largest centred rectangle with the image's own aspect ratio that stays
+ * inside the image after rotating it by an arbitrary angle
+ */
+export const straightenedSize = ({ width, height }: ImageDimensions, degrees: number): ImageDimensions => {
+  const angle = (Math.abs(degrees) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const scale = Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale))
+  };
+};
+
+/**
+ * Largest centred rectangle of the given aspect ratio (width / height) inside the bounds
+ */
+export const fitAspectRect = (bounds: ImageDimensions, aspect: number): CropRect => {
+  let width = bounds.width;
+  let height = Math.round(width / aspect);
+
+  if (height > bounds.height) {
+    height = bounds.height;
+    width = Math.round(height * aspect);
+  }
+
+  return {
+    x: Math.round((bounds.width - width) / 2),
+    y: Math.round((bounds.height - height) / 2),
+    width,
+    height
+  };
+};
+
+/**
+ * Round a crop rectangle to whole pixels and keep it inside the bounds
+ */
+export const clampCropRect = (rect: CropRect, bounds: ImageDimensions): CropRect => {
+  const width = clamp(Math.round(rect.width), 1, bounds.width);
+  const height = clamp(Math.round(rect.height), 1, bounds.height);
+  return {
+    x: clamp(Math.round(rect.x), 0, bounds.width - width),
+    y: clamp(Math.round(rect.y), 0, bounds.height - height),
+    width,
+    height
+  };
+};
+
+/**
+ * Move or resize a crop rectangle by a drag delta in source pixels. The edge
+ * opposite the handle stays put; with an aspect ratio the other dimension follows.
+ */
+export const adjustCropRect = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  bounds: ImageDimensions,
+  aspect: number | null = null
+): CropRect => {
+  if (handle === 'move') {
+    return clampCropRect({ ...start, x: start.x + dx, y: start.y + dy }, bounds);
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  if (handle.includes('e')) right = clamp(right + dx, left + MIN_CROP_SIZE, bounds.width);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, bounds.height);
+
+  if (aspect) {
+    let width = right - left;
+    let height = bottom - top;
+    const horizontal = handle === 'e' || handle === 'w';
+    const vertical = handle === 'n' || handle === 's';
+
+    // Side handles drive one dimension; corners follow whichever moved further
+    if (horizontal || (!vertical && width / height > aspect)) {
+      height = width / aspect;
+    } else {
+      width = height * aspect;
+    }
+
+    // Shrink back if the derived dimension ran past the image
+    const maxWidth = handle.includes('w') ? right : bounds.width - left;
+    const maxHeight = handle.includes('n') ? bottom : bounds.height - top;
+    const fit = Math.min(1, maxWidth / width, maxHeight / height);
+    width *= fit;
+    height *= fit;
+
+    if (handle.includes('w')) left = right - width;
+    else right = left + width;
+    if (handle.includes('n')) top = bottom - height;
+    else bottom = top + height;
+  }
+
+  return clampCropRect({ x: left, y: top, width: right - left, height: bottom - top }, bounds);
+};
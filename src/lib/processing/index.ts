@@ -0,0 +1,50 @@
+export {
+  adjustmentReach,
+  applyAdjustments,
+  applyColorMatrix,
+  applyCurves,
+  applyVibrance,
+  buildToneCurve,
+  buildWhiteBalanceCurves,
+  clonePixelBuffer,
+  convolve,
+  createPixelBuffer,
+  gaussianBlur,
+  gaussianKernel,
+  hueRotationMatrix,
+  isIdentityAdjustment,
+  saturationMatrix,
+  sharpen,
+  sharpenKernel
+} from './adjustments';
+export { DIFFERENCE_THRESHOLD, differenceHeatmap } from './difference';
+export type { DifferenceResult } from './difference';
+export {
+  MIN_CROP_SIZE,
+  adjustCropRect,
+  clampCropRect,
+  fitAspectRect,
+  rotatedSize,
+  straightenedSize
+} from './geometry';
+export type { CropHandle } from './geometry';
+export { TILE_SIZE, cropPixelBuffer, planTiles } from './tiles';
+export type { Tile } from './tiles';
+export {
+  DEFAULT_ADJUSTMENTS,
+  LOCAL_OPERATIONS,
+  adjustmentSettingsSchema,
+  cropRectSchema,
+  isLocalOperation,
+  processParametersSchema,
+  transformParametersSchema
+} from './types';
+export type {
+  AdjustmentSettings,
+  CropRect,
+  LocalOperation,
+  PixelBuffer,
+  ProcessOperation,
+  ProcessParameters,
+  TransformParameters
+} from './types';
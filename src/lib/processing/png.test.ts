@@ -0,0 +1,75 @@
+// The streaming PNG encoder must produce a valid file whose pixels match its input
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { crc32, inflateSync } from 'node:zlib';
+import { createPixelBuffer } from './adjustments';
+import { createPngEncoder } from './png';
+import { cropPixelBuffer } from './tiles';
+import type { PixelBuffer } from './types';
+
+const pattern = (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  for (let i = 0; i < buffer.data.length; i++) {
+    buffer.data[i] = (i * 7919 + (i >> 3) * 31) % 256;
+  }
+  return buffer;
+};
+
+// Just enough of a PNG reader for what the encoder writes: one IDAT, RGBA, Up filter
+const decodePng = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  assert.deepEqual([...bytes.subarray(0, 8)], [137, 80, 78, 71, 13, 10, 26, 10]);
+
+  const chunks = new Map<string, Uint8Array>();
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.set(type, bytes.subarray(offset + 8, offset + 8 + length));
+    assert.equal(view.getUint32(offset + 8 + length), crc32(bytes.subarray(offset + 4, offset + 8 + length)), `${type} CRC`);
+    offset += 12 + length;
+  }
+
+  const header = chunks.get('IHDR')!;
+  const width = new DataView(header.buffer, header.byteOffset).getUint32(0);
+  const height = new DataView(header.buffer, header.byteOffset).getUint32(4);
+  const scanlines = inflateSync(chunks.get('IDAT')!);
+  const rowLength = width * 4;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let row = 0; row < height; row++) {
+    assert.equal(scanlines[row * (rowLength + 1)], 2);
+    for (let i = 0; i < rowLength; i++) {
+      const above = row > 0 ? data[(row - 1) * rowLength + i] : 0;
+      data[row * rowLength + i] = (scanlines[row * (rowLength + 1) + 1 + i] + above) & 0xff;
+    }
+  }
+
+  return { width, height, bitDepth: header[8], colorType: header[9], data, chunkTypes: [...chunks.keys()] };
+};
+
+describe('createPngEncoder', () => {
+  it('encodes strips written one after another as a single image', async () => {
+    const image = pattern(37, 23);
+    const encoder = createPngEncoder(37, 23);
+    for (const [y, height] of [[0, 10], [10, 10], [20, 3]]) {
+      await encoder.writeRows(cropPixelBuffer(image, { x: 0, y, width: 37, height }));
+    }
+
+    const png = decodePng(new Uint8Array(await (await encoder.finish()).arrayBuffer()));
+
+    assert.deepEqual(png.chunkTypes, ['IHDR', 'IDAT', 'IEND']);
+    assert.equal(png.width, 37);
+    assert.equal(png.height, 23);
+    assert.equal(png.bitDepth, 8);
+    assert.equal(png.colorType, 6);
+    assert.deepEqual(png.data, image.data);
+  });
+
+  it('rejects rows of the wrong width and an unfinished image', async () => {
+    const encoder = createPngEncoder(4, 4);
+    await assert.rejects(encoder.writeRows(createPixelBuffer(3, 2)));
+    await encoder.writeRows(createPixelBuffer(4, 2));
+    await assert.rejects(encoder.finish());
+  });
+});
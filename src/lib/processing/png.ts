@@ -0,0 +1,109 @@
+// Streaming PNG encoder for local edits on large images
+// Rows are compressed as they arrive, so the image is written out one strip at a
+// time and never has to exist in a single canvas.
+
+import type { PixelBuffer } from './types';
+
+const SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const COLOR_TYPE_RGBA = 6;
+const FILTER_UP = 2;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Length, type, data and a CRC over type and data
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+export interface PngEncoder {
+  /** Append the next rows, top to bottom; the buffer must be as wide as the image */
+  writeRows(buffer: PixelBuffer): Promise<void>;
+  /** Finish once every row is written */
+  finish(): Promise<Blob>;
+}
+
+/**
+ * Start an 8-bit RGBA PNG of the given size. Each row is stored with the Up
+ * filter, which compresses photographs far better than no filter at all.
+ */
+export const createPngEncoder = (width: number, height: number): PngEncoder => {
+  const compressor = new CompressionStream('deflate');
+  const writer = compressor.writable.getWriter();
+  // Read while writing, or the stream stops accepting rows
+  const compressed = new Response(compressor.readable).arrayBuffer();
+  const rowLength = width * 4;
+  let previousRow: Uint8ClampedArray = new Uint8ClampedArray(rowLength);
+  let rowsWritten = 0;
+
+  return {
+    async writeRows(buffer) {
+      if (buffer.width !== width || rowsWritten + buffer.height > height) {
+        throw new Error(`Rows of ${buffer.width}×${buffer.height} do not fit a ${width}×${height} PNG at row ${rowsWritten}`);
+      }
+
+      const scanlines = new Uint8Array(buffer.height * (rowLength + 1));
+      for (let row = 0; row < buffer.height; row++) {
+        const current = buffer.data.subarray(row * rowLength, (row + 1) * rowLength);
+        const offset = row * (rowLength + 1);
+        scanlines[offset] = FILTER_UP;
+        for (let i = 0; i < rowLength; i++) {
+          scanlines[offset + 1 + i] = current[i] - previousRow[i];
+        }
+        previousRow = current;
+      }
+      // The next strip is filtered against this one's last row
+      previousRow = previousRow.slice();
+
+      rowsWritten += buffer.height;
+      await writer.write(scanlines);
+    },
+
+    async finish() {
+      if (rowsWritten !== height) {
+        throw new Error(`Only ${rowsWritten} of ${height} rows were written`);
+      }
+      await writer.close();
+
+      const header = new Uint8Array(13);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, width);
+      view.setUint32(4, height);
+      header[8] = 8; // Bits per channel
+      header[9] = COLOR_TYPE_RGBA;
+
+      return new Blob([
+        SIGNATURE,
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', new Uint8Array(await compressed)),
+        pngChunk('IEND', new Uint8Array(0))
+      ], { type: 'image/png' });
+    }
+  };
+};
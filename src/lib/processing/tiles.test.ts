@@ -0,0 +1,95 @@
+// Tiled adjustments must match adjusting the whole image, seams included
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { adjustmentReach, applyAdjustments, createPixelBuffer } from './adjustments';
+import { cropPixelBuffer, pastePixelBuffer, planTiles } from './tiles';
+import type { AdjustmentSettings, PixelBuffer } from './types';
+
+// A deterministic pattern with detail in every channel, so filters have something to change
+const pattern = (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  for (let i = 0; i < buffer.data.length; i++) {
+    buffer.data[i] = (i * 7919 + (i >> 3) * 31) % 256;
+  }
+  return buffer;
+};
+
+// What the processing engine does with canvases, on plain buffers
+const adjustInTiles = (input: PixelBuffer, settings: Partial<AdjustmentSettings>, tileSize: number): PixelBuffer => {
+  const output = createPixelBuffer(input.width, input.height);
+
+  for (const { source, target } of planTiles(input.width, input.height, adjustmentReach(settings), tileSize)) {
+    const adjusted = applyAdjustments(cropPixelBuffer(input, source), settings);
+    const tile = cropPixelBuffer(adjusted, {
+      x: target.x - source.x,
+      y: target.y - source.y,
+      width: target.width,
+      height: target.height
+    });
+    pastePixelBuffer(output, tile, target.x, target.y);
+  }
+
+  return output;
+};
+
+describe('planTiles', () => {
+  it('covers the image exactly once', () => {
+    for (const [width, height, margin, tileSize] of [[97, 61, 4, 16], [64, 32, 0, 16], [10, 10, 3, 1024], [1, 50, 2, 7]]) {
+      const coverage = new Uint8Array(width * height);
+      for (const { target } of planTiles(width, height, margin, tileSize)) {
+        for (let y = target.y; y < target.y + target.height; y++) {
+          for (let x = target.x; x < target.x + target.width; x++) {
+            coverage[y * width + x]++;
+          }
+        }
+      }
+      assert.ok(coverage.every((count) => count === 1), `${width}×${height} in ${tileSize}px tiles`);
+    }
+  });
+
+  it('reads the margin around each tile, clamped to the image', () => {
+    for (const { source, target } of planTiles(97, 61, 4, 16)) {
+      assert.equal(source.x, Math.max(0, target.x - 4));
+      assert.equal(source.y, Math.max(0, target.y - 4));
+      assert.equal(source.x + source.width, Math.min(97, target.x + target.width + 4));
+      assert.equal(source.y + source.height, Math.min(61, target.y + target.height + 4));
+    }
+  });
+
+  it('gives an image no larger than a tile a single tile', () => {
+    assert.deepEqual(planTiles(20, 30, 5), [
+      { target: { x: 0, y: 0, width: 20, height: 30 }, source: { x: 0, y: 0, width: 20, height: 30 } }
+    ]);
+  });
+});
+
+describe('cropPixelBuffer', () => {
+  it('copies the rows of a rectangle', () => {
+    const buffer = pattern(5, 4);
+    const crop = cropPixelBuffer(buffer, { x: 1, y: 2, width: 3, height: 2 });
+
+    assert.equal(crop.width, 3);
+    assert.equal(crop.height, 2);
+    assert.deepEqual(Array.from(crop.data.subarray(0, 12)), Array.from(buffer.data.subarray((2 * 5 + 1) * 4, (2 * 5 + 4) * 4)));
+    assert.deepEqual(Array.from(crop.data.subarray(12)), Array.from(buffer.data.subarray((3 * 5 + 1) * 4, (3 * 5 + 4) * 4)));
+  });
+});
+
+describe('tiled adjustments', () => {
+  const image = pattern(97, 61);
+
+  for (const settings of [
+    { blur: 2.5 },
+    { blur: 0.4 },
+    { sharpen: 80 },
+    { hue: 45, saturation: 20 },
+    { blur: 3, sharpen: 40, hue: -90, brightness: 10 }
+  ]) {
+    it(`matches the whole image byte for byte with ${JSON.stringify(settings)}`, () => {
+      const whole = applyAdjustments(image, settings);
+      const tiled = adjustInTiles(image, settings, 16);
+      assert.ok(Buffer.from(tiled.data).equals(Buffer.from(whole.data)));
+    });
+  }
+});
@@ -0,0 +1,63 @@
+// Pure tiling for local edits on large images
+// Each tile reads a margin of its neighbours' pixels, so filters that look at
+// nearby pixels give the same result as on the whole image.
+
+import type { CropRect, PixelBuffer } from './types';
+
+// Edge length of a tile; 1024² RGBA pixels are 4MB per copy
+export const TILE_SIZE = 1024;
+
+export interface Tile {
+  target: CropRect; // Pixels this tile produces
+  source: CropRect; // Pixels it reads: the target plus the margin, clamped to the image
+}
+
+/**
+ * Cover an image with tiles in rows, top to bottom. An image no larger than one
+ * tile gets a single tile.
+ */
+export const planTiles = (width: number, height: number, margin = 0, tileSize = TILE_SIZE): Tile[] => {
+  const tiles: Tile[] = [];
+
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      const target = { x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) };
+      const left = Math.max(0, x - margin);
+      const top = Math.max(0, y - margin);
+      const right = Math.min(width, x + target.width + margin);
+      const bottom = Math.min(height, y + target.height + margin);
+      tiles.push({ target, source: { x: left, y: top, width: right - left, height: bottom - top } });
+    }
+  }
+
+  return tiles;
+};
+
+/**
+ * Copy a rectangle out of a buffer. Returns a new buffer.
+ */
+export const cropPixelBuffer = (buffer: PixelBuffer, rect: CropRect): PixelBuffer => {
+  const data = new Uint8ClampedArray(rect.width * rect.height * 4);
+  const rowLength = rect.width * 4;
+
+  for (let row = 0; row < rect.height; row++) {
+    const start = ((rect.y + row) * buffer.width + rect.x) * 4;
+    data.set(buffer.data.subarray(start, start + rowLength), row * rowLength);
+  }
+
+  return { width: rect.width, height: rect.height, data };
+};
+
+/**
+ * Copy a buffer into a larger one with its top-left corner at (x, y)
+ */
+export const pastePixelBuffer = (target: PixelBuffer, buffer: PixelBuffer, x: number, y: number): void => {
+  const rowLength = buffer.width * 4;
+
+  for (let row = 0; row < buffer.height; row++) {
+    target.data.set(
+      buffer.data.subarray(row * rowLength, (row + 1) * rowLength),
+      ((y + row) * target.width + x) * 4
+    );
+  }
+};
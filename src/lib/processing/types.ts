@@ -0,0 +1,71 @@
+// Contracts for edits that run locally in the browser instead of on an AI provider
+
+import { z } from 'zod';
+import { editParametersSchema, type EditOperation, type EditParameters } from '../imageEditApi';
+
+export const LOCAL_OPERATIONS = ['adjust', 'crop', 'rotate', 'flip', 'straighten'] as const;
+
+export type LocalOperation = typeof LOCAL_OPERATIONS[number];
+
+export const isLocalOperation = (value: unknown): value is LocalOperation =>
+  typeof value === 'string' && (LOCAL_OPERATIONS as readonly string[]).includes(value);
+
+export const adjustmentSettingsSchema = z.object({
+  brightness: z.number().min(-100).max(100).default(0),
+  contrast: z.number().min(-100).max(100).default(0),
+  exposure: z.number().min(-3).max(3).default(0), // Stops
+  saturation: z.number().min(-100).max(100).default(0),
+  vibrance: z.number().min(-100).max(100).default(0),
+  hue: z.number().min(-180).max(180).default(0), // Degrees
+  temperature: z.number().min(-100).max(100).default(0),
+  tint: z.number().min(-100).max(100).default(0),
+  gamma: z.number().min(0.1).max(5).default(1),
+  sharpen: z.number().min(0).max(100).default(0),
+  blur: z.number().min(0).max(20).default(0) // Radius in pixels
+});
+
+export type AdjustmentSettings = z.infer<typeof adjustmentSettingsSchema>;
+
+export const DEFAULT_ADJUSTMENTS: AdjustmentSettings = adjustmentSettingsSchema.parse({});
+
+export const cropRectSchema = z.object({
+  x: z.number().int().nonnegative(),
+  y: z.number().int().nonnegative(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive()
+});
+
+export type CropRect = z.infer<typeof cropRectSchema>; // Source pixels
+
+// Geometric edits, applied in field order: straighten, rotate, flip, crop
+export const transformParametersSchema = z.object({
+  straighten: z.number().min(-45).max(45).optional(), // Degrees, clockwise; the result is auto-cropped
+  rotate: z.union([z.literal(90), z.literal(180), z.literal(270)]).optional(), // Clockwise
+  flip: z.enum(['horizontal', 'vertical']).optional(),
+  crop: cropRectSchema.optional()
+});
+
+export type TransformParameters = z.infer<typeof transformParametersSchema>;
+
+// Everything the editor's process handler accepts, AI or local
+export type ProcessOperation = EditOperation | LocalOperation;
+
+export type ProcessParameters = EditParameters & {
+  adjustments?: Partial<AdjustmentSettings>;
+  transform?: TransformParameters;
+};
+
+// Validates parameters that were saved to a file, such as a project or recipe
+export const processParametersSchema = editParametersSchema.extend({
+  adjustments: adjustmentSettingsSchema.partial().optional(),
+  transform: transformParametersSchema.optional()
+});
+
+/**
+ * Minimal view of ImageData, so pixel functions also run where ImageData does not exist
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
@@ -0,0 +1,31 @@
+// Web Worker entry for the local processing engine
+
+import { applyAdjustments } from './adjustments';
+import type { AdjustmentSettings } from './types';
+
+export interface AdjustRequestMessage {
+  id: number;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  settings: Partial<AdjustmentSettings>;
+}
+
+export type AdjustResponseMessage =
+  | { id: number; ok: true; width: number; height: number; data: Uint8ClampedArray }
+  | { id: number; ok: false; error: string };
+
+self.onmessage = (event: MessageEvent<AdjustRequestMessage>) => {
+  const { id, width, height, data, settings } = event.data;
+
+  let response: AdjustResponseMessage;
+  try {
+    const result = applyAdjustments({ width, height, data }, settings);
+    response = { id, ok: true, width: result.width, height: result.height, data: result.data };
+  } catch (error) {
+    response = { id, ok: false, error: error instanceof Error ? error.message : 'Adjustment failed' };
+  }
+
+  // Hand the pixel buffer back without copying it
+  self.postMessage(response, { transfer: response.ok ? [response.data.buffer] : [] });
+};
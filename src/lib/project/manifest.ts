@@ -0,0 +1,138 @@
+// Project file manifest: the versioned JSON at the root of a project zip
+// The format is documented in the README under "Project files".
+
+import { z } from 'zod';
+import { SOURCE_FORMATS } from '../formats';
+import { processParametersSchema } from '../processing/types';
+
+export const PROJECT_FORMAT = 'ai-image-editor-project';
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_MANIFEST_FILE = 'project.json';
+export const PROJECT_FILE_EXTENSION = '.project.zip';
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// Paths inside the zip; kept to a fixed layout so nothing can point outside it
+const imagePathSchema = z.string().regex(/^(images|masks)\/[\w.-]+$/, 'Invalid file path');
+
+const historyEntrySchema = z.object({
+  id: z.string().min(1),
+  parentId: z.string().min(1).nullable(),
+  operation: z.string().min(1),
+  timestamp: z.number().int().nonnegative(),
+  image: imagePathSchema,
+  variants: z.array(imagePathSchema).min(1).optional(),
+  selectedVariant: z.number().int().nonnegative().optional(),
+  checkpoint: z.string().optional(),
+  // The mask is stored as its own file rather than inline base64
+  parameters: processParametersSchema.omit({ mask: true }).optional(),
+  mask: imagePathSchema.optional(),
+  provider: z.object({
+    type: z.string().min(1),
+    model: z.string().optional()
+  }).optional()
+});
+
+export const projectManifestSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  formatVersion: z.literal(PROJECT_FORMAT_VERSION),
+  createdAt: z.number().int().nonnegative(),
+  original: z.object({
+    image: imagePathSchema,
+    name: z.string().min(1),
+    type: z.string(),
+    // The format uploaded, which differs from the type when the original was converted on import
+    format: z.enum(SOURCE_FORMATS).optional()
+  }),
+  history: z.array(historyEntrySchema),
+  currentEntryId: z.string().nullable(),
+  branchTipId: z.string().nullable()
+});
+
+export type ProjectManifest = z.infer<typeof projectManifestSchema>;
+export type ProjectHistoryEntry = z.infer<typeof historyEntrySchema>;
+
+type ManifestMigration = (manifest: Record<string, unknown>) => Record<string, unknown>;
+
+// Upgrades from version N (the key) to N + 1. When the format changes, bump
+// PROJECT_FORMAT_VERSION, update the schema and add the step from the old version here.
+const MIGRATIONS: Record<number, ManifestMigration> = {};
+
+/**
+ * Bring a manifest from any earlier format version up to the current one
+ */
+export const migrateManifest = (raw: unknown): unknown => {
+  if (typeof raw !== 'object' || raw === null || (raw as Record<string, unknown>).format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This is not a project file');
+  }
+
+  let manifest = raw as Record<string, unknown>;
+  const version = manifest.formatVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('The project file has no valid format version');
+  }
+  if (version > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFileError('This project was saved by a newer version of the editor');
+  }
+
+  for (let from = version; from < PROJECT_FORMAT_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) {
+      throw new ProjectFileError(`Project format version ${from} can no longer be opened`);
+    }
+    manifest = { ...migrate(manifest), formatVersion: from + 1 };
+  }
+  return manifest;
+};
+
+/**
+ * Migrate and validate a manifest, including the links between history entries
+ */
+export const parseManifest = (raw: unknown): ProjectManifest => {
+  const result = projectManifestSchema.safeParse(migrateManifest(raw));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ProjectFileError(`Invalid project manifest at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  const manifest = result.data;
+  const ids = new Set<string>();
+  for (const entry of manifest.history) {
+    if (ids.has(entry.id)) {
+      throw new ProjectFileError(`Duplicate history entry ${entry.id}`);
+    }
+    ids.add(entry.id);
+  }
+
+  const parents = new Map(manifest.history.map((entry) => [entry.id, entry.parentId]));
+  for (const entry of manifest.history) {
+    if (entry.parentId !== null && !ids.has(entry.parentId)) {
+      throw new ProjectFileError(`History entry ${entry.id} refers to a missing parent`);
+    }
+    if (entry.variants && (entry.selectedVariant ?? 0) >= entry.variants.length) {
+      throw new ProjectFileError(`History entry ${entry.id} selects a variant that does not exist`);
+    }
+
+    // Walking up must reach the original within as many steps as there are entries
+    let parentId = entry.parentId;
+    for (let steps = 0; parentId !== null; steps++) {
+      if (steps > manifest.history.length) {
+        throw new ProjectFileError('The project history contains a cycle');
+      }
+      parentId = parents.get(parentId) ?? null;
+    }
+  }
+
+  for (const id of [manifest.currentEntryId, manifest.branchTipId]) {
+    if (id !== null && !ids.has(id)) {
+      throw new ProjectFileError('The project points at a history entry that does not exist');
+    }
+  }
+
+  return manifest;
+};
@@ -0,0 +1,218 @@
+// Save and open project files: a zip holding project.json, the original upload
+// and every image in the history, so work in progress can be handed to someone else.
+
+import JSZip from 'jszip';
+import type { SourceFormat } from '../formats';
+import type { EditHistory } from '../history';
+import { readImageHeader } from '../imageDimensions';
+import {
+  PROJECT_FORMAT,
+  PROJECT_FORMAT_VERSION,
+  PROJECT_MANIFEST_FILE,
+  ProjectFileError,
+  parseManifest,
+  type ProjectHistoryEntry,
+  type ProjectManifest
+} from './manifest';
+
+export interface ProjectState {
+  file: File;
+  sourceFormat?: SourceFormat; // What was uploaded, before any conversion on import
+  originalImageUrl: string;
+  entries: EditHistory[];
+  currentEntryId: string | null;
+  branchTipId: string | null;
+  createdAt: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const fetchImage = async (url: string, description: string): Promise<Blob> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.blob();
+  } catch (error) {
+    console.error(`Failed to read ${description}:`, error);
+    throw new ProjectFileError(`Could not read the image for ${description}; it may have expired`);
+  }
+};
+
+/**
+ * Pack the current editor state into a project zip
+ */
+export const exportProject = async (state: ProjectState): Promise<Blob> => {
+  const zip = new JSZip();
+  // The chosen variant is usually also the entry's image; store each URL once
+  const paths = new Map<string, string>();
+
+  const addImage = async (url: string, name: string, description: string, blob?: Blob): Promise<string> => {
+    const existing = paths.get(url);
+    if (existing) return existing;
+
+    const data = blob ?? await fetchImage(url, description);
+    const path = `images/${name}.${EXTENSIONS[data.type] ?? 'img'}`;
+    zip.file(path, data);
+    paths.set(url, path);
+    return path;
+  };
+
+  const original = await addImage(state.originalImageUrl, 'original', 'the original', state.file);
+  const history: ProjectHistoryEntry[] = [];
+
+  for (const [index, entry] of state.entries.entries()) {
+    const step = `step-${index + 1}`;
+    const description = `edit ${index + 1} (${entry.operation})`;
+
+    const variants: string[] = [];
+    for (const [variantIndex, variant] of (entry.variants ?? []).entries()) {
+      variants.push(await addImage(variant, `${step}-variant-${variantIndex + 1}`, description));
+    }
+    const image = await addImage(entry.imageUrl, step, description);
+
+    const { mask, ...parameters } = entry.parameters ?? {};
+    let maskPath: string | undefined;
+    if (mask) {
+      maskPath = `masks/${step}.png`;
+      zip.file(maskPath, mask, { base64: true });
+    }
+
+    history.push({
+      id: entry.id,
+      parentId: entry.parentId,
+      operation: entry.operation,
+      timestamp: entry.timestamp,
+      image,
+      variants: entry.variants ? variants : undefined,
+      selectedVariant: entry.selectedVariant,
+      checkpoint: entry.checkpoint,
+      parameters: entry.parameters ? parameters : undefined,
+      mask: maskPath,
+      provider: entry.provider
+    });
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    formatVersion: PROJECT_FORMAT_VERSION,
+    createdAt: state.createdAt,
+    original: { image: original, name: state.file.name, type: state.file.type, format: state.sourceFormat },
+    history,
+    currentEntryId: state.currentEntryId,
+    branchTipId: state.branchTipId
+  };
+  zip.file(PROJECT_MANIFEST_FILE, JSON.stringify(manifest, null, 2), { compression: 'DEFLATE' });
+
+  // Images are already compressed, so they are stored as-is
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+/**
+ * Read a project zip back into editor state, with object URLs for every image
+ */
+export const importProject = async (file: Blob): Promise<ProjectState> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new ProjectFileError('This file is not a project zip');
+  }
+
+  const manifestFile = zip.file(PROJECT_MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new ProjectFileError(`The project has no ${PROJECT_MANIFEST_FILE}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new ProjectFileError(`${PROJECT_MANIFEST_FILE} is not valid JSON`);
+  }
+  const manifest = parseManifest(raw);
+
+  const blobs = new Map<string, Blob>();
+  const urls = new Map<string, string>();
+
+  const readImage = async (path: string): Promise<Blob> => {
+    const cached = blobs.get(path);
+    if (cached) return cached;
+
+    const entry = zip.file(path);
+    if (!entry) {
+      throw new ProjectFileError(`The project is missing ${path}`);
+    }
+    const data = await entry.async('uint8array');
+    const header = readImageHeader(data);
+    if (!header) {
+      throw new ProjectFileError(`${path} is not a supported image`);
+    }
+    const blob = new Blob([data], { type: `image/${header.type}` });
+    blobs.set(path, blob);
+    return blob;
+  };
+
+  const imageUrl = async (path: string): Promise<string> => {
+    const existing = urls.get(path);
+    if (existing) return existing;
+    const url = URL.createObjectURL(await readImage(path));
+    urls.set(path, url);
+    return url;
+  };
+
+  const readMask = async (path: string): Promise<string> => {
+    const entry = zip.file(path);
+    if (!entry) {
+      throw new ProjectFileError(`The project is missing ${path}`);
+    }
+    return entry.async('base64');
+  };
+
+  try {
+    const originalBlob = await readImage(manifest.original.image);
+    const originalFile = new File([originalBlob], manifest.original.name, {
+      type: manifest.original.type || originalBlob.type
+    });
+
+    const entries: EditHistory[] = [];
+    for (const entry of manifest.history) {
+      const variants = entry.variants
+        ? await Promise.all(entry.variants.map(imageUrl))
+        : undefined;
+      const mask = entry.mask ? await readMask(entry.mask) : undefined;
+
+      entries.push({
+        id: entry.id,
+        parentId: entry.parentId,
+        imageUrl: await imageUrl(entry.image),
+        operation: entry.operation,
+        parameters: mask ? { ...entry.parameters, mask } : entry.parameters,
+        provider: entry.provider,
+        timestamp: entry.timestamp,
+        variants,
+        selectedVariant: entry.selectedVariant,
+        checkpoint: entry.checkpoint
+      });
+    }
+
+    return {
+      file: originalFile,
+      sourceFormat: manifest.original.format,
+      originalImageUrl: await imageUrl(manifest.original.image),
+      entries,
+      currentEntryId: manifest.currentEntryId,
+      branchTipId: manifest.branchTipId,
+      createdAt: manifest.createdAt
+    };
+  } catch (error) {
+    urls.forEach((url) => URL.revokeObjectURL(url));
+    throw error;
+  }
+};
@@ -0,0 +1,174 @@
+// Decoding chat completions into images, and telling text and refusals apart from them
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { ProviderError } from '@/lib/resilience';
+import { decodeChatCompletion, sniffBase64ImageType, toImageUrl, type ChatCompletionResponse } from './chatResponse';
+import { OpenAIChatProvider } from './openaiChat';
+
+// Leading bytes of a PNG and a JPEG, long enough to pass for a bare base64 answer
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const JPEG_BASE64 = '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHR8eHR0aHBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/';
+
+const message = (content: unknown, extra: Record<string, unknown> = {}): ChatCompletionResponse =>
+  ({ choices: [{ message: { content, ...extra } }] }) as ChatCompletionResponse;
+
+describe('decodeChatCompletion', () => {
+  it('reads image_url content parts, as objects and as strings', () => {
+    const decoded = decodeChatCompletion(message([
+      { type: 'text', text: 'Here is the edited image.' },
+      { type: 'image_url', image_url: { url: 'https://cdn.example.com/a.png' } },
+      { type: 'image_url', image_url: 'https://cdn.example.com/b.webp' }
+    ]));
+
+    assert.deepEqual(decoded.images, ['https://cdn.example.com/a.png', 'https://cdn.example.com/b.webp']);
+    assert.equal(decoded.text, 'Here is the edited image.');
+    assert.equal(decoded.refusal, undefined);
+  });
+
+  it('turns b64_json into data URLs with the sniffed type', () => {
+    const decoded = decodeChatCompletion(message([{ type: 'image', b64_json: JPEG_BASE64 }]));
+    assert.deepEqual(decoded.images, [`data:image/jpeg;base64,${JPEG_BASE64}`]);
+
+    // Images-API style payloads
+    assert.deepEqual(decodeChatCompletion({ data: [{ b64_json: PNG_BASE64 }] }).images, [`data:image/png;base64,${PNG_BASE64}`]);
+  });
+
+  it('finds data URLs in text, markdown or bare', () => {
+    const dataUrl = `data:image/png;base64,${PNG_BASE64}`;
+    assert.deepEqual(decodeChatCompletion(message(`![result](${dataUrl})`)).images, [dataUrl]);
+    assert.deepEqual(decodeChatCompletion(message(`Done: ${dataUrl}`)).images, [dataUrl]);
+  });
+
+  it('accepts an answer that is nothing but base64 image data', () => {
+    assert.deepEqual(decodeChatCompletion(message(PNG_BASE64)).images, [`data:image/png;base64,${PNG_BASE64}`]);
+  });
+
+  it('collects every image from parts, message images and choices', () => {
+    const decoded = decodeChatCompletion({
+      choices: [
+        { message: { content: [{ type: 'image_url', image_url: { url: 'https://cdn.example.com/1.png' } }] } },
+        {
+          message: {
+            content: 'Second: ![two](https://cdn.example.com/2.png)',
+            images: [{ type: 'image_url', image_url: { url: 'https://cdn.example.com/3.png' } }]
+          }
+        }
+      ]
+    });
+
+    assert.deepEqual(decoded.images, [
+      'https://cdn.example.com/1.png',
+      'https://cdn.example.com/2.png',
+      'https://cdn.example.com/3.png'
+    ]);
+  });
+
+  it('drops duplicate images', () => {
+    const url = 'https://cdn.example.com/same.png';
+    const decoded = decodeChatCompletion(message([
+      { type: 'image_url', image_url: { url } },
+      { type: 'text', text: `![same](${url})` }
+    ]));
+    assert.deepEqual(decoded.images, [url]);
+  });
+
+  it('keeps query strings and trailing punctuation apart', () => {
+    const signed = 'https://storage.example.com/out/result.png?X-Amz-Signature=abc123&expires=3600';
+    assert.deepEqual(decodeChatCompletion(message(`Your image: ${signed}.`)).images, [signed]);
+  });
+
+  it('takes URLs without an extension when the answer is only links or marks them as images', () => {
+    const url = 'https://images.example.com/render/8f2c1d?size=large';
+    assert.deepEqual(decodeChatCompletion(message(url)).images, [url]);
+    assert.deepEqual(decodeChatCompletion(message(`![edited](${url})`)).images, [url]);
+    assert.deepEqual(decodeChatCompletion(message([{ type: 'output_image', url }])).images, [url]);
+  });
+
+  it('does not treat ordinary links in prose as images', () => {
+    const decoded = decodeChatCompletion(message('See https://docs.example.com/guide for how this works.'));
+    assert.deepEqual(decoded.images, []);
+    assert.equal(decoded.refusal, undefined);
+  });
+
+  it('reports a text-only answer as text, not as an image or a refusal', () => {
+    const decoded = decodeChatCompletion(message('The image shows a cat sitting on a windowsill in the afternoon sun.'));
+
+    assert.deepEqual(decoded.images, []);
+    assert.equal(decoded.refusal, undefined);
+    assert.match(decoded.text, /cat sitting/);
+  });
+
+  it('reports refusals from the refusal field, refusal parts and refusal wording', () => {
+    assert.equal(decodeChatCompletion(message(null, { refusal: 'I cannot edit this image.' })).refusal, 'I cannot edit this image.');
+    assert.equal(
+      decodeChatCompletion(message([{ type: 'refusal', refusal: 'Not allowed.' }])).refusal,
+      'Not allowed.'
+    );
+    assert.equal(
+      decodeChatCompletion(message("I'm sorry, but I can't help with editing this photo.")).refusal,
+      "I'm sorry, but I can't help with editing this photo."
+    );
+    assert.deepEqual(decodeChatCompletion(message(null, { refusal: 'No.' })).images, []);
+  });
+
+  it('maps usage to camel case', () => {
+    const decoded = decodeChatCompletion({
+      ...message([{ type: 'image_url', image_url: { url: 'https://cdn.example.com/a.png' } }]),
+      usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+    });
+    assert.deepEqual(decoded.usage, { promptTokens: 10, completionTokens: 20, totalTokens: 30 });
+  });
+});
+
+describe('image helpers', () => {
+  it('sniffs base64 image types from their leading bytes', () => {
+    assert.equal(sniffBase64ImageType(PNG_BASE64), 'image/png');
+    assert.equal(sniffBase64ImageType(JPEG_BASE64), 'image/jpeg');
+    assert.equal(sniffBase64ImageType('UklGRiQAAABXRUJQ'), 'image/webp');
+    assert.equal(sniffBase64ImageType('R0lGODlhAQABAAAAACw='), 'image/gif');
+    assert.equal(sniffBase64ImageType('SGVsbG8gd29ybGQ='), undefined);
+  });
+
+  it('leaves URLs alone and wraps raw base64', () => {
+    assert.equal(toImageUrl('https://cdn.example.com/a.png'), 'https://cdn.example.com/a.png');
+    assert.equal(toImageUrl('data:image/gif;base64,R0lGOD'), 'data:image/gif;base64,R0lGOD');
+    assert.equal(toImageUrl(`${PNG_BASE64.slice(0, 20)}\n${PNG_BASE64.slice(20)}`), `data:image/png;base64,${PNG_BASE64}`);
+  });
+});
+
+describe('OpenAIChatProvider', () => {
+  const provider = new OpenAIChatProvider({ type: 'openai-chat', endpoint: 'http://provider.test/v1/chat/completions', model: 'test' });
+
+  const answer = (body: ChatCompletionResponse) =>
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    }));
+
+  const edit = () => provider.editImage({ image: PNG_BASE64, operation: 'enhance', prompt: 'Enhance this image' });
+
+  afterEach(() => mock.restoreAll());
+
+  it('returns the decoded images', async () => {
+    answer(message([{ type: 'image_url', image_url: { url: 'https://cdn.example.com/a.png' } }]));
+    assert.deepEqual((await edit()).images, ['https://cdn.example.com/a.png']);
+  });
+
+  it('fails a refusal as refused', async () => {
+    answer(message(null, { refusal: 'I cannot edit this image.' }));
+    await assert.rejects(edit(), (error: unknown) =>
+      error instanceof ProviderError && error.reason === 'refused' && /cannot edit/.test(error.message));
+  });
+
+  it('fails a text-only answer as no-image, quoting the text', async () => {
+    answer(message('The image shows a cat sitting on a windowsill.'));
+    await assert.rejects(edit(), (error: unknown) =>
+      error instanceof ProviderError && error.reason === 'no-image' && /cat sitting/.test(error.message));
+  });
+
+  it('fails an empty answer as an invalid response', async () => {
+    answer({ choices: [{ message: { content: '' } }] });
+    await assert.rejects(edit(), (error: unknown) => error instanceof ProviderError && error.reason === 'invalid-response');
+  });
+});
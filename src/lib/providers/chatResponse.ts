@@ -0,0 +1,183 @@
+// Decoder for OpenAI-compatible chat completion responses that carry generated images
+
+export interface ChatUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+export interface DecodedChatResponse {
+  images: string[]; // http(s) or data URLs
+  text: string;
+  refusal?: string;
+  usage?: ChatUsage;
+}
+
+interface ImageUrlPart {
+  url?: string;
+}
+
+interface ContentPart {
+  type?: string;
+  text?: string;
+  refusal?: string;
+  image_url?: string | ImageUrlPart;
+  b64_json?: string;
+  url?: string;
+}
+
+interface ChatMessage {
+  content?: string | ContentPart[] | null;
+  refusal?: string | null;
+  images?: ContentPart[];
+}
+
+export interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: ChatMessage;
+    finish_reason?: string;
+  }>;
+  data?: ContentPart[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+const IMAGE_EXTENSION = /\.(?:jpe?g|png|webp|gif|avif|bmp)$/i;
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\((\S+?)(?:\s+"[^"]*")?\)/g;
+const BARE_URL = /(?:https?:\/\/|data:image\/)[^\s<>"'()\]]+/gi;
+const BASE64_BODY = /^[A-Za-z0-9+/\s]+={0,2}$/;
+const REFUSAL_TEXT = /^(?:i'?m sorry|sorry,|i (?:can(?:no|')t|am unable|won'?t)|unfortunately,? i)/i;
+
+// Leading bytes of the formats providers return, in base64
+const BASE64_SIGNATURES: Array<[string, string]> = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif']
+];
+
+/**
+ * Guess the image type of a base64 payload from its leading bytes
+ */
+export const sniffBase64ImageType = (base64: string): string | undefined => {
+  return BASE64_SIGNATURES.find(([signature]) => base64.startsWith(signature))?.[1];
+};
+
+/**
+ * Turn raw base64 into a data URL, leaving http(s) and data URLs untouched
+ */
+export const toImageUrl = (image: string): string => {
+  if (/^(?:https?:|data:)/i.test(image)) {
+    return image;
+  }
+  const base64 = image.replace(/\s/g, '');
+  return `data:${sniffBase64ImageType(base64) ?? 'image/png'};base64,${base64}`;
+};
+
+const isImageUrl = (url: string): boolean => {
+  if (url.startsWith('data:image/')) return true;
+  try {
+    return IMAGE_EXTENSION.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+};
+
+const trimUrl = (url: string): string => url.replace(/[.,;:!?]+$/, '');
+
+/**
+ * Find image references in free text: markdown images, image-looking URLs,
+ * or any URL when the message consists of nothing else
+ */
+const extractImagesFromText = (text: string): string[] => {
+  const markdownImages = [...text.matchAll(MARKDOWN_IMAGE)].map((match) => trimUrl(match[1]));
+  const withoutMarkdown = text.replace(MARKDOWN_IMAGE, ' ');
+  const urls = (withoutMarkdown.match(BARE_URL) ?? []).map(trimUrl);
+
+  const linksOnly = withoutMarkdown.replace(BARE_URL, '').trim() === '';
+  const bareImages = linksOnly ? urls : urls.filter(isImageUrl);
+
+  const images = [...markdownImages, ...bareImages];
+
+  // Some providers answer with nothing but the encoded image
+  const trimmed = text.trim();
+  if (images.length === 0 && trimmed.length > 64 && BASE64_BODY.test(trimmed) && sniffBase64ImageType(trimmed)) {
+    images.push(toImageUrl(trimmed));
+  }
+
+  return images;
+};
+
+const imageFromPart = (part: ContentPart): string | undefined => {
+  if (part.b64_json) return toImageUrl(part.b64_json);
+  if (typeof part.image_url === 'string') return part.image_url;
+  if (part.image_url?.url) return part.image_url.url;
+  if (part.url && (part.type === 'image' || part.type === 'output_image' || isImageUrl(part.url))) return part.url;
+  return undefined;
+};
+
+/**
+ * Decode a chat completion into images, text, refusal and usage
+ */
+export const decodeChatCompletion = (response: ChatCompletionResponse): DecodedChatResponse => {
+  const images: string[] = [];
+  const textParts: string[] = [];
+  let refusal: string | undefined;
+
+  // Each choice is one completion; with n > 1 every choice can carry a variant
+  for (const choice of response.choices ?? []) {
+    const message = choice.message;
+    if (!message) continue;
+
+    if (message.refusal) {
+      refusal = message.refusal;
+    }
+
+    if (typeof message.content === 'string') {
+      textParts.push(message.content);
+      images.push(...extractImagesFromText(message.content));
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        const image = imageFromPart(part);
+        if (image) {
+          images.push(image);
+        } else if (part.refusal) {
+          refusal = part.refusal;
+        } else if (part.text) {
+          textParts.push(part.text);
+          images.push(...extractImagesFromText(part.text));
+        }
+      }
+    }
+
+    for (const part of message.images ?? []) {
+      const image = imageFromPart(part);
+      if (image) images.push(image);
+    }
+  }
+
+  // Images-API style payloads: { data: [{ url } | { b64_json }] }
+  for (const part of response.data ?? []) {
+    const image = imageFromPart(part) ?? (part.url ? part.url : undefined);
+    if (image) images.push(image);
+  }
+
+  const text = textParts.join('\n').trim();
+  if (!refusal && images.length === 0 && REFUSAL_TEXT.test(text)) {
+    refusal = text;
+  }
+
+  return {
+    images: [...new Set(images)],
+    text,
+    refusal,
+    usage: response.usage && {
+      promptTokens: response.usage.prompt_tokens,
+      completionTokens: response.usage.completion_tokens,
+      totalTokens: response.usage.total_tokens
+    }
+  };
+};
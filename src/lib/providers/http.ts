@@ -0,0 +1,58 @@
+// Generic HTTP image-in/image-out provider
+import { AI_OPERATIONS } from '@/lib/imageEditApi';
+import { ProviderError } from '@/lib/resilience';
+import { z } from 'zod';
+import type { AIProvider, HttpProviderConfig, ProviderEditRequest, ProviderEditResult } from './types';
+import { readJsonResponse } from './json';
+
+const httpImageResponseSchema = z.object({
+  image: z.string().optional(),
+  url: z.string().optional()
+});
+
+/**
+ * Posts the image as JSON and accepts either raw image bytes or a JSON body
+ * with an `image` (base64) or `url` field in return.
+ */
+export class HttpImageProvider implements AIProvider {
+  readonly type = 'http';
+  readonly label = 'HTTP image service';
+  readonly supportedOperations = AI_OPERATIONS;
+
+  constructor(private readonly config: HttpProviderConfig) {}
+
+  async editImage(request: ProviderEditRequest): Promise<ProviderEditResult> {
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers
+      },
+      body: JSON.stringify({
+        image: request.image,
+        operation: request.operation,
+        prompt: request.prompt,
+        parameters: request.parameters
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw ProviderError.fromResponse(response);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.startsWith('image/')) {
+      const bytes = await response.arrayBuffer();
+      return { images: [`data:${contentType.split(';')[0]};base64,${Buffer.from(bytes).toString('base64')}`] };
+    }
+
+    const result = await readJsonResponse(response, httpImageResponseSchema, 'HTTP provider response');
+    const output = result.image || result.url;
+    if (!output) {
+      throw new ProviderError('HTTP provider response did not include an image', { reason: 'invalid-response' });
+    }
+
+    return { images: [output] };
+  }
+}
@@ -0,0 +1,24 @@
+// AI provider registry
+import { HttpImageProvider } from './http';
+import { MockProvider } from './mock';
+import { OpenAIChatProvider } from './openaiChat';
+import { ReplicateProvider } from './replicate';
+import type { AIProvider, ProviderConfig } from './types';
+
+/**
+ * Instantiate the provider described by a configuration object
+ */
+export const createProvider = (config: ProviderConfig): AIProvider => {
+  switch (config.type) {
+    case 'openai-chat':
+      return new OpenAIChatProvider(config);
+    case 'replicate':
+      return new ReplicateProvider(config);
+    case 'http':
+      return new HttpImageProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+  }
+};
+
+export type { AIOperation, AIProvider, ProviderConfig, ProviderType } from './types';
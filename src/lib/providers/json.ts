@@ -0,0 +1,26 @@
+// Validated JSON decoding for provider responses
+import type { z } from 'zod';
+import { ProviderError } from '@/lib/resilience';
+
+/**
+ * Parse a provider's JSON body and check its shape, so an HTML error page or
+ * an empty body is reported as an invalid response rather than a SyntaxError
+ */
+export const readJsonResponse = async <S extends z.ZodTypeAny>(
+  response: Response,
+  schema: S,
+  description: string
+): Promise<z.infer<S>> => {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new ProviderError(`${description} was not valid JSON`, { reason: 'invalid-response', cause: error });
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new ProviderError(`${description} was malformed: ${parsed.error.issues[0].message}`, { reason: 'invalid-response' });
+  }
+  return parsed.data;
+};
@@ -0,0 +1,23 @@
+// Local mock provider for development without a real backend
+import { AI_OPERATIONS } from '@/lib/imageEditApi';
+import type { AIProvider, MockProviderConfig, ProviderEditRequest, ProviderEditResult } from './types';
+import { sleep } from './utils';
+
+const DEFAULT_DELAY = 500;
+
+/**
+ * Echoes the input image back after a short delay
+ */
+export class MockProvider implements AIProvider {
+  readonly type = 'mock';
+  readonly label = 'Local mock';
+  readonly model = 'mock';
+  readonly supportedOperations = AI_OPERATIONS;
+
+  constructor(private readonly config: MockProviderConfig) {}
+
+  async editImage(request: ProviderEditRequest): Promise<ProviderEditResult> {
+    await sleep(this.config.delay ?? DEFAULT_DELAY, request.signal);
+    return { images: Array.from({ length: request.parameters?.variants ?? 1 }, () => request.image) };
+  }
+}
@@ -0,0 +1,82 @@
+// OpenAI-compatible chat completions provider
+import { AI_OPERATIONS } from '@/lib/imageEditApi';
+import { ProviderError } from '@/lib/resilience';
+import { decodeChatCompletion, toImageUrl, type ChatCompletionResponse } from './chatResponse';
+import type { AIProvider, OpenAIChatProviderConfig, ProviderEditRequest, ProviderEditResult } from './types';
+
+export class OpenAIChatProvider implements AIProvider {
+  readonly type = 'openai-chat';
+  readonly label = 'OpenAI-compatible chat';
+  readonly supportedOperations = AI_OPERATIONS;
+  readonly model: string;
+
+  constructor(private readonly config: OpenAIChatProviderConfig) {
+    this.model = config.model;
+  }
+
+  async editImage(request: ProviderEditRequest): Promise<ProviderEditResult> {
+    const mask = request.parameters?.mask;
+    const payload = {
+      model: this.model,
+      n: request.parameters?.variants,
+      seed: request.parameters?.seed,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: request.prompt },
+            {
+              type: 'image_url',
+              image_url: {
+                url: toImageUrl(request.image)
+              }
+            },
+            // Chat models take the mask as a second image and are told what it means in the prompt
+            ...(mask ? [{ type: 'image_url', image_url: { url: toImageUrl(mask) } }] : [])
+          ]
+        }
+      ]
+    };
+
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers
+      },
+      body: JSON.stringify(payload),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw ProviderError.fromResponse(response);
+    }
+
+    let result: ChatCompletionResponse;
+    try {
+      result = await response.json();
+    } catch (error) {
+      throw new ProviderError('AI provider returned a malformed response', { reason: 'invalid-response', cause: error });
+    }
+
+    const decoded = decodeChatCompletion(result);
+
+    if (decoded.refusal) {
+      throw new ProviderError(`AI provider declined the request: ${decoded.refusal}`, { reason: 'refused' });
+    }
+
+    if (decoded.images.length === 0) {
+      if (decoded.text) {
+        const excerpt = decoded.text.length > 200 ? `${decoded.text.slice(0, 200)}...` : decoded.text;
+        throw new ProviderError(`AI provider replied with text instead of an image: "${excerpt}"`, { reason: 'no-image' });
+      }
+      throw new ProviderError('AI provider response did not contain an image', { reason: 'invalid-response' });
+    }
+
+    return {
+      images: decoded.images,
+      text: decoded.text || undefined,
+      usage: decoded.usage
+    };
+  }
+}
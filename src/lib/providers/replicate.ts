@@ -0,0 +1,128 @@
+// Replicate-style prediction API provider
+import { z } from 'zod';
+import { ProviderError } from '@/lib/resilience';
+import type { AIOperation, AIProvider, ProviderEditRequest, ProviderEditResult, ReplicateProviderConfig } from './types';
+import { toImageUrl } from './chatResponse';
+import { readJsonResponse } from './json';
+import { sleep } from './utils';
+
+const SUPPORTED_OPERATIONS: readonly AIOperation[] = [
+  'style-transfer',
+  'enhance',
+  'object-removal',
+  'artistic-filter',
+  'inpaint'
+];
+
+const DEFAULT_POLL_INTERVAL = 1000;
+
+const predictionSchema = z.object({
+  id: z.string(),
+  status: z.enum(['starting', 'processing', 'succeeded', 'failed', 'canceled']),
+  output: z.union([z.string(), z.array(z.string().nullable())]).nullish(),
+  error: z.string().nullish(),
+  urls: z.object({
+    get: z.string().optional(),
+    cancel: z.string().optional()
+  }).optional()
+});
+
+type Prediction = z.infer<typeof predictionSchema>;
+
+export class ReplicateProvider implements AIProvider {
+  readonly type = 'replicate';
+  readonly label = 'Replicate predictions';
+  readonly supportedOperations = SUPPORTED_OPERATIONS;
+  readonly model: string;
+
+  constructor(private readonly config: ReplicateProviderConfig) {
+    this.model = config.model;
+  }
+
+  async editImage(request: ProviderEditRequest): Promise<ProviderEditResult> {
+    const input = {
+      prompt: request.prompt,
+      image: toImageUrl(request.image),
+      mask: request.parameters?.mask ? toImageUrl(request.parameters.mask) : undefined,
+      num_outputs: request.parameters?.variants,
+      seed: request.parameters?.seed
+    };
+
+    // "owner/name" targets the model's latest version, anything else is a version id
+    const isModelName = this.model.includes('/');
+    const url = isModelName
+      ? `${this.config.endpoint}/models/${this.model}/predictions`
+      : `${this.config.endpoint}/predictions`;
+    const body = isModelName ? { input } : { version: this.model, input };
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...this.authHeaders(),
+        'Content-Type': 'application/json',
+        'Prefer': 'wait'
+      },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw ProviderError.fromResponse(response);
+    }
+
+    const created = await readJsonResponse(response, predictionSchema, 'Replicate prediction');
+    let prediction: Prediction;
+    try {
+      prediction = await this.waitForPrediction(created, request.signal);
+    } catch (error) {
+      if (request.signal?.aborted) {
+        this.cancelPrediction(created);
+      }
+      throw error;
+    }
+    const output = Array.isArray(prediction.output) ? prediction.output : [prediction.output];
+    const images = output.filter((image): image is string => typeof image === 'string' && image.length > 0);
+
+    if (images.length === 0) {
+      throw new ProviderError('Prediction finished without an output image', { reason: 'invalid-response' });
+    }
+
+    return { images };
+  }
+
+  private async waitForPrediction(initial: Prediction, signal?: AbortSignal): Promise<Prediction> {
+    let prediction = initial;
+    const pollInterval = this.config.pollInterval ?? DEFAULT_POLL_INTERVAL;
+
+    while (prediction.status === 'starting' || prediction.status === 'processing') {
+      const pollUrl = prediction.urls?.get || `${this.config.endpoint}/predictions/${prediction.id}`;
+      await sleep(pollInterval, signal);
+
+      const response = await fetch(pollUrl, { headers: this.authHeaders(), signal });
+      if (!response.ok) {
+        throw ProviderError.fromResponse(response);
+      }
+      prediction = await readJsonResponse(response, predictionSchema, 'Replicate prediction');
+    }
+
+    if (prediction.status === 'canceled') {
+      throw new ProviderError('Prediction was cancelled on the provider', { reason: 'cancelled' });
+    }
+    if (prediction.status !== 'succeeded') {
+      throw new ProviderError(prediction.error || `Prediction ${prediction.status}`, { reason: 'provider-failed' });
+    }
+
+    return prediction;
+  }
+
+  // Best-effort: stop the upstream prediction so it does not keep consuming credits
+  private cancelPrediction(prediction: Prediction) {
+    const cancelUrl = prediction.urls?.cancel || `${this.config.endpoint}/predictions/${prediction.id}/cancel`;
+    fetch(cancelUrl, { method: 'POST', headers: this.authHeaders() })
+      .catch((error) => console.warn(`Failed to cancel prediction ${prediction.id}:`, error));
+  }
+
+  private authHeaders(): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.config.apiToken}` };
+  }
+}
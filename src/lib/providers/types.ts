@@ -0,0 +1,64 @@
+// Shared contracts for AI image providers
+import type { AIOperation, EditParameters } from '@/lib/imageEditApi';
+import type { ChatUsage } from './chatResponse';
+
+export type { AIOperation };
+
+export type ProviderType = 'openai-chat' | 'replicate' | 'http' | 'mock';
+
+export interface ProviderEditRequest {
+  image: string; // Base64 encoded image
+  operation: AIOperation;
+  prompt: string;
+  parameters?: EditParameters;
+  signal?: AbortSignal;
+}
+
+export interface ProviderEditResult {
+  images: string[]; // http(s) URLs, data URLs or raw base64
+  text?: string;
+  usage?: ChatUsage;
+}
+
+export interface AIProvider {
+  readonly type: ProviderType;
+  readonly label: string;
+  readonly model?: string;
+  readonly supportedOperations: readonly AIOperation[];
+  /**
+   * Run an edit and return the resulting images
+   */
+  editImage(request: ProviderEditRequest): Promise<ProviderEditResult>;
+}
+
+export interface OpenAIChatProviderConfig {
+  type: 'openai-chat';
+  endpoint: string;
+  model: string;
+  headers?: Record<string, string>;
+}
+
+export interface ReplicateProviderConfig {
+  type: 'replicate';
+  endpoint: string; // API base, e.g. https://api.replicate.com/v1
+  model: string; // owner/name or a version id
+  apiToken: string;
+  pollInterval?: number;
+}
+
+export interface HttpProviderConfig {
+  type: 'http';
+  endpoint: string;
+  headers?: Record<string, string>;
+}
+
+export interface MockProviderConfig {
+  type: 'mock';
+  delay?: number;
+}
+
+export type ProviderConfig =
+  | OpenAIChatProviderConfig
+  | ReplicateProviderConfig
+  | HttpProviderConfig
+  | MockProviderConfig;
@@ -0,0 +1,118 @@
+// Edit recipes: the operations and parameters of an edit without its images,
+// saved as JSON so the same steps can be replayed on other pictures.
+
+import { z } from 'zod';
+import type { EditHistory } from '../history';
+import { EDIT_OPERATIONS } from '../imageEditApi';
+import { LOCAL_OPERATIONS, processParametersSchema, type ProcessOperation } from '../processing/types';
+
+export const RECIPE_FORMAT = 'ai-image-editor-recipe';
+export const RECIPE_FORMAT_VERSION = 1;
+export const RECIPE_FILE_EXTENSION = '.recipe.json';
+
+export class RecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeError';
+  }
+}
+
+const PROCESS_OPERATIONS = [...EDIT_OPERATIONS, ...LOCAL_OPERATIONS] as const;
+
+export const recipeStepSchema = z.object({
+  operation: z.enum(PROCESS_OPERATIONS),
+  // Masks are painted for one particular image, so they never travel with a recipe
+  parameters: processParametersSchema.omit({ mask: true }).optional()
+});
+
+export const recipeSchema = z.object({
+  format: z.literal(RECIPE_FORMAT),
+  formatVersion: z.literal(RECIPE_FORMAT_VERSION),
+  name: z.string().trim().min(1, 'A recipe needs a name'),
+  createdAt: z.number().int().nonnegative(),
+  steps: z.array(recipeStepSchema).min(1, 'A recipe needs at least one step')
+});
+
+export type Recipe = z.infer<typeof recipeSchema>;
+export type RecipeStep = z.infer<typeof recipeStepSchema>;
+
+const isProcessOperation = (value: string): value is ProcessOperation =>
+  (PROCESS_OPERATIONS as readonly string[]).includes(value);
+
+// Edits that only work with the mask painted on the image they were made on
+const dependsOnMask = (entry: EditHistory): boolean =>
+  entry.operation === 'inpaint' ||
+  (entry.operation === 'object-removal' && !entry.parameters?.prompt?.trim());
+
+export const buildRecipe = (name: string, steps: RecipeStep[]): Recipe => ({
+  format: RECIPE_FORMAT,
+  formatVersion: RECIPE_FORMAT_VERSION,
+  name: name.trim() || 'Untitled recipe',
+  createdAt: Date.now(),
+  steps
+});
+
+/**
+ * Turn the edits leading to an image into a recipe. Edits that cannot be
+ * replayed elsewhere are left out and returned separately.
+ */
+export const createRecipe = (
+  name: string,
+  entries: EditHistory[]
+): { recipe: Recipe; skipped: EditHistory[] } => {
+  const steps: RecipeStep[] = [];
+  const skipped: EditHistory[] = [];
+
+  for (const entry of entries) {
+    if (!isProcessOperation(entry.operation) || dependsOnMask(entry)) {
+      skipped.push(entry);
+      continue;
+    }
+    let parameters = entry.parameters;
+    if (parameters?.mask) {
+      parameters = { ...parameters };
+      delete parameters.mask;
+    }
+    steps.push({ operation: entry.operation, parameters });
+  }
+
+  return { recipe: buildRecipe(name, steps), skipped };
+};
+
+/**
+ * Read and validate a recipe file's contents
+ */
+export const parseRecipe = (text: string): Recipe => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new RecipeError('The recipe is not valid JSON');
+  }
+
+  if (typeof raw !== 'object' || raw === null || (raw as Record<string, unknown>).format !== RECIPE_FORMAT) {
+    throw new RecipeError('This is not a recipe file');
+  }
+  const version = (raw as Record<string, unknown>).formatVersion;
+  if (typeof version === 'number' && version > RECIPE_FORMAT_VERSION) {
+    throw new RecipeError('This recipe was saved by a newer version of the editor');
+  }
+
+  const result = recipeSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new RecipeError(`Invalid recipe at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data;
+};
+
+/**
+ * Check one step after its parameters were edited; returns the problem, if any
+ */
+export const validateRecipeStep = (step: RecipeStep): string | null => {
+  const result = recipeStepSchema.safeParse(step);
+  if (result.success) return null;
+
+  const issue = result.error.issues[0];
+  return `${issue.path.slice(1).join('.') || 'step'}: ${issue.message}`;
+};
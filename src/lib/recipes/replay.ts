@@ -0,0 +1,102 @@
+// Replays recipe steps through the same pipelines the editor uses:
+// local operations in the processing engine, AI operations as background jobs.
+
+import { imageEditClient } from '../imageEditClient';
+import type { ResultProvider } from '../imageEditApi';
+import { processingEngine } from '../processing/engine';
+import { isLocalOperation, type ProcessOperation, type ProcessParameters } from '../processing/types';
+import { prepareAIInput, workingSizePreference } from '../workingSize/workingCopy';
+import type { RecipeStep } from './recipe';
+
+export interface ReplayStepResult {
+  operation: ProcessOperation;
+  parameters?: ProcessParameters;
+  imageUrl: string;
+  variants?: string[]; // Every candidate when a step asks for several; imageUrl is the first
+  provider?: ResultProvider;
+}
+
+export interface ReplayProgress {
+  stepIndex: number;
+  message?: string;
+}
+
+export class RecipeReplayError extends Error {
+  constructor(
+    message: string,
+    readonly stepIndex: number,
+    readonly completed: ReplayStepResult[], // Results of the steps before the one that failed
+    readonly cancelled = false
+  ) {
+    super(message);
+    this.name = 'RecipeReplayError';
+  }
+}
+
+const runStep = async (
+  imageUrl: string,
+  { operation, parameters }: RecipeStep,
+  onMessage: (message: string) => void,
+  signal?: AbortSignal
+): Promise<ReplayStepResult> => {
+  if (isLocalOperation(operation)) {
+    const blob = await processingEngine.applyLocalEdit(imageUrl, operation, parameters, signal);
+    return { operation, parameters, imageUrl: URL.createObjectURL(blob), provider: { type: 'local' } };
+  }
+
+  const input = await prepareAIInput(imageUrl, parameters, workingSizePreference.get(), signal);
+  const result = await imageEditClient.runJob(
+    { image: input.image, operation, parameters: input.parameters },
+    (job) => {
+      if (job.message) onMessage(job.message);
+    },
+    signal
+  );
+
+  if (!result.success) {
+    throw new Error(result.error || 'Unknown error');
+  }
+
+  const images = result.images.length > 0 ? result.images : [result.imageUrl];
+  return {
+    operation,
+    parameters,
+    imageUrl: images[0],
+    variants: images.length > 1 ? images : undefined,
+    provider: result.provider
+  };
+};
+
+/**
+ * Apply each step to the previous step's result, starting from the given image
+ */
+export const replayRecipe = async (
+  imageUrl: string,
+  steps: RecipeStep[],
+  onProgress?: (progress: ReplayProgress) => void,
+  signal?: AbortSignal
+): Promise<ReplayStepResult[]> => {
+  const results: ReplayStepResult[] = [];
+  let sourceUrl = imageUrl;
+
+  for (const [stepIndex, step] of steps.entries()) {
+    if (signal?.aborted) {
+      throw new RecipeReplayError('Replay cancelled', stepIndex, results, true);
+    }
+    onProgress?.({ stepIndex });
+
+    try {
+      const result = await runStep(sourceUrl, step, (message) => onProgress?.({ stepIndex, message }), signal);
+      results.push(result);
+      sourceUrl = result.imageUrl;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RecipeReplayError('Replay cancelled', stepIndex, results, true);
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new RecipeReplayError(`Step ${stepIndex + 1} (${step.operation}) failed: ${message}`, stepIndex, results);
+    }
+  }
+
+  return results;
+};
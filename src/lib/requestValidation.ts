@@ -0,0 +1,82 @@
+// Server-side validation shared by the image edit and job routes
+
+import 'server-only';
+import { aiImageService } from './aiService';
+import { getServerConfig } from './config';
+import { readImageHeader } from './imageDimensions';
+import {
+  imageEditRequestSchema,
+  isAIOperation,
+  type AIOperation,
+  type ImageEditRequest
+} from './imageEditApi';
+
+type ValidationResult =
+  | { valid: true; request: ImageEditRequest; providerOperation: AIOperation }
+  | { valid: false; error: string; status: number };
+
+const decodeBase64 = (value: string): Uint8Array =>
+  new Uint8Array(Buffer.from(value.replace(/^data:[^,]*,/, ''), 'base64'));
+
+/**
+ * Check that a mask is a PNG with exactly the same dimensions as the image
+ */
+const validateMask = (image: string, mask: string): string | null => {
+  const maskHeader = readImageHeader(decodeBase64(mask));
+  if (maskHeader?.type !== 'png') {
+    return 'Mask must be a PNG image';
+  }
+
+  const imageHeader = readImageHeader(decodeBase64(image));
+  if (!imageHeader) {
+    return 'Could not read the image dimensions to check the mask';
+  }
+
+  if (maskHeader.width !== imageHeader.width || maskHeader.height !== imageHeader.height) {
+    return `Mask is ${maskHeader.width}×${maskHeader.height} but the image is ${imageHeader.width}×${imageHeader.height}`;
+  }
+
+  return null;
+};
+
+/**
+ * Validate an edit request body against the schema, size limit and active provider
+ */
+export const validateImageEditRequest = (body: unknown): ValidationResult => {
+  // Validate request shape and per-operation requirements
+  const parsed = imageEditRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return { valid: false, error: parsed.error.issues[0].message, status: 400 };
+  }
+
+  const request = parsed.data;
+
+  // Reject images above the configured limit (base64 inflates size by 4/3)
+  const { maxImageBytes } = getServerConfig();
+  if (Math.floor(request.image.length * 3 / 4) > maxImageBytes) {
+    return {
+      valid: false,
+      error: `Image must be smaller than ${Math.round(maxImageBytes / 1024 / 1024)}MB`,
+      status: 413
+    };
+  }
+
+  if (request.parameters?.mask) {
+    const maskError = validateMask(request.image, request.parameters.mask);
+    if (maskError) {
+      return { valid: false, error: maskError, status: 400 };
+    }
+  }
+
+  // Custom edits fall back to the generic enhance pipeline
+  const providerOperation = isAIOperation(request.operation) ? request.operation : 'enhance';
+  if (!aiImageService.supportsOperation(providerOperation)) {
+    return {
+      valid: false,
+      error: `Operation "${request.operation}" is not supported by the active AI provider`,
+      status: 400
+    };
+  }
+
+  return { valid: true, request, providerOperation };
+};
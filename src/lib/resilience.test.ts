@@ -0,0 +1,295 @@
+// Retry, timeout and circuit-breaker policy against a local fake provider.
+// Run with the react-server condition, which lets server-only modules load outside Next.js.
+
+import assert from 'node:assert/strict';
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { createAIImageService } from './aiService';
+import { loadServerConfig } from './config';
+import { HttpImageProvider } from './providers/http';
+import { ReplicateProvider } from './providers/replicate';
+import { CircuitBreaker, ProviderError, toProviderError, withRetry, type RetryPolicy } from './resilience';
+
+type Reply = (response: ServerResponse) => void;
+
+// A 1×1 PNG, as the fake provider's result
+const RESULT_IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const status = (code: number, headers: Record<string, string> = {}): Reply => (response) => {
+  response.writeHead(code, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(code < 400 ? { image: RESULT_IMAGE } : { error: `status ${code}` }));
+};
+
+const ok = status(200);
+
+const delayed = (ms: number, reply: Reply): Reply => (response) => {
+  setTimeout(() => {
+    if (!response.destroyed) reply(response);
+  }, ms);
+};
+
+// Never answers, so the caller's timeout decides
+const hang: Reply = () => {};
+
+describe('provider resilience', () => {
+  let server: Server;
+  let url: string;
+  let replies: Reply[] = [];
+  let requestTimes: number[] = [];
+
+  before(async () => {
+    server = createServer((request, response) => {
+      request.resume();
+      request.on('end', () => {
+        requestTimes.push(Date.now());
+        (replies.shift() ?? ok)(response);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/edit`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requestTimes = [];
+  });
+
+  describe('AIImageService with the HTTP provider', () => {
+    // The service logs every failed attempt, which is expected here
+    before(() => {
+      mock.method(console, 'error', () => {});
+      mock.method(console, 'warn', () => {});
+    });
+
+    after(() => mock.restoreAll());
+
+    // The service as the server builds it, from environment variables
+    const createService = (overrides: Record<string, string> = {}) => {
+      const env: NodeJS.ProcessEnv = {
+        NODE_ENV: 'test',
+        AI_PROVIDER: 'http',
+        AI_ENDPOINT: url,
+        AI_MAX_RETRIES: '2',
+        AI_RETRY_BASE_DELAY_MS: '1',
+        AI_RETRY_MAX_DELAY_MS: '1000',
+        ...overrides
+      };
+      return createAIImageService(loadServerConfig(env));
+    };
+
+    const enhance = { image: RESULT_IMAGE, operation: 'enhance' as const };
+
+    it('retries rate limits and server errors, honouring Retry-After', async () => {
+      replies = [status(429, { 'Retry-After': '0.2' }), status(500), ok];
+      const retries: Array<[number, string, number]> = [];
+
+      const result = await createService().processImage(enhance, {
+        onRetry: (attempt, reason, delayMs) => retries.push([attempt, reason, delayMs])
+      });
+
+      assert.equal(result.success, true);
+      assert.equal(result.data, `data:image/png;base64,${RESULT_IMAGE}`);
+      assert.equal(result.attempts, 3);
+      assert.equal(requestTimes.length, 3);
+      assert.deepEqual(retries.map(([attempt, reason]) => [attempt, reason]), [
+        [2, 'rate-limited'],
+        [3, 'upstream-unavailable']
+      ]);
+      // Retry-After wins over the backoff; the 500 without one gets jittered backoff
+      assert.equal(retries[0][2], 200);
+      assert.ok(requestTimes[1] - requestTimes[0] >= 190);
+      assert.ok(retries[1][2] <= 2);
+    });
+
+    it('reports a provider that stays rate limited', async () => {
+      replies = [status(429), status(429), status(429)];
+
+      const result = await createService().processImage(enhance);
+
+      assert.equal(result.success, false);
+      assert.equal(result.failureReason, 'rate-limited');
+      assert.equal(result.attempts, 3);
+      assert.equal(requestTimes.length, 3);
+    });
+
+    it('reports a provider that stays unavailable', async () => {
+      replies = [status(503), status(502), status(500)];
+
+      const result = await createService({ AI_MAX_RETRIES: '1' }).processImage(enhance);
+
+      assert.equal(result.failureReason, 'upstream-unavailable');
+      assert.equal(result.attempts, 2);
+      assert.equal(requestTimes.length, 2);
+    });
+
+    it('does not retry a bad request', async () => {
+      replies = [status(400), ok];
+
+      const result = await createService().processImage(enhance);
+
+      assert.equal(result.failureReason, 'bad-request');
+      assert.equal(result.attempts, 1);
+      assert.equal(requestTimes.length, 1);
+    });
+
+    it('reports a successful response without a JSON body as invalid', async () => {
+      replies = [
+        (response) => {
+          response.writeHead(200, { 'Content-Type': 'text/html' });
+          response.end('<html><body>Service maintenance</body></html>');
+        },
+        (response) => {
+          response.writeHead(200, { 'Content-Type': 'application/json' });
+          response.end();
+        }
+      ];
+      const service = createService();
+
+      const html = await service.processImage(enhance);
+      assert.equal(html.failureReason, 'invalid-response');
+      assert.equal(html.attempts, 1);
+
+      const empty = await service.processImage(enhance);
+      assert.equal(empty.failureReason, 'invalid-response');
+    });
+
+    it('gives up on a call that outlives its timeout', async () => {
+      replies = [hang];
+
+      const result = await createService({ AI_REQUEST_TIMEOUT_MS: '100' }).processImage(enhance);
+
+      assert.equal(result.failureReason, 'timeout');
+      assert.equal(result.attempts, 1);
+      assert.ok(result.processingTime! < 1000);
+    });
+
+    it('lets a per-operation timeout override the default', async () => {
+      const service = createService({
+        AI_REQUEST_TIMEOUT_MS: '150',
+        AI_OPERATION_TIMEOUTS_MS: 'style-transfer=2000'
+      });
+
+      // Slower than the default allows, within the style transfer's own limit
+      replies = [delayed(400, ok)];
+      const styled = await service.processImage({ ...enhance, operation: 'style-transfer' });
+      assert.equal(styled.success, true);
+
+      replies = [delayed(400, ok)];
+      const enhanced = await service.processImage(enhance);
+      assert.equal(enhanced.failureReason, 'timeout');
+    });
+
+    it('fails fast once the circuit opens', async () => {
+      const service = createService({ AI_MAX_RETRIES: '0', AI_CIRCUIT_FAILURE_THRESHOLD: '2' });
+      replies = [status(503), status(503)];
+
+      assert.equal((await service.processImage(enhance)).failureReason, 'upstream-unavailable');
+      assert.equal((await service.processImage(enhance)).failureReason, 'upstream-unavailable');
+
+      const result = await service.processImage(enhance);
+      assert.equal(result.failureReason, 'circuit-open');
+      assert.equal(requestTimes.length, 2);
+    });
+
+    it('reports a cancelled edit rather than a failure', async () => {
+      replies = [hang];
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+
+      const result = await createService().processImage(enhance, { signal: controller.signal });
+
+      assert.equal(result.cancelled, true);
+      assert.equal(result.failureReason, undefined);
+    });
+  });
+
+  describe('policy building blocks', () => {
+    const POLICY: RetryPolicy = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 30_000 };
+
+    // One attempt, as AIImageService makes it
+    const callProvider = (signal?: AbortSignal) =>
+      new HttpImageProvider({ type: 'http', endpoint: url })
+        .editImage({ image: RESULT_IMAGE, operation: 'enhance', prompt: 'Enhance', signal })
+        .catch((error) => {
+          throw signal?.aborted ? error : toProviderError(error);
+        });
+
+    it('stops waiting between retries when the caller aborts', async () => {
+      replies = [status(429, { 'Retry-After': '30' })];
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+      const startedAt = Date.now();
+
+      await assert.rejects(withRetry(() => callProvider(controller.signal), { policy: POLICY, signal: controller.signal }));
+      assert.ok(Date.now() - startedAt < 1000);
+      assert.equal(requestTimes.length, 1);
+    });
+
+    it('half-opens the circuit after the reset timeout and lets one trial call through', async () => {
+      let now = 0;
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, now: () => now });
+      replies = [status(503), status(503)];
+
+      for (let i = 0; i < 2; i++) {
+        await assert.rejects(breaker.execute(() => callProvider()));
+      }
+      assert.equal(breaker.getState(), 'open');
+      await assert.rejects(
+        breaker.execute(() => callProvider()),
+        (error: unknown) => error instanceof ProviderError && error.reason === 'circuit-open' && error.retryAfterMs === 1000
+      );
+
+      // A failed trial call opens the circuit again
+      now = 1000;
+      assert.equal(breaker.getState(), 'half-open');
+      replies = [status(502)];
+      await assert.rejects(breaker.execute(() => callProvider()));
+      assert.equal(breaker.getState(), 'open');
+
+      // A successful one closes it
+      now = 2000;
+      assert.equal(breaker.getState(), 'half-open');
+      await breaker.execute(() => callProvider());
+      assert.equal(breaker.getState(), 'closed');
+      assert.equal(requestTimes.length, 4);
+    });
+
+    it('reports a malformed prediction poll as an invalid response', async () => {
+      const provider = new ReplicateProvider({
+        type: 'replicate',
+        endpoint: url,
+        model: 'owner/model',
+        apiToken: 'test-token',
+        pollInterval: 1
+      });
+      const json = (body: unknown): Reply => (response) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      };
+      replies = [
+        json({ id: 'p1', status: 'starting', urls: { get: url } }),
+        json({ id: 'p1', status: 'pending' })
+      ];
+
+      await assert.rejects(
+        provider.editImage({ image: RESULT_IMAGE, operation: 'enhance', prompt: 'Enhance' }),
+        (error: unknown) => error instanceof ProviderError && error.reason === 'invalid-response'
+      );
+      assert.equal(requestTimes.length, 2);
+    });
+
+    it('does not count bad requests against the provider', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+      replies = [status(422)];
+
+      await assert.rejects(breaker.execute(() => callProvider()));
+      assert.equal(breaker.getState(), 'closed');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+// Retry, timeout and circuit-breaker policy for AI provider calls
+
+import type { EditFailureReason } from './imageEditApi';
+import { sleep } from './providers/utils';
+
+const RETRYABLE_REASONS: readonly EditFailureReason[] = ['rate-limited', 'upstream-unavailable', 'network'];
+
+// Failures that say something about the provider's health rather than the request
+const BREAKER_REASONS: readonly EditFailureReason[] = [...RETRYABLE_REASONS, 'timeout'];
+
+interface ProviderErrorOptions {
+  reason: EditFailureReason;
+  status?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class ProviderError extends Error {
+  readonly reason: EditFailureReason;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: ProviderErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.reason = options.reason;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_REASONS.includes(this.reason);
+  }
+
+  /**
+   * Build an error from a non-2xx provider response
+   */
+  static fromResponse(response: Response): ProviderError {
+    const message = `AI service error: ${response.status} ${response.statusText}`;
+
+    if (response.status === 429) {
+      return new ProviderError(message, {
+        reason: 'rate-limited',
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      });
+    }
+
+    if (response.status >= 500 || response.status === 408) {
+      return new ProviderError(message, {
+        reason: 'upstream-unavailable',
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      });
+    }
+
+    return new ProviderError(message, { reason: 'bad-request', status: response.status });
+  }
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Normalise anything thrown by a provider call into a ProviderError
+ */
+export const toProviderError = (error: unknown, timeoutMs?: number): ProviderError => {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    const limit = timeoutMs ? ` within ${Math.round(timeoutMs / 1000)}s` : '';
+    return new ProviderError(`AI provider did not respond${limit}`, { reason: 'timeout', cause: error });
+  }
+
+  // fetch rejects with a TypeError when the connection itself fails
+  if (error instanceof TypeError) {
+    return new ProviderError(`Could not reach AI provider: ${error.message}`, { reason: 'network', cause: error });
+  }
+
+  return new ProviderError(error instanceof Error ? error.message : 'Unknown error occurred', {
+    reason: 'unknown',
+    cause: error
+  });
+};
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface RetryOptions {
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Delay before the next attempt: Retry-After when the provider sends one,
+ * otherwise exponential backoff with full jitter
+ */
+export const getRetryDelay = (error: ProviderError, attempt: number, policy: RetryPolicy): number => {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * backoff);
+};
+
+/**
+ * Run an operation, retrying rate-limit, 5xx and network failures.
+ * The operation receives the 1-based attempt number.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  { policy, signal, onRetry }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      const providerError = toProviderError(error);
+      if (!providerError.retryable || attempt > policy.maxRetries) {
+        throw providerError;
+      }
+
+      const delay = getRetryDelay(providerError, attempt, policy);
+      onRetry?.(providerError, attempt, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  now?: () => number;
+}
+
+/**
+ * Fails fast after repeated upstream failures, then lets a single trial call
+ * through once the reset timeout has elapsed
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private readonly now: () => number;
+
+  constructor(private readonly options: CircuitBreakerOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+
+    if (state === 'open') {
+      const retryInMs = this.options.resetTimeoutMs - (this.now() - this.openedAt);
+      throw new ProviderError('AI provider is temporarily unavailable after repeated failures', {
+        reason: 'circuit-open',
+        retryAfterMs: retryInMs
+      });
+    }
+
+    // Only one trial call is allowed through while half-open
+    if (state === 'half-open') {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+
+    try {
+      const result = await operation();
+      this.state = 'closed';
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      const providerError = toProviderError(error);
+      if (BREAKER_REASONS.includes(providerError.reason)) {
+        this.recordFailure(state);
+      } else if (state === 'half-open') {
+        // The provider answered, so it is healthy even if the request was bad
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+      }
+      throw error;
+    }
+  }
+
+  private recordFailure(state: CircuitState) {
+    this.consecutiveFailures++;
+    if (state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+}
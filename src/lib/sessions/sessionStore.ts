@@ -0,0 +1,256 @@
+// Editing sessions saved to IndexedDB so a refresh or closed tab loses nothing
+// Session records hold the history structure; images live in a separate blob
+// store, one record per image, and are only written when they are new.
+
+import type {
+  SessionState,
+  SessionSummary,
+  StorageQuota,
+  StoredHistoryEntry,
+  StoredImageRef,
+  StoredSession
+} from './types';
+
+const DB_NAME = 'ai-image-editor';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const BLOBS = 'blobs';
+
+interface StoredBlob {
+  key: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+const toSummary = ({ id, name, createdAt, updatedAt, editCount, bytes }: StoredSession): SessionSummary => ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+  editCount,
+  bytes
+});
+
+const fetchBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.blob();
+};
+
+export class SessionStore {
+  private database: Promise<IDBDatabase> | null = null;
+  // Image URL → blob key for everything saved or restored in this page, so
+  // autosaves only copy images they have not seen before
+  private readonly blobKeys = new Map<string, string>();
+  // Saves run one at a time so overlapping autosaves cannot interleave their writes
+  private saveQueue: Promise<unknown> = Promise.resolve();
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          db.createObjectStore(BLOBS, { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let the next call try again rather than caching the failure
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Saved sessions, most recently updated first
+   */
+  async list(): Promise<SessionSummary[]> {
+    const db = await this.open();
+    const sessions = await requestToPromise<StoredSession[]>(
+      db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+    );
+    return sessions.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  save(state: SessionState): Promise<SessionSummary> {
+    const result = this.saveQueue.then(() => this.write(state));
+    this.saveQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async write(state: SessionState): Promise<SessionSummary> {
+    const db = await this.open();
+    const existing = await requestToPromise<StoredBlob[]>(
+      db.transaction(BLOBS).objectStore(BLOBS).index('sessionId').getAll(state.id)
+    );
+    const sizes = new Map(existing.map((record) => [record.key, record.blob.size]));
+    const added: StoredBlob[] = [];
+    const referenced = new Set<string>();
+
+    // Fetch everything before opening the write transaction; IndexedDB
+    // transactions close as soon as they sit idle across an await
+    const storeImage = async (url: string, blob?: Blob): Promise<StoredImageRef> => {
+      const known = this.blobKeys.get(url);
+      if (known && sizes.has(known)) {
+        referenced.add(known);
+        return { blobKey: known };
+      }
+
+      try {
+        const record = { key: `${state.id}/${crypto.randomUUID()}`, sessionId: state.id, blob: blob ?? await fetchBlob(url) };
+        added.push(record);
+        sizes.set(record.key, record.blob.size);
+        referenced.add(record.key);
+        this.blobKeys.set(url, record.key);
+        return { blobKey: record.key };
+      } catch (error) {
+        console.warn('Keeping image as a URL; it could not be read back:', error);
+        return { url };
+      }
+    };
+
+    const original = await storeImage(state.originalImageUrl, state.file);
+    const entries: StoredHistoryEntry[] = [];
+    for (const { imageUrl, variants, ...entry } of state.entries) {
+      const image = await storeImage(imageUrl);
+      const storedVariants: StoredImageRef[] | undefined = variants ? [] : undefined;
+      for (const variant of variants ?? []) {
+        storedVariants?.push(await storeImage(variant));
+      }
+      entries.push({ ...entry, image, variants: storedVariants });
+    }
+
+    const session: StoredSession = {
+      id: state.id,
+      name: state.file.name,
+      createdAt: state.createdAt,
+      updatedAt: Date.now(),
+      editCount: state.entries.length,
+      bytes: [...referenced].reduce((total, key) => total + (sizes.get(key) ?? 0), 0),
+      fileName: state.file.name,
+      fileType: state.file.type,
+      sourceFormat: state.sourceFormat,
+      original,
+      entries,
+      currentEntryId: state.currentEntryId,
+      branchTipId: state.branchTipId
+    };
+
+    const transaction = db.transaction([SESSIONS, BLOBS], 'readwrite');
+    const blobs = transaction.objectStore(BLOBS);
+    added.forEach((record) => blobs.put(record));
+    // Images from deleted branches
+    existing
+      .filter((record) => !referenced.has(record.key))
+      .forEach((record) => blobs.delete(record.key));
+    transaction.objectStore(SESSIONS).put(session);
+    await transactionDone(transaction);
+
+    return toSummary(session);
+  }
+
+  /**
+   * Rebuild a saved session with fresh object URLs, or null if it no longer exists
+   */
+  async load(id: string): Promise<SessionState | null> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS, BLOBS]);
+    const [session, records] = await Promise.all([
+      requestToPromise<StoredSession | undefined>(transaction.objectStore(SESSIONS).get(id)),
+      requestToPromise<StoredBlob[]>(transaction.objectStore(BLOBS).index('sessionId').getAll(id))
+    ]);
+    if (!session) return null;
+
+    const blobs = new Map(records.map((record) => [record.key, record.blob]));
+    const urls = new Map<string, string>();
+    const restoreImage = (ref: StoredImageRef): string => {
+      if ('url' in ref) return ref.url;
+
+      const existingUrl = urls.get(ref.blobKey);
+      if (existingUrl) return existingUrl;
+      const blob = blobs.get(ref.blobKey);
+      if (!blob) {
+        throw new Error('Saved session is missing an image');
+      }
+      const url = URL.createObjectURL(blob);
+      urls.set(ref.blobKey, url);
+      this.blobKeys.set(url, ref.blobKey);
+      return url;
+    };
+
+    const originalImageUrl = restoreImage(session.original);
+    const originalBlob = 'blobKey' in session.original ? blobs.get(session.original.blobKey) : undefined;
+    const file = new File(
+      [originalBlob ?? await fetchBlob(originalImageUrl)],
+      session.fileName,
+      { type: session.fileType }
+    );
+
+    return {
+      id: session.id,
+      file,
+      sourceFormat: session.sourceFormat,
+      originalImageUrl,
+      entries: session.entries.map(({ image, variants, ...entry }) => ({
+        ...entry,
+        imageUrl: restoreImage(image),
+        variants: variants?.map(restoreImage)
+      })),
+      currentEntryId: session.currentEntryId,
+      branchTipId: session.branchTipId,
+      createdAt: session.createdAt
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS, BLOBS], 'readwrite');
+    const blobs = transaction.objectStore(BLOBS);
+    transaction.objectStore(SESSIONS).delete(id);
+    const keys = await requestToPromise(blobs.index('sessionId').getAllKeys(id));
+    keys.forEach((key) => blobs.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS, BLOBS], 'readwrite');
+    transaction.objectStore(SESSIONS).clear();
+    transaction.objectStore(BLOBS).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * How much of the origin's storage allowance is in use, where the browser reports it
+   */
+  async getQuota(): Promise<StorageQuota | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  }
+}
+
+export const sessionStore = new SessionStore();
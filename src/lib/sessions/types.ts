@@ -0,0 +1,49 @@
+// Contracts for editing sessions saved in the browser
+
+import type { SourceFormat } from '../formats';
+import type { EditHistory } from '../history';
+
+// Images are kept as blobs; URLs the browser cannot read back (cross-origin
+// provider results without CORS) are kept as they are
+export type StoredImageRef = { blobKey: string } | { url: string };
+
+export interface StoredHistoryEntry extends Omit<EditHistory, 'imageUrl' | 'variants'> {
+  image: StoredImageRef;
+  variants?: StoredImageRef[];
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  editCount: number;
+  bytes: number; // Total size of the stored blobs
+}
+
+export interface StoredSession extends SessionSummary {
+  fileName: string;
+  fileType: string;
+  sourceFormat?: SourceFormat; // Missing in sessions saved before formats were recorded
+  original: StoredImageRef;
+  entries: StoredHistoryEntry[];
+  currentEntryId: string | null;
+  branchTipId: string | null;
+}
+
+// Live editor state; what the store saves and what a restore hands back with fresh object URLs
+export interface SessionState {
+  id: string;
+  file: File;
+  sourceFormat?: SourceFormat; // What was uploaded, before any conversion on import
+  originalImageUrl: string;
+  entries: EditHistory[];
+  currentEntryId: string | null;
+  branchTipId: string | null;
+  createdAt: number;
+}
+
+export interface StorageQuota {
+  usage: number;
+  quota: number;
+}
@@ -0,0 +1,37 @@
+import 'server-only';
+import path from 'path';
+import { getServerConfig } from '../config';
+import { LocalFileStorage } from './localFileStorage';
+import { assetUrl, persistImage } from './persist';
+import type { AssetStorage } from './types';
+
+const config = getServerConfig();
+
+export const assetStorage: AssetStorage = new LocalFileStorage(path.resolve(config.assets.directory), {
+  retentionMs: config.assets.retentionMs,
+  maxTotalBytes: config.assets.maxTotalBytes
+});
+
+/**
+ * Store a result image and return its same-origin URL. Falls back to the
+ * original URL if the image cannot be stored, so a finished edit is never lost.
+ */
+export const persistResultImage = async (imageUrl: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    const asset = await persistImage(assetStorage, imageUrl, {
+      maxBytes: config.assets.maxBytes,
+      timeoutMs: config.assets.fetchTimeoutMs,
+      signal
+    });
+    return assetUrl(asset.id);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Failed to persist result image, using provider URL:', error);
+    return imageUrl;
+  }
+};
+
+export { LocalFileStorage } from './localFileStorage';
+export { assetUrl, persistImage, sniffImageType } from './persist';
+export { ASSET_ID_PATTERN } from './types';
+export type { AssetStorage, StoredAsset } from './types';
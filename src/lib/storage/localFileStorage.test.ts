@@ -0,0 +1,86 @@
+// Expiry and size-capped eviction of stored assets, against a temporary directory.
+
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { LocalFileStorage } from './localFileStorage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bytes = (size: number, fill: number) => new Uint8Array(size).fill(fill);
+
+describe('LocalFileStorage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'assets-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  // Pretend an asset was last stored or served this many days ago
+  const age = async (id: string, days: number) => {
+    const time = new Date(Date.now() - days * DAY_MS);
+    await fs.utimes(path.join(directory, id), time, time);
+  };
+
+  it('stores identical content once and serves it back', async () => {
+    const storage = new LocalFileStorage(directory);
+
+    const first = await storage.put(bytes(10, 1), 'image/png');
+    const second = await storage.put(bytes(10, 1), 'image/png');
+
+    assert.equal(second.id, first.id);
+    assert.deepEqual((await storage.get(first.id))?.data, bytes(10, 1));
+    assert.equal((await fs.readdir(directory)).length, 2);
+  });
+
+  it('deletes assets that have not been used within the retention period', async () => {
+    const writer = new LocalFileStorage(directory);
+    const stale = await writer.put(bytes(10, 1), 'image/png');
+    const fresh = await writer.put(bytes(10, 2), 'image/png');
+    await age(stale.id, 8);
+    await age(fresh.id, 6);
+
+    await new LocalFileStorage(directory, { retentionMs: 7 * DAY_MS }).sweep();
+
+    assert.equal(await writer.get(stale.id), null);
+    assert.ok(await writer.get(fresh.id));
+    assert.deepEqual((await fs.readdir(directory)).sort(), [fresh.id, `${fresh.id}.json`].sort());
+  });
+
+  it('keeps an asset alive while it is served or stored again', async () => {
+    const storage = new LocalFileStorage(directory);
+    const served = await storage.put(bytes(10, 1), 'image/png');
+    const restored = await storage.put(bytes(10, 2), 'image/png');
+    await age(served.id, 8);
+    await age(restored.id, 8);
+
+    await storage.get(served.id);
+    await storage.put(bytes(10, 2), 'image/png');
+    await new LocalFileStorage(directory, { retentionMs: 7 * DAY_MS }).sweep();
+
+    assert.ok(await storage.get(served.id));
+    assert.ok(await storage.get(restored.id));
+  });
+
+  it('evicts the least recently used assets once the total passes the cap', async () => {
+    const writer = new LocalFileStorage(directory);
+    const oldest = await writer.put(bytes(100, 1), 'image/png');
+    const middle = await writer.put(bytes(100, 2), 'image/png');
+    const newest = await writer.put(bytes(100, 3), 'image/png');
+    await age(oldest.id, 3);
+    await age(middle.id, 2);
+    await age(newest.id, 1);
+
+    await new LocalFileStorage(directory, { maxTotalBytes: 250 }).sweep();
+
+    assert.equal(await writer.get(oldest.id), null);
+    assert.ok(await writer.get(middle.id));
+    assert.ok(await writer.get(newest.id));
+  });
+});
@@ -0,0 +1,154 @@
+// Filesystem-backed asset storage
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ASSET_ID_PATTERN, type AssetStorage, type StoredAsset } from './types';
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+interface LocalFileStorageOptions {
+  retentionMs?: number; // Delete assets not stored or served for this long
+  maxTotalBytes?: number; // Delete the least recently used assets above this total
+}
+
+/**
+ * Stores each asset as `<id>` plus a `<id>.json` metadata file. Ids are SHA-256
+ * hashes of the content, so identical images are stored once and never change.
+ * The data file's modification time records when the asset was last stored or
+ * served, which is what the sweep expires and evicts by.
+ */
+export class LocalFileStorage implements AssetStorage {
+  private sweeping: Promise<void> | null = null;
+
+  constructor(private readonly directory: string, private readonly options: LocalFileStorageOptions = {}) {
+    if (options.retentionMs !== undefined || options.maxTotalBytes !== undefined) {
+      this.sweep().catch((error) => console.warn('Failed to sweep asset storage:', error));
+      // The timer must not keep the process alive
+      setInterval(() => {
+        this.sweep().catch((error) => console.warn('Failed to sweep asset storage:', error));
+      }, Math.min(options.retentionMs ?? SWEEP_INTERVAL_MS, SWEEP_INTERVAL_MS)).unref();
+    }
+  }
+
+  async put(data: Uint8Array, contentType: string): Promise<StoredAsset> {
+    const id = createHash('sha256').update(data).digest('hex');
+    const existing = await this.readMetadata(id);
+    if (existing && await this.touch(id)) {
+      return existing;
+    }
+
+    const asset: StoredAsset = {
+      id,
+      contentType,
+      size: data.byteLength,
+      createdAt: Date.now()
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.dataPath(id), data);
+    await fs.writeFile(this.metadataPath(id), JSON.stringify(asset));
+
+    return asset;
+  }
+
+  async get(id: string): Promise<{ asset: StoredAsset; data: Uint8Array } | null> {
+    const asset = await this.readMetadata(id);
+    if (!asset) {
+      return null;
+    }
+
+    try {
+      const data = await fs.readFile(this.dataPath(id));
+      await this.touch(id);
+      return { asset, data: new Uint8Array(data) };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!ASSET_ID_PATTERN.test(id)) return;
+    await Promise.all([
+      fs.rm(this.dataPath(id), { force: true }),
+      fs.rm(this.metadataPath(id), { force: true })
+    ]);
+  }
+
+  /**
+   * Delete expired assets, then the least recently used ones until the total fits
+   */
+  sweep(): Promise<void> {
+    // A slow sweep must not overlap the next one
+    this.sweeping ??= this.runSweep().finally(() => {
+      this.sweeping = null;
+    });
+    return this.sweeping;
+  }
+
+  private async runSweep(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return; // Nothing stored yet
+    }
+
+    const assets: Array<{ id: string; size: number; usedAt: number }> = [];
+    for (const id of names.filter((name) => ASSET_ID_PATTERN.test(name))) {
+      try {
+        const stats = await fs.stat(this.dataPath(id));
+        assets.push({ id, size: stats.size, usedAt: stats.mtimeMs });
+      } catch {
+        // Deleted since the directory was read
+      }
+    }
+
+    const { retentionMs, maxTotalBytes = Infinity } = this.options;
+    const cutoff = retentionMs === undefined ? -Infinity : Date.now() - retentionMs;
+    let totalBytes = assets.reduce((total, asset) => total + asset.size, 0);
+
+    for (const asset of assets.sort((a, b) => a.usedAt - b.usedAt)) {
+      if (asset.usedAt >= cutoff && totalBytes <= maxTotalBytes) break;
+      await this.delete(asset.id);
+      totalBytes -= asset.size;
+    }
+
+    // Metadata whose data is gone
+    const present = new Set(names);
+    await Promise.all(names
+      .filter((name) => name.endsWith('.json') && !present.has(name.slice(0, -'.json'.length)))
+      .map((name) => fs.rm(path.join(this.directory, name), { force: true })));
+  }
+
+  // Mark an asset as used now; false if its data is gone
+  private async touch(id: string): Promise<boolean> {
+    const now = new Date();
+    try {
+      await fs.utimes(this.dataPath(id), now, now);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async readMetadata(id: string): Promise<StoredAsset | null> {
+    if (!ASSET_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.metadataPath(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private dataPath(id: string): string {
+    return path.join(this.directory, id);
+  }
+
+  private metadataPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
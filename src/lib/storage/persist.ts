@@ -0,0 +1,95 @@
+// Copy AI result images into asset storage so they outlive provider URLs
+
+import { detectSourceFormat, INPUT_MIME_TYPES } from '../formats';
+import type { AssetStorage, StoredAsset } from './types';
+
+interface PersistImageOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Identify an image from its leading bytes rather than trusting the declared type
+ */
+export const sniffImageType = (data: Uint8Array): string | undefined => {
+  const format = detectSourceFormat(data.subarray(0, 64));
+  return format ? INPUT_MIME_TYPES[format][0] : undefined;
+};
+
+export const assetUrl = (id: string): string => `/api/assets/${id}`;
+
+const decodeDataUrl = (url: string): Uint8Array => {
+  const comma = url.indexOf(',');
+  const header = url.slice(0, comma);
+  const body = url.slice(comma + 1);
+  return header.endsWith(';base64')
+    ? new Uint8Array(Buffer.from(body, 'base64'))
+    : new Uint8Array(Buffer.from(decodeURIComponent(body)));
+};
+
+// Read a response body, giving up as soon as it grows past the limit
+const readLimited = async (response: Response, maxBytes: number): Promise<Uint8Array> => {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    throw new Error(`Result image is larger than ${maxBytes} bytes`);
+  }
+
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Result image is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return new Uint8Array(Buffer.concat(chunks));
+};
+
+const fetchImage = async (url: string, { maxBytes, timeoutMs, signal }: PersistImageOptions): Promise<Uint8Array> => {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const response = await fetch(url, {
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch result image: ${response.status} ${response.statusText}`);
+  }
+
+  return readLimited(response, maxBytes);
+};
+
+/**
+ * Fetch or decode a result image and store it, returning the stored asset
+ */
+export const persistImage = async (
+  storage: AssetStorage,
+  imageUrl: string,
+  options: PersistImageOptions
+): Promise<StoredAsset> => {
+  const data = imageUrl.startsWith('data:')
+    ? decodeDataUrl(imageUrl)
+    : await fetchImage(imageUrl, options);
+
+  if (data.byteLength > options.maxBytes) {
+    throw new Error(`Result image is larger than ${options.maxBytes} bytes`);
+  }
+
+  const contentType = sniffImageType(data);
+  if (!contentType) {
+    throw new Error('Result is not a supported image format');
+  }
+
+  return storage.put(data, contentType);
+};
@@ -0,0 +1,17 @@
+// Storage contracts for persisted image assets
+
+export interface StoredAsset {
+  id: string;
+  contentType: string;
+  size: number;
+  createdAt: number;
+}
+
+export interface AssetStorage {
+  put(data: Uint8Array, contentType: string): Promise<StoredAsset>;
+  get(id: string): Promise<{ asset: StoredAsset; data: Uint8Array } | null>;
+  delete(id: string): Promise<void>;
+}
+
+// Asset ids are content hashes, which also keeps them safe to use as file names
+export const ASSET_ID_PATTERN = /^[a-f0-9]{64}$/;
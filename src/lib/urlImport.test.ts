@@ -0,0 +1,47 @@
+// Address checks that keep URL imports off the server's own network.
+// Run with the react-server condition, which lets server-only modules load outside Next.js.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isBlockedAddress, parseImportUrl, UrlImportError } from './urlImport';
+
+describe('URL import address checks', () => {
+  it('blocks loopback, private and link-local IPv4 addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0']) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+  });
+
+  it('blocks IPv6 addresses that wrap a private IPv4 address', () => {
+    for (const address of [
+      '::',
+      '::1',
+      '::127.0.0.1', // IPv4-compatible
+      '::ffff:127.0.0.1', // IPv4-mapped
+      '2002:7f00:1::', // 6to4 around 127.0.0.1
+      '2002:a9fe:a9fe::', // 6to4 around 169.254.169.254
+      '64:ff9b::7f00:1', // NAT64
+      'fd00::1',
+      'fe80::1'
+    ]) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+  });
+
+  it('allows public addresses and treats anything else as blocked', () => {
+    assert.equal(isBlockedAddress('93.184.216.34'), false);
+    assert.equal(isBlockedAddress('2606:4700:4700::1111'), false);
+    assert.equal(isBlockedAddress('not-an-address'), true);
+  });
+
+  it('refuses URLs with literal private addresses before connecting', () => {
+    for (const value of ['http://[::127.0.0.1]/a.png', 'http://[2002:7f00:1::]/a.png', 'http://localhost/a.png']) {
+      assert.throws(
+        () => parseImportUrl(value),
+        (error: unknown) => error instanceof UrlImportError && error.status === 403,
+        value
+      );
+    }
+    assert.equal(parseImportUrl('https://example.com/a.png').hostname, 'example.com');
+  });
+});
@@ -0,0 +1,200 @@
+// Fetching user-supplied image URLs without letting them reach the server's own network.
+// Every connection, including each redirect, goes through a DNS lookup that refuses
+// private, loopback and other non-public addresses.
+
+import 'server-only';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+export class UrlImportError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'UrlImportError';
+  }
+}
+
+interface FetchRemoteImageOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+interface RemoteImage {
+  data: Uint8Array;
+  url: string; // Final URL after redirects
+}
+
+const MAX_REDIRECTS = 5;
+
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'], // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.88.99.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'], // Multicast
+  ['240.0.0.0', 4, 'ipv4'], // Reserved and broadcast
+  ['::', 96, 'ipv6'], // Unspecified, loopback and IPv4-compatible addresses
+  ['64:ff9b::', 96, 'ipv6'], // NAT64 can wrap any IPv4 address
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['2002::', 16, 'ipv6'], // 6to4 embeds an IPv4 address in the prefix
+  ['fc00::', 7, 'ipv6'], // Unique local
+  ['fe80::', 10, 'ipv6'], // Link-local
+  ['ff00::', 8, 'ipv6'] // Multicast
+];
+
+// BlockList applies the IPv4 ranges to IPv4-mapped IPv6 addresses as well
+const blockList = new net.BlockList();
+for (const [address, prefix, family] of BLOCKED_RANGES) {
+  blockList.addSubnet(address, prefix, family);
+}
+
+/**
+ * Whether an IP address is outside the public internet. Anything that is not an
+ * IP address at all counts as blocked.
+ */
+export const isBlockedAddress = (address: string): boolean => {
+  const version = net.isIP(address);
+  if (version === 0) return true;
+  return blockList.check(address, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Parse and check a URL before connecting: http(s) only, no credentials, and
+ * no literal private addresses
+ */
+export const parseImportUrl = (value: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UrlImportError('Enter a valid URL', 400);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlImportError('Only http and https links can be imported', 400);
+  }
+  if (url.username || url.password) {
+    throw new UrlImportError('Links with a username or password cannot be imported', 400);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && isBlockedAddress(host))) {
+    throw new UrlImportError('Links to private or local addresses cannot be imported', 403);
+  }
+
+  return url;
+};
+
+// DNS lookup that fails instead of handing back a private address, so a public
+// name that resolves inward is refused at connect time
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new UrlImportError('Links to private or local addresses cannot be imported', 403), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const request = (url: URL, signal: AbortSignal): Promise<http.IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, {
+      lookup: guardedLookup,
+      signal,
+      headers: { 'Accept': 'image/*', 'User-Agent': 'ai-image-editor-url-import' }
+    }, resolve);
+    req.on('error', reject);
+  });
+
+// Read a response body, giving up as soon as it grows past the limit
+const readLimited = async (response: http.IncomingMessage, maxBytes: number): Promise<Uint8Array> => {
+  const declared = Number(response.headers['content-length']);
+  if (declared > maxBytes) {
+    response.destroy();
+    throw new UrlImportError(`Image is larger than ${maxBytes} bytes`, 413);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of response) {
+    total += (chunk as Buffer).byteLength;
+    if (total > maxBytes) {
+      response.destroy();
+      throw new UrlImportError(`Image is larger than ${maxBytes} bytes`, 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return new Uint8Array(Buffer.concat(chunks));
+};
+
+/**
+ * Download an image from a user-supplied URL. Redirects are followed by hand so
+ * every hop is checked the same way as the first.
+ */
+export const fetchRemoteImage = async (
+  value: string,
+  { maxBytes, timeoutMs, signal }: FetchRemoteImageOptions
+): Promise<RemoteImage> => {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+  let url = parseImportUrl(value);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await request(url, combined);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new UrlImportError('The link redirects too many times', 502);
+        }
+        url = parseImportUrl(new URL(response.headers.location, url).toString());
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new UrlImportError(`The site answered ${status} ${response.statusMessage ?? ''}`.trim(), 502);
+      }
+
+      const data = await readLimited(response, maxBytes);
+      return { data, url: url.toString() };
+    }
+  } catch (error) {
+    if (error instanceof UrlImportError) throw error;
+    if (signal?.aborted) throw error;
+    if (timeout.aborted) {
+      throw new UrlImportError('The site took too long to respond', 504);
+    }
+    throw new UrlImportError('Could not reach the site', 502);
+  }
+};
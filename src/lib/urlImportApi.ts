@@ -0,0 +1,57 @@
+// Request and response contracts for /api/import-url
+// Shared by the API route and the browser client, so keep this free of server-only imports.
+
+import { z } from 'zod';
+
+export const MAX_IMPORT_URL_LENGTH = 2048;
+
+export const urlImportRequestSchema = z.object({
+  url: z.string({ required_error: 'Missing required field: url', invalid_type_error: 'URL must be a string' })
+    .trim()
+    .min(1, 'Missing required field: url')
+    .max(MAX_IMPORT_URL_LENGTH, 'URL is too long')
+    .url('Enter a valid URL')
+    .refine((url) => /^https?:\/\//i.test(url), 'Only http and https links can be imported')
+});
+
+export type UrlImportRequest = z.infer<typeof urlImportRequestSchema>;
+
+export interface UrlImportSuccessResponse {
+  success: true;
+  imageUrl: string; // Same-origin asset URL
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface UrlImportErrorResponse {
+  success: false;
+  error: string;
+}
+
+export type UrlImportResponse = UrlImportSuccessResponse | UrlImportErrorResponse;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+/**
+ * A file name for a downloaded image, from the last path segment when there is one
+ */
+export const fileNameFromUrl = (url: string, contentType: string): string => {
+  const extension = EXTENSIONS[contentType] ?? contentType.split('/')[1] ?? 'img';
+  let base = 'imported-image';
+
+  if (!url.startsWith('data:')) {
+    try {
+      const segment = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+      base = segment.replace(/\.[^/.]+$/, '').replace(/[\\/:*?"<>|]+/g, '-') || base;
+    } catch {
+      // Keep the generic name for malformed paths
+    }
+  }
+  return `${base}.${extension}`;
+};
@@ -0,0 +1,101 @@
+// Pan and zoom math for the canvas viewport
+// Scale is CSS pixels per image pixel; x and y place the image's top-left corner in the viewport.
+
+import type { ImageDimensions } from './imageUtils';
+
+export interface ViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export type FitMode = 'fit' | 'fill' | 'actual';
+
+// Zoom limits in device pixels per image pixel
+export const MIN_ZOOM = 0.02;
+export const MAX_ZOOM = 32;
+
+/**
+ * View that fits, fills or shows the image at 100% (one image pixel per device pixel), centred
+ */
+export const getFitView = (
+  image: ImageDimensions,
+  viewport: ImageDimensions,
+  mode: FitMode,
+  devicePixelRatio: number = 1
+): ViewState => {
+  const fitScale = Math.min(viewport.width / image.width, viewport.height / image.height);
+  const fillScale = Math.max(viewport.width / image.width, viewport.height / image.height);
+
+  const scale = mode === 'fit'
+    ? Math.min(fitScale, 1) // Never blow small images up just to fit
+    : mode === 'fill'
+      ? fillScale
+      : 1 / devicePixelRatio;
+
+  return {
+    scale,
+    x: (viewport.width - image.width * scale) / 2,
+    y: (viewport.height - image.height * scale) / 2
+  };
+};
+
+/**
+ * Keep at least half the viewport covered by the image along each axis it overflows,
+ * and centre it along axes where it is smaller than the viewport
+ */
+export const clampView = (view: ViewState, image: ImageDimensions, viewport: ImageDimensions): ViewState => {
+  const clampAxis = (offset: number, imageSize: number, viewportSize: number) => {
+    const size = imageSize * view.scale;
+    if (size <= viewportSize) {
+      return (viewportSize - size) / 2;
+    }
+    return Math.min(viewportSize / 2, Math.max(viewportSize / 2 - size, offset));
+  };
+
+  return {
+    scale: view.scale,
+    x: clampAxis(view.x, image.width, viewport.width),
+    y: clampAxis(view.y, image.height, viewport.height)
+  };
+};
+
+/**
+ * Zoom to a new scale while keeping the image point under (pointX, pointY) in place
+ */
+export const zoomAt = (
+  view: ViewState,
+  scale: number,
+  pointX: number,
+  pointY: number,
+  devicePixelRatio: number = 1
+): ViewState => {
+  const clamped = Math.min(MAX_ZOOM / devicePixelRatio, Math.max(MIN_ZOOM / devicePixelRatio, scale));
+  const ratio = clamped / view.scale;
+  return {
+    scale: clamped,
+    x: pointX - (pointX - view.x) * ratio,
+    y: pointY - (pointY - view.y) * ratio
+  };
+};
+
+/**
+ * Part of the image currently visible, in image pixels
+ */
+export const getVisibleRect = (view: ViewState, image: ImageDimensions, viewport: ImageDimensions) => {
+  const left = Math.max(0, -view.x / view.scale);
+  const top = Math.max(0, -view.y / view.scale);
+  const right = Math.min(image.width, (viewport.width - view.x) / view.scale);
+  const bottom = Math.min(image.height, (viewport.height - view.y) / view.scale);
+
+  return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+/**
+ * Pan so that the given image point sits in the middle of the viewport
+ */
+export const centerOn = (view: ViewState, imageX: number, imageY: number, viewport: ImageDimensions): ViewState => ({
+  scale: view.scale,
+  x: viewport.width / 2 - imageX * view.scale,
+  y: viewport.height / 2 - imageY * view.scale
+});
@@ -0,0 +1,37 @@
+// Working size policy for large images: AI edits are sent a scaled-down copy,
+// while the original and local edits keep every pixel.
+
+import type { ImageDimensions } from '../imageUtils';
+
+// Longest edge of the copy sent with AI edits, in pixels; null sends the image at full size
+export type WorkingSize = number | null;
+
+export const WORKING_SIZE_OPTIONS: WorkingSize[] = [1024, 1536, 2048, 3072, 4096, null];
+
+export const DEFAULT_WORKING_SIZE: WorkingSize = 2048;
+
+export const isWorkingSize = (value: unknown): value is WorkingSize =>
+  WORKING_SIZE_OPTIONS.includes(value as WorkingSize);
+
+export const exceedsWorkingSize = ({ width, height }: ImageDimensions, size: WorkingSize): boolean =>
+  size !== null && Math.max(width, height) > size;
+
+/**
+ * Shrink dimensions by a factor, keeping at least one pixel on each side
+ */
+export const scaleDimensions = ({ width, height }: ImageDimensions, scale: number): ImageDimensions => ({
+  width: Math.max(1, Math.round(width * scale)),
+  height: Math.max(1, Math.round(height * scale))
+});
+
+/**
+ * The size an image is sent at with AI edits; its own size when it already fits
+ */
+export const workingDimensions = (dimensions: ImageDimensions, size: WorkingSize): ImageDimensions => {
+  if (size === null || !exceedsWorkingSize(dimensions, size)) return dimensions;
+
+  return scaleDimensions(dimensions, size / Math.max(dimensions.width, dimensions.height));
+};
+
+export const formatDimensions = ({ width, height }: ImageDimensions): string =>
+  `${width} × ${height} (${Number(((width * height) / 1_000_000).toFixed(1))} MP)`;
@@ -0,0 +1,105 @@
+// Browser side of the working size policy: the chosen size, kept between visits,
+// and the scaled-down copy of an image (and its mask) sent with an AI edit.
+
+import { readImageHeader } from '../imageDimensions';
+import { imageEditClient } from '../imageEditClient';
+import { base64ToBlob, blobToBase64, imageUrlToBlob, resizeImage, type ProcessedImage } from '../imageUtils';
+import type { ProcessParameters } from '../processing/types';
+import {
+  DEFAULT_WORKING_SIZE,
+  exceedsWorkingSize,
+  isWorkingSize,
+  scaleDimensions,
+  workingDimensions,
+  type WorkingSize
+} from './index';
+
+const STORAGE_KEY = 'ai-image-editor:working-size';
+
+class WorkingSizePreference {
+  get(): WorkingSize {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const value: unknown = stored === null ? DEFAULT_WORKING_SIZE : JSON.parse(stored);
+      return isWorkingSize(value) ? value : DEFAULT_WORKING_SIZE;
+    } catch {
+      // Storage can be unavailable, e.g. in private windows or during server rendering
+      return DEFAULT_WORKING_SIZE;
+    }
+  }
+
+  set(size: WorkingSize) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(size));
+    } catch (error) {
+      console.warn('Could not save the working size:', error);
+    }
+  }
+}
+
+export const workingSizePreference = new WorkingSizePreference();
+
+// Re-encoding does not shrink a file exactly in proportion to its pixels
+const SIZE_LIMIT_MARGIN = 0.9;
+const MAX_SHRINK_ATTEMPTS = 4;
+
+let maxImageBytes: Promise<number | undefined> | null = null;
+
+/**
+ * The largest image the server accepts with an AI edit, loaded once per page.
+ * Undefined if the server could not be asked; it still enforces the limit itself.
+ */
+export const getMaxImageBytes = (): Promise<number | undefined> => {
+  maxImageBytes ??= imageEditClient.getCapabilities()
+    .then((capabilities) => capabilities.maxImageBytes)
+    .catch((error) => {
+      console.warn('Could not load the server image limit:', error);
+      maxImageBytes = null;
+      return undefined;
+    });
+  return maxImageBytes;
+};
+
+export interface AIInput {
+  image: string; // Base64
+  parameters?: ProcessParameters;
+}
+
+/**
+ * The image and parameters to send with an AI edit. Images larger than the working
+ * size, or than the server accepts, are scaled down, and a painted mask with them
+ * so the two still line up.
+ */
+export const prepareAIInput = async (
+  imageUrl: string,
+  parameters: ProcessParameters | undefined,
+  size: WorkingSize,
+  signal?: AbortSignal
+): Promise<AIInput> => {
+  const blob = await imageUrlToBlob(imageUrl, signal);
+  const maxBytes = await getMaxImageBytes();
+  // JPEG dimensions can come after large metadata segments, so the whole file is read
+  const header = readImageHeader(new Uint8Array(await blob.arrayBuffer()));
+  const overLimit = (bytes: number) => maxBytes !== undefined && bytes > maxBytes;
+  if (!header || (!exceedsWorkingSize(header, size) && !overLimit(blob.size))) {
+    return { image: await blobToBase64(blob), parameters };
+  }
+
+  let dimensions = exceedsWorkingSize(header, size)
+    ? workingDimensions(header, size)
+    : scaleDimensions(header, Math.sqrt(maxBytes! / blob.size) * SIZE_LIMIT_MARGIN);
+  let image: ProcessedImage = await resizeImage(blob, dimensions.width, dimensions.height);
+
+  // Keep shrinking a copy that still comes out over the server's limit
+  for (let attempt = 1; attempt < MAX_SHRINK_ATTEMPTS && overLimit(image.fileSize); attempt++) {
+    signal?.throwIfAborted();
+    dimensions = scaleDimensions(dimensions, Math.sqrt(maxBytes! / image.fileSize) * SIZE_LIMIT_MARGIN);
+    image = await resizeImage(blob, dimensions.width, dimensions.height);
+  }
+
+  const mask = parameters?.mask
+    ? (await resizeImage(base64ToBlob(parameters.mask, 'image/png'), image.dimensions.width, image.dimensions.height)).base64
+    : undefined;
+
+  return { image: image.base64, parameters: mask ? { ...parameters, mask } : parameters };
+};